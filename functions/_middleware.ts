@@ -0,0 +1,36 @@
+// BrainSAIT IOD Pages Middleware - Security Headers
+// OID: 1.3.6.1.4.1.61026.4.1.4 (Content Security Policy)
+
+const CSP_REPORT_PATH = '/api/security/csp-report';
+const CSP_REPORT_GROUP = 'csp-endpoint';
+
+// Mirrors the policy in index.html, plus the reporting directives a <meta> policy cannot carry
+const CONTENT_SECURITY_POLICY = [
+  "default-src 'self'",
+  "script-src 'self' 'unsafe-inline' https://js.stripe.com",
+  "style-src 'self' 'unsafe-inline' https://fonts.googleapis.com",
+  "font-src 'self' https://fonts.gstatic.com",
+  "connect-src 'self' https://api.stripe.com https://api.brainsait.com https://neural.brainsait.com https://nphies.sa.gov.sa https://nid.gov.sd",
+  "img-src 'self' data:",
+  'frame-src https://js.stripe.com',
+  `report-uri ${CSP_REPORT_PATH}`,
+  `report-to ${CSP_REPORT_GROUP}`
+].join('; ');
+
+export async function onRequest(context: EventContext<any, any, any>) {
+  const response = await context.next();
+
+  const contentType = response.headers.get('Content-Type') || '';
+  if (!contentType.includes('text/html')) {
+    return response;
+  }
+
+  // Static asset responses are immutable; copy before adding headers
+  const securedResponse = new Response(response.body, response);
+  const origin = new URL(context.request.url).origin;
+
+  securedResponse.headers.set('Content-Security-Policy', CONTENT_SECURITY_POLICY);
+  securedResponse.headers.set('Reporting-Endpoints', `${CSP_REPORT_GROUP}="${origin}${CSP_REPORT_PATH}"`);
+
+  return securedResponse;
+}
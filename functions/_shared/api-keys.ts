@@ -0,0 +1,182 @@
+// BrainSAIT IOD Shared - Tenant API Keys
+// OID: 1.3.6.1.4.1.61026.4.4 (Tenant Credentials)
+
+import { randomToken, sha256Hex, timingSafeEqual, toHex } from './encoding';
+
+// Keys look like bsk_<key_id>_<secret>. Only the SHA-256 of the secret is stored; the
+// key_id half is public and used for lookup, rate limiting and audit.
+
+export const API_KEY_HEADER = 'X-API-Key';
+export const VERIFICATION_TYPES = ['document', 'id_number'];
+export const SUPPORTED_COUNTRIES = ['SA', 'SD', 'US'];
+export const DEFAULT_KEY_RATE_LIMIT = 60;
+
+export interface ApiKeyRecord {
+  key_id: string;
+  tenant_id: string;
+  name: string | null;
+  allowed_countries: string[];
+  allowed_verification_types: string[];
+  rate_limit_per_minute: number;
+  expires_at: string | null;
+  revoked_at: string | null;
+  rotated_to: string | null;
+  created_by: string | null;
+  last_used_at: string | null;
+  created_at: string;
+}
+
+export interface ApiKeyScope {
+  tenantId: string;
+  name?: string | null;
+  allowedCountries: string[];
+  allowedVerificationTypes: string[];
+  rateLimitPerMinute: number;
+  expiresAt: string | null;
+  createdBy?: string | null;
+}
+
+export interface ApiKeyScopeRequest {
+  tenant_id?: string;
+  name?: string;
+  allowed_countries?: string[];
+  allowed_verification_types?: string[];
+  rate_limit_per_minute?: number;
+  expires_at?: string | null;
+}
+
+export type ApiKeyAuthResult =
+  | { ok: true; key: ApiKeyRecord }
+  | { ok: false; reason: string };
+
+const KEY_PATTERN = /^bsk_([0-9a-f]{16})_([A-Za-z0-9_-]{43})$/;
+const TENANT_ID_PATTERN = /^[a-z0-9][a-z0-9_-]{1,63}$/;
+const MAX_KEY_RATE_LIMIT = 6000;
+
+export function readApiKey(request: Request): string | null {
+  return request.headers.get(API_KEY_HEADER)?.trim() || null;
+}
+
+// Validates an issue request body; the returned errors are suitable for a 400 response
+export function parseApiKeyScope(body: ApiKeyScopeRequest, createdBy: string | null): { scope: ApiKeyScope | null; errors: string[] } {
+  const errors: string[] = [];
+
+  if (typeof body.tenant_id !== 'string' || !TENANT_ID_PATTERN.test(body.tenant_id)) {
+    errors.push('tenant_id must be 2-64 lowercase letters, digits, "-" or "_"');
+  }
+  if (body.name !== undefined && (typeof body.name !== 'string' || body.name.length > 128)) {
+    errors.push('name must be a string of at most 128 characters');
+  }
+  if (!Array.isArray(body.allowed_countries) || body.allowed_countries.length === 0
+    || body.allowed_countries.some(country => !SUPPORTED_COUNTRIES.includes(country))) {
+    errors.push(`allowed_countries must be a non-empty array of ${SUPPORTED_COUNTRIES.join(', ')}`);
+  }
+  if (!Array.isArray(body.allowed_verification_types) || body.allowed_verification_types.length === 0
+    || body.allowed_verification_types.some(type => !VERIFICATION_TYPES.includes(type))) {
+    errors.push(`allowed_verification_types must be a non-empty array of ${VERIFICATION_TYPES.join(', ')}`);
+  }
+  if (body.rate_limit_per_minute !== undefined && (!Number.isInteger(body.rate_limit_per_minute)
+    || body.rate_limit_per_minute < 1 || body.rate_limit_per_minute > MAX_KEY_RATE_LIMIT)) {
+    errors.push(`rate_limit_per_minute must be an integer between 1 and ${MAX_KEY_RATE_LIMIT}`);
+  }
+  if (body.expires_at != null && (typeof body.expires_at !== 'string' || !(Date.parse(body.expires_at) > Date.now()))) {
+    errors.push('expires_at must be an ISO 8601 timestamp in the future');
+  }
+
+  if (errors.length > 0) {
+    return { scope: null, errors };
+  }
+
+  return {
+    scope: {
+      tenantId: body.tenant_id!,
+      name: body.name ?? null,
+      allowedCountries: Array.from(new Set(body.allowed_countries!)),
+      allowedVerificationTypes: Array.from(new Set(body.allowed_verification_types!)),
+      rateLimitPerMinute: body.rate_limit_per_minute ?? DEFAULT_KEY_RATE_LIMIT,
+      expiresAt: body.expires_at ? new Date(body.expires_at).toISOString() : null,
+      createdBy
+    },
+    errors
+  };
+}
+
+// Country-restricted operators may only manage keys whose scope stays within their countries
+export function operatorCoversCountries(operatorCountries: string[] | null | undefined, keyCountries: string[]): boolean {
+  return !operatorCountries || keyCountries.every(country => operatorCountries.includes(country));
+}
+
+export async function issueApiKey(db: D1Database, scope: ApiKeyScope): Promise<{ key: ApiKeyRecord; token: string }> {
+  const keyId = toHex(crypto.getRandomValues(new Uint8Array(8)));
+  const secret = randomToken(32);
+
+  await db.prepare(`
+    INSERT INTO api_keys
+    (key_id, tenant_id, name, key_hash, allowed_countries, allowed_verification_types, rate_limit_per_minute, expires_at, created_by)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).bind(
+    keyId,
+    scope.tenantId,
+    scope.name ?? null,
+    await sha256Hex(secret),
+    JSON.stringify(scope.allowedCountries),
+    JSON.stringify(scope.allowedVerificationTypes),
+    scope.rateLimitPerMinute,
+    scope.expiresAt,
+    scope.createdBy ?? null
+  ).run();
+
+  const key = await findApiKey(db, keyId);
+  return { key: key!, token: `bsk_${keyId}_${secret}` };
+}
+
+export async function authenticateApiKey(db: D1Database, token: string): Promise<ApiKeyAuthResult> {
+  const match = token.match(KEY_PATTERN);
+  if (!match) {
+    return { ok: false, reason: 'Malformed API key' };
+  }
+
+  const [, keyId, secret] = match;
+  const row = await db.prepare(`SELECT * FROM api_keys WHERE key_id = ?`).bind(keyId).first();
+
+  // Hash even when the key is unknown so response timing does not reveal valid key IDs
+  const presentedHash = await sha256Hex(secret);
+  if (!row || !timingSafeEqual(presentedHash, row.key_hash)) {
+    return { ok: false, reason: 'Invalid API key' };
+  }
+
+  const key = formatApiKey(row);
+  if (key.revoked_at) {
+    return { ok: false, reason: 'API key has been revoked' };
+  }
+  if (key.expires_at && Date.parse(key.expires_at) <= Date.now()) {
+    return { ok: false, reason: 'API key has expired' };
+  }
+
+  await db.prepare(`UPDATE api_keys SET last_used_at = datetime('now') WHERE key_id = ?`).bind(keyId).run();
+
+  return { ok: true, key };
+}
+
+export async function findApiKey(db: D1Database, keyId: string): Promise<ApiKeyRecord | null> {
+  const row = await db.prepare(`SELECT * FROM api_keys WHERE key_id = ?`).bind(keyId).first();
+  return row ? formatApiKey(row) : null;
+}
+
+// Never includes key_hash; API responses and logs only ever see the public key_id
+export function formatApiKey(row: any): ApiKeyRecord {
+  return {
+    key_id: row.key_id,
+    tenant_id: row.tenant_id,
+    name: row.name,
+    allowed_countries: JSON.parse(row.allowed_countries || '[]'),
+    allowed_verification_types: JSON.parse(row.allowed_verification_types || '[]'),
+    rate_limit_per_minute: row.rate_limit_per_minute,
+    expires_at: row.expires_at,
+    revoked_at: row.revoked_at,
+    rotated_to: row.rotated_to,
+    created_by: row.created_by,
+    last_used_at: row.last_used_at,
+    created_at: row.created_at
+  };
+}
@@ -0,0 +1,58 @@
+// BrainSAIT IOD Shared - Audit Event Trail
+// OID: 1.3.6.1.4.1.61026.4.2 (Audit Events)
+
+export const AUDIT_EVENT_TYPES = [
+  'preflight_completed',
+  'context_enriched',
+  'step_transition',
+  'launch_submitted',
+  'status_changed'
+] as const;
+
+export type AuditEventType = typeof AUDIT_EVENT_TYPES[number];
+
+// Per-type required fields from AUDIT_LOGGING_PLAN.md; session_oid and timestamp apply to all
+export const AUDIT_REQUIRED_FIELDS: Record<AuditEventType, string[]> = {
+  preflight_completed: ['readiness_snapshot'],
+  context_enriched: ['country_code', 'context_hash'],
+  step_transition: ['from_step', 'to_step'],
+  launch_submitted: ['stripe_session_id', 'device_fingerprint'],
+  status_changed: ['stripe_session_id', 'status']
+};
+
+// Event fields without a dedicated audit_events column are folded into payload
+export const AUDIT_PAYLOAD_FIELDS = ['country_code', 'context_hash', 'from_step', 'to_step', 'status', 'previous_status'] as const;
+
+export interface AuditEvent {
+  session_oid: string;
+  event_type: AuditEventType;
+  timestamp: string;
+  stripe_session_id?: string;
+  country_code?: string;
+  context_hash?: string;
+  from_step?: string;
+  to_step?: string;
+  status?: string;
+  previous_status?: string;
+  device_fingerprint?: string;
+  readiness_snapshot?: Record<string, any>;
+  risk_signal?: number;
+  payload?: Record<string, any>;
+}
+
+export const AUDIT_TRAIL_LIMIT = 500;
+
+export function allocateAuditOid(oidRoot: string, epoch: number): string {
+  return `${oidRoot}.4.2.${epoch}.${Math.floor(Math.random() * 1000000)}`;
+}
+
+export function isUnderOidRoot(oid: string, oidRoot: string): boolean {
+  return /^\d+(\.\d+)*$/.test(oid) && oid.startsWith(`${oidRoot}.`);
+}
+
+// Appends to the rolling per-session buffer in KV, trimming to the newest entries
+export async function appendToAuditTrail(kv: KVNamespace, sessionOid: string, entries: Record<string, any>[]): Promise<void> {
+  const existing = await kv.get<Record<string, any>[]>(sessionOid, { type: 'json' }) || [];
+  const trail = [...existing, ...entries].slice(-AUDIT_TRAIL_LIMIT);
+  await kv.put(sessionOid, JSON.stringify(trail));
+}
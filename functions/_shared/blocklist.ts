@@ -0,0 +1,52 @@
+// BrainSAIT IOD Shared - Analyst Blocklist
+// OID: 1.3.6.1.4.1.61026.4.2.1 (Incident Blocklist)
+
+import { tenantKey } from './tenancy';
+
+// Entries are written only when an analyst marks an incident as blocked, and stay
+// until the incident is unblocked. They live in KV so session creation can check them cheaply,
+// under the incident's tenant so one tenant's analysts cannot block another tenant's subjects.
+
+export interface BlockTargets {
+  ipAddress?: string | null;
+  deviceFingerprint?: string | null;
+}
+
+export interface BlockMatch {
+  code: 'blocked_ip' | 'blocked_device';
+  incident_oid: string;
+}
+
+export async function findBlock(kv: KVNamespace, tenantId: string | null, targets: BlockTargets): Promise<BlockMatch | null> {
+  if (targets.ipAddress) {
+    const incidentOid = await kv.get(tenantKey(tenantId, `blocklist_ip_${targets.ipAddress}`));
+    if (incidentOid) {
+      return { code: 'blocked_ip', incident_oid: incidentOid };
+    }
+  }
+
+  if (targets.deviceFingerprint) {
+    const incidentOid = await kv.get(tenantKey(tenantId, `blocklist_fp_${targets.deviceFingerprint}`));
+    if (incidentOid) {
+      return { code: 'blocked_device', incident_oid: incidentOid };
+    }
+  }
+
+  return null;
+}
+
+export async function applyBlock(kv: KVNamespace, tenantId: string | null, targets: BlockTargets, incidentOid: string, blocked: boolean): Promise<void> {
+  const keys = [
+    targets.ipAddress ? tenantKey(tenantId, `blocklist_ip_${targets.ipAddress}`) : null,
+    targets.deviceFingerprint ? tenantKey(tenantId, `blocklist_fp_${targets.deviceFingerprint}`) : null
+  ].filter((key): key is string => key !== null);
+
+  for (const key of keys) {
+    if (blocked) {
+      await kv.put(key, incidentOid);
+    } else if (await kv.get(key) === incidentOid) {
+      // Only lift blocks this incident created; another incident may still hold the same target
+      await kv.delete(key);
+    }
+  }
+}
@@ -0,0 +1,148 @@
+// BrainSAIT IOD Shared - CORS Policy
+// OID: 1.3.6.1.4.1.61026.4.1.5 (Cross-Origin Policy)
+
+import type { TenantScope } from './tenancy';
+
+// The verification frontend is served from the same origin and needs no CORS at all.
+// Cross-origin callers must be allowlisted, either for every tenant or for one tenant:
+//   CORS_ALLOWED_ORIGINS = "https://console.brainsait.com,https://*.brainsait.com"
+//   KV CACHE "cors_policy" = { "origins": [...], "tenants": { "<tenant_id>": [...] } }
+export interface CorsPolicy {
+  origins: string[];
+  tenants: Record<string, string[]>;
+  maxAge: number;
+}
+
+export interface CorsEnv {
+  CACHE: KVNamespace;
+  CORS_ALLOWED_ORIGINS?: string;
+  CORS_MAX_AGE?: string;
+}
+
+export const CORS_POLICY_KV_KEY = 'cors_policy';
+
+export const CORS_ALLOWED_HEADERS = [
+  'Content-Type',
+  'Authorization',
+  'X-API-Key',
+  'Idempotency-Key',
+  'X-BrainSAIT-OID',
+  'X-Country-Context'
+];
+
+export const CORS_EXPOSED_HEADERS = [
+  'Retry-After',
+  'X-RateLimit-Limit',
+  'X-RateLimit-Remaining',
+  'Idempotent-Replayed',
+  'X-Document-ID',
+  'X-Session-OID',
+  'X-BrainSAIT-OID'
+];
+
+// Chromium caps preflight caching at two hours
+const DEFAULT_MAX_AGE_SECONDS = 7200;
+const POLICY_MEMO_TTL_MS = 5 * 60 * 1000;
+let memoizedPolicy: { policy: CorsPolicy; loadedAt: number } | null = null;
+
+export async function loadCorsPolicy(env: CorsEnv): Promise<CorsPolicy> {
+  if (memoizedPolicy && Date.now() - memoizedPolicy.loadedAt < POLICY_MEMO_TTL_MS) {
+    return memoizedPolicy.policy;
+  }
+
+  const maxAge = Number.parseInt(env.CORS_MAX_AGE || '', 10);
+  const policy: CorsPolicy = {
+    origins: splitOrigins(env.CORS_ALLOWED_ORIGINS),
+    tenants: {},
+    maxAge: Number.isFinite(maxAge) && maxAge >= 0 ? maxAge : DEFAULT_MAX_AGE_SECONDS
+  };
+
+  try {
+    const override = await env.CACHE.get<{ origins?: unknown; tenants?: unknown }>(CORS_POLICY_KV_KEY, { type: 'json' });
+    if (override) {
+      if (Array.isArray(override.origins)) {
+        policy.origins.push(...override.origins.filter(isOriginPattern));
+      }
+      if (override.tenants && typeof override.tenants === 'object') {
+        for (const [tenantId, origins] of Object.entries(override.tenants as Record<string, unknown>)) {
+          if (Array.isArray(origins)) {
+            policy.tenants[tenantId] = origins.filter(isOriginPattern);
+          }
+        }
+      }
+    }
+  } catch (error) {
+    // A malformed KV policy falls back to the env allowlist rather than opening anything up
+    console.warn('CORS policy override unavailable, using CORS_ALLOWED_ORIGINS only:', error);
+  }
+
+  memoizedPolicy = { policy, loadedAt: Date.now() };
+  return policy;
+}
+
+/**
+ * Preflights carry no credentials, so the tenant is unknown and any tenant's origin passes;
+ * the actual request is then held to its own tenant's list.
+ */
+export function isOriginAllowed(policy: CorsPolicy, origin: string, scope: TenantScope | null): boolean {
+  const patterns = scope === null
+    ? [...policy.origins, ...Object.values(policy.tenants).flat()]
+    : [...policy.origins, ...(scope.tenantId ? policy.tenants[scope.tenantId] || [] : [])];
+
+  return patterns.some(pattern => matchesOrigin(pattern, origin));
+}
+
+export function preflightResponse(request: Request, policy: CorsPolicy, methods: string[]): Response {
+  const origin = request.headers.get('Origin');
+  const headers = new Headers({ 'Vary': 'Origin' });
+
+  if (origin && isOriginAllowed(policy, origin, null)) {
+    headers.set('Access-Control-Allow-Origin', origin);
+    headers.set('Access-Control-Allow-Credentials', 'true');
+    headers.set('Access-Control-Allow-Methods', [...methods, 'OPTIONS'].join(', '));
+    headers.set('Access-Control-Allow-Headers', CORS_ALLOWED_HEADERS.join(', '));
+    headers.set('Access-Control-Max-Age', String(policy.maxAge));
+  }
+
+  return new Response(null, { status: 204, headers });
+}
+
+// Replaces whatever CORS headers a handler set with the policy's answer for this request
+export function applyCors(response: Response, request: Request, policy: CorsPolicy, scope: TenantScope | null): Response {
+  const corsResponse = new Response(response.body, response);
+  const headers = corsResponse.headers;
+
+  for (const name of ['Access-Control-Allow-Origin', 'Access-Control-Allow-Methods', 'Access-Control-Allow-Headers', 'Access-Control-Allow-Credentials']) {
+    headers.delete(name);
+  }
+  headers.append('Vary', 'Origin');
+
+  const origin = request.headers.get('Origin');
+  if (origin && isOriginAllowed(policy, origin, scope)) {
+    headers.set('Access-Control-Allow-Origin', origin);
+    headers.set('Access-Control-Allow-Credentials', 'true');
+    headers.set('Access-Control-Expose-Headers', CORS_EXPOSED_HEADERS.join(', '));
+  }
+
+  return corsResponse;
+}
+
+function splitOrigins(value?: string): string[] {
+  return (value || '').split(',').map(origin => origin.trim()).filter(isOriginPattern);
+}
+
+// Exact origins, or https://*.example.com for any subdomain; a bare "*" is never accepted
+// because credentialed responses cannot use it
+function isOriginPattern(value: unknown): value is string {
+  return typeof value === 'string' && /^https?:\/\/(\*\.)?[a-z0-9.-]+(:\d+)?$/i.test(value);
+}
+
+function matchesOrigin(pattern: string, origin: string): boolean {
+  const wildcard = pattern.match(/^(https?:\/\/)\*\.(.+)$/i);
+  if (!wildcard) {
+    return pattern.toLowerCase() === origin.toLowerCase();
+  }
+  const [, scheme, domain] = wildcard;
+  const lowerOrigin = origin.toLowerCase();
+  return lowerOrigin.startsWith(scheme.toLowerCase()) && lowerOrigin.endsWith(`.${domain.toLowerCase()}`);
+}
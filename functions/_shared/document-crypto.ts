@@ -0,0 +1,262 @@
+// BrainSAIT IOD Shared - Document Envelope Encryption
+// OID: 1.3.6.1.4.1.61026.4.7 (Document Encryption)
+
+import { decodeBase64, encodeBase64 } from './encoding';
+
+export interface DocumentKeyEnv {
+  // JSON object mapping key IDs to base64 AES-256 keys; retired keys stay until every document is re-wrapped
+  DOCUMENT_MASTER_KEYS?: string;
+  // The key new data keys are wrapped with
+  DOCUMENT_MASTER_KEY_ID?: string;
+}
+
+export interface DocumentKeyring {
+  currentKeyId: string;
+  keys: Map<string, CryptoKey>;
+}
+
+export interface DocumentEnvelope {
+  keyId: string;
+  wrappedKey: string;
+  iv: string;
+}
+
+export interface DocumentKeyRow {
+  id: number;
+  document_id: string;
+  storage_path: string;
+  encryption_key_id: string | null;
+  wrapped_key: string | null;
+  encryption_iv: string | null;
+}
+
+export const DOCUMENT_CIPHER = 'AES-256-GCM';
+
+const REWRAP_BATCH_SIZE = 50;
+// Rows that keep failing (a master key missing from the ring) must not block the rest
+const REWRAP_CURSOR_KEY = 'maintenance_cursor_document_keys';
+
+let keyringCache: { source: string; keyring: Promise<DocumentKeyring | null> } | null = null;
+
+/**
+ * Imports the master keys once per isolate. Returns null when the ring is missing, malformed
+ * or does not contain the current key ID, so callers can refuse to store plaintext.
+ */
+export function loadDocumentKeyring(env: DocumentKeyEnv): Promise<DocumentKeyring | null> {
+  const source = `${env.DOCUMENT_MASTER_KEY_ID || ''}|${env.DOCUMENT_MASTER_KEYS || ''}`;
+  if (keyringCache?.source !== source) {
+    keyringCache = { source, keyring: importKeyring(env) };
+  }
+  return keyringCache.keyring;
+}
+
+async function importKeyring(env: DocumentKeyEnv): Promise<DocumentKeyring | null> {
+  if (!env.DOCUMENT_MASTER_KEYS || !env.DOCUMENT_MASTER_KEY_ID) {
+    return null;
+  }
+
+  try {
+    const encoded = JSON.parse(env.DOCUMENT_MASTER_KEYS) as Record<string, string>;
+    const keys = new Map<string, CryptoKey>();
+    for (const [keyId, value] of Object.entries(encoded)) {
+      keys.set(keyId, await crypto.subtle.importKey('raw', decodeBase64(value), 'AES-KW', false, ['wrapKey', 'unwrapKey']));
+    }
+    return keys.has(env.DOCUMENT_MASTER_KEY_ID) ? { currentKeyId: env.DOCUMENT_MASTER_KEY_ID, keys } : null;
+  } catch (error) {
+    console.error('Document master keys could not be imported:', error);
+    return null;
+  }
+}
+
+/**
+ * Encrypts under a fresh data key wrapped with the current master key. The document ID is
+ * bound as additional data, so a ciphertext copied onto another row will not decrypt.
+ */
+export async function encryptDocument(
+  keyring: DocumentKeyring,
+  plaintext: ArrayBuffer,
+  documentId: string
+): Promise<{ ciphertext: ArrayBuffer; envelope: DocumentEnvelope }> {
+  const dataKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(documentId) },
+    dataKey,
+    plaintext
+  );
+  const wrappedKey = await crypto.subtle.wrapKey('raw', dataKey, keyring.keys.get(keyring.currentKeyId)!, 'AES-KW');
+
+  return {
+    ciphertext,
+    envelope: { keyId: keyring.currentKeyId, wrappedKey: encodeBase64(wrappedKey), iv: encodeBase64(iv) }
+  };
+}
+
+// Null when the wrapping key has left the ring or the ciphertext fails authentication
+export async function decryptDocument(
+  keyring: DocumentKeyring,
+  ciphertext: ArrayBuffer,
+  envelope: DocumentEnvelope,
+  documentId: string
+): Promise<ArrayBuffer | null> {
+  const masterKey = keyring.keys.get(envelope.keyId);
+  if (!masterKey) {
+    return null;
+  }
+
+  try {
+    const dataKey = await crypto.subtle.unwrapKey(
+      'raw', decodeBase64(envelope.wrappedKey), masterKey, 'AES-KW', { name: 'AES-GCM' }, false, ['decrypt']
+    );
+    return await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: decodeBase64(envelope.iv), additionalData: new TextEncoder().encode(documentId) },
+      dataKey,
+      ciphertext
+    );
+  } catch (error) {
+    console.error('Document decryption failed:', error);
+    return null;
+  }
+}
+
+/**
+ * A data key for content encrypted across several requests, such as the parts of a multipart
+ * upload. The caller keeps the wrapped form and unwraps it on each request.
+ */
+export async function generateDataKey(keyring: DocumentKeyring): Promise<{ dataKey: CryptoKey; keyId: string; wrappedKey: string }> {
+  const dataKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+  const wrappedKey = await crypto.subtle.wrapKey('raw', dataKey, keyring.keys.get(keyring.currentKeyId)!, 'AES-KW');
+  return { dataKey, keyId: keyring.currentKeyId, wrappedKey: encodeBase64(wrappedKey) };
+}
+
+// Null when the wrapping key has left the ring or the wrapped key is corrupt
+export async function unwrapDataKey(keyring: DocumentKeyring, keyId: string, wrappedKey: string): Promise<CryptoKey | null> {
+  const masterKey = keyring.keys.get(keyId);
+  if (!masterKey) {
+    return null;
+  }
+  try {
+    return await crypto.subtle.unwrapKey('raw', decodeBase64(wrappedKey), masterKey, 'AES-KW', { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']);
+  } catch (error) {
+    console.error('Data key could not be unwrapped:', error);
+    return null;
+  }
+}
+
+// Rotation only re-wraps the data key; the object ciphertext and IV are unchanged
+export async function rewrapDataKey(keyring: DocumentKeyring, envelope: DocumentEnvelope): Promise<DocumentEnvelope | null> {
+  const masterKey = keyring.keys.get(envelope.keyId);
+  if (!masterKey) {
+    return null;
+  }
+  const dataKey = await crypto.subtle.unwrapKey(
+    'raw', decodeBase64(envelope.wrappedKey), masterKey, 'AES-KW', { name: 'AES-GCM' }, true, ['encrypt', 'decrypt']
+  );
+  const wrappedKey = await crypto.subtle.wrapKey('raw', dataKey, keyring.keys.get(keyring.currentKeyId)!, 'AES-KW');
+  return { keyId: keyring.currentKeyId, wrappedKey: encodeBase64(wrappedKey), iv: envelope.iv };
+}
+
+export function envelopeMetadata(envelope: DocumentEnvelope): Record<string, string> {
+  return {
+    encryption: DOCUMENT_CIPHER,
+    encryptionKeyId: envelope.keyId,
+    wrappedKey: envelope.wrappedKey,
+    encryptionIv: envelope.iv
+  };
+}
+
+export function envelopeFromMetadata(metadata: Record<string, string> | undefined): DocumentEnvelope | null {
+  if (metadata?.encryption !== DOCUMENT_CIPHER || !metadata.encryptionKeyId || !metadata.wrappedKey || !metadata.encryptionIv) {
+    return null;
+  }
+  return { keyId: metadata.encryptionKeyId, wrappedKey: metadata.wrappedKey, iv: metadata.encryptionIv };
+}
+
+export function envelopeFromRow(row: Pick<DocumentKeyRow, 'encryption_key_id' | 'wrapped_key' | 'encryption_iv'>): DocumentEnvelope | null {
+  if (!row.encryption_key_id || !row.wrapped_key || !row.encryption_iv) {
+    return null;
+  }
+  return { keyId: row.encryption_key_id, wrappedKey: row.wrapped_key, iv: row.encryption_iv };
+}
+
+/**
+ * Brings live documents under the current master key: data keys wrapped with a retired key
+ * are re-wrapped, and documents stored before encryption are encrypted in place. R2 metadata
+ * cannot be edited, so each object is rewritten; the D1 row follows once R2 has the new
+ * envelope, and readers prefer the object's own metadata if the two ever disagree.
+ */
+export async function rewrapDocumentKeys(
+  env: DocumentKeyEnv & { DB: D1Database; DOCUMENTS: R2Bucket; CACHE: KVNamespace },
+  keyring: DocumentKeyring
+): Promise<{ rewrapped: number; encrypted: number; failed: number }> {
+  const result = { rewrapped: 0, encrypted: 0, failed: 0 };
+  const afterId = Number.parseInt(await env.CACHE.get(REWRAP_CURSOR_KEY) || '0', 10) || 0;
+
+  const rows = await env.DB.prepare(`
+    SELECT id, document_id, storage_path, encryption_key_id, wrapped_key, encryption_iv
+    FROM document_storage
+    WHERE id > ? AND upload_status NOT IN ('deleted', 'anonymized', 'missing', 'processing')
+      AND (encryption_key_id IS NULL OR encryption_key_id != ?)
+    ORDER BY id ASC
+    LIMIT ?
+  `).bind(afterId, keyring.currentKeyId, REWRAP_BATCH_SIZE).all<DocumentKeyRow>();
+
+  const batch = rows.results || [];
+  for (const row of batch) {
+    try {
+      const object = await env.DOCUMENTS.get(row.storage_path);
+      if (!object) {
+        // Reconciliation marks the row missing
+        continue;
+      }
+
+      const current = envelopeFromMetadata(object.customMetadata) || envelopeFromRow(row);
+      let envelope: DocumentEnvelope | null;
+      let body: ReadableStream | ArrayBuffer | null;
+      if (current) {
+        envelope = current.keyId === keyring.currentKeyId ? current : await rewrapDataKey(keyring, current);
+        body = object.body;
+      } else {
+        const encrypted = await encryptDocument(keyring, await object.arrayBuffer(), row.document_id);
+        envelope = encrypted.envelope;
+        body = encrypted.ciphertext;
+      }
+
+      if (!envelope || !body) {
+        result.failed++;
+        continue;
+      }
+
+      // An object already under the current key only needs its stale D1 row corrected
+      if (!current || current.keyId !== envelope.keyId) {
+        await env.DOCUMENTS.put(row.storage_path, body, {
+          httpMetadata: { ...object.httpMetadata, contentType: 'application/octet-stream' },
+          customMetadata: { ...object.customMetadata, ...envelopeMetadata(envelope) }
+        });
+      }
+      await env.DB.prepare(`
+        UPDATE document_storage
+        SET encryption_key_id = ?, wrapped_key = ?, encryption_iv = ?, updated_at = datetime('now')
+        WHERE id = ?
+      `).bind(envelope.keyId, envelope.wrappedKey, envelope.iv, row.id).run();
+
+      if (current) {
+        result.rewrapped++;
+      } else {
+        result.encrypted++;
+      }
+    } catch (error) {
+      console.error(`Document key rotation failed for ${row.document_id}:`, error);
+      result.failed++;
+    }
+  }
+
+  // A short batch means the end of the table; the next run starts over to retry failures
+  if (batch.length === REWRAP_BATCH_SIZE) {
+    await env.CACHE.put(REWRAP_CURSOR_KEY, String(batch[batch.length - 1].id), { expirationTtl: 7 * 24 * 60 * 60 });
+  } else {
+    await env.CACHE.delete(REWRAP_CURSOR_KEY);
+  }
+
+  return result;
+}
@@ -0,0 +1,317 @@
+// BrainSAIT IOD Shared - Document Upload Sanitization
+// OID: 1.3.6.1.4.1.61026.4.7.2 (Document Sanitization)
+
+export type DocumentMimeType = 'image/jpeg' | 'image/png' | 'image/webp' | 'application/pdf';
+
+export interface SanitizationReport {
+  declared_type: string;
+  detected_type: DocumentMimeType;
+  // Metadata blocks removed from images, e.g. jpeg:exif, png:text, webp:xmp
+  removed: string[];
+}
+
+export type SanitizationResult =
+  | { accepted: true; bytes: Uint8Array<ArrayBuffer>; status: 'clean' | 'sanitized'; report: SanitizationReport }
+  | { accepted: false; reason: string; detectedType: DocumentMimeType | null };
+
+// Active content that a viewer could run or unpack; names are compared after #xx escapes are decoded
+const PDF_FORBIDDEN_NAMES = ['/JavaScript', '/JS', '/EmbeddedFile', '/EmbeddedFiles', '/Launch', '/RichMedia'];
+
+// Combined inflated size of a PDF's object streams; a compression bomb must not exhaust the Worker's memory
+const MAX_INFLATED_PDF_BYTES = 16 * 1024 * 1024;
+
+/**
+ * The declared Content-Type is only reported; what is stored is decided by the file's magic
+ * bytes. Images are re-assembled without their metadata blocks, which drops EXIF (and its GPS
+ * IFD), XMP and text comments while leaving the pixel data untouched.
+ */
+export async function sanitizeDocument(bytes: Uint8Array<ArrayBuffer>, declaredType: string): Promise<SanitizationResult> {
+  const detectedType = sniffDocumentType(bytes);
+  if (!detectedType) {
+    return { accepted: false, reason: 'File content is not a JPEG, PNG, WebP or PDF document', detectedType: null };
+  }
+
+  if (detectedType === 'application/pdf') {
+    const problem = await inspectPdf(bytes);
+    if (problem) {
+      return { accepted: false, reason: problem, detectedType };
+    }
+    return { accepted: true, bytes, status: 'clean', report: { declared_type: declaredType, detected_type: detectedType, removed: [] } };
+  }
+
+  const stripped = detectedType === 'image/jpeg' ? stripJpeg(bytes)
+    : detectedType === 'image/png' ? stripPng(bytes)
+    : stripWebp(bytes);
+  if (!stripped) {
+    return { accepted: false, reason: 'Image structure is malformed', detectedType };
+  }
+
+  return {
+    accepted: true,
+    bytes: stripped.bytes,
+    status: stripped.removed.length > 0 ? 'sanitized' : 'clean',
+    report: { declared_type: declaredType, detected_type: detectedType, removed: stripped.removed }
+  };
+}
+
+export function sniffDocumentType(bytes: Uint8Array): DocumentMimeType | null {
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) {
+    return 'image/jpeg';
+  }
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return 'image/png';
+  }
+  if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') {
+    return 'image/webp';
+  }
+  // Readers look for the header anywhere in the first KiB; requiring it at offset 0 keeps HTML from preceding it
+  if (ascii(bytes, 0, 5) === '%PDF-') {
+    return 'application/pdf';
+  }
+  return null;
+}
+
+async function inspectPdf(bytes: Uint8Array<ArrayBuffer>): Promise<string | null> {
+  const text = latin1(bytes);
+  if (/\/Encrypt\b/.test(text)) {
+    return 'Encrypted PDFs cannot be inspected';
+  }
+
+  const forbidden = findForbiddenName(text);
+  if (forbidden) {
+    return `PDF contains ${forbidden}`;
+  }
+
+  // Dictionaries can hide inside compressed object streams, which must be inflated to be checked
+  let inflateBudget = MAX_INFLATED_PDF_BYTES;
+  for (const stream of objectStreams(bytes, text)) {
+    if (!stream.flate) {
+      return 'PDF object stream uses an unsupported filter';
+    }
+    const inflated = await inflate(stream.data, inflateBudget);
+    if (inflated === 'too_large') {
+      return 'PDF object streams decompress to more than the allowed size';
+    }
+    if (!inflated) {
+      return 'PDF object stream could not be decompressed';
+    }
+    inflateBudget -= inflated.length;
+    const hidden = findForbiddenName(latin1(inflated));
+    if (hidden) {
+      return `PDF contains ${hidden}`;
+    }
+  }
+  return null;
+}
+
+function findForbiddenName(text: string): string | null {
+  const names = text.match(/\/[^\s/<>\[\]()%{}]+/g) || [];
+  for (const raw of names) {
+    const name = raw.replace(/#([0-9a-fA-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+    if (PDF_FORBIDDEN_NAMES.includes(name)) {
+      return name;
+    }
+  }
+  return null;
+}
+
+// Matches a PDF name whether or not its characters are written as #xx escapes, keeping text offsets intact
+function pdfNamePattern(name: string): string {
+  return name.split('').map(char => {
+    const hex = char.charCodeAt(0).toString(16);
+    return `(?:${char}|#${hex[0]}[${hex[1].toLowerCase()}${hex[1].toUpperCase()}])`;
+  }).join('');
+}
+
+const OBJECT_STREAM_MARKER = `\\/${pdfNamePattern('Type')}\\s*\\/${pdfNamePattern('ObjStm')}`;
+const FLATE_FILTER = new RegExp(`\\/${pdfNamePattern('FlateDecode')}(?![^\\s/<>\\[\\]()%{}])`);
+
+function objectStreams(bytes: Uint8Array<ArrayBuffer>, text: string): Array<{ flate: boolean; data: Uint8Array<ArrayBuffer> }> {
+  const streams: Array<{ flate: boolean; data: Uint8Array<ArrayBuffer> }> = [];
+  const marker = new RegExp(OBJECT_STREAM_MARKER, 'g');
+  let match: RegExpExecArray | null;
+  while ((match = marker.exec(text))) {
+    const dictStart = text.lastIndexOf('<<', match.index);
+    const streamKeyword = text.indexOf('stream', match.index);
+    const end = text.indexOf('endstream', streamKeyword);
+    if (dictStart < 0 || streamKeyword < 0 || end < 0) {
+      continue;
+    }
+    let start = streamKeyword + 'stream'.length;
+    if (text[start] === '\r') start++;
+    if (text[start] === '\n') start++;
+    streams.push({
+      flate: FLATE_FILTER.test(text.slice(dictStart, streamKeyword)),
+      data: bytes.subarray(start, end)
+    });
+    marker.lastIndex = end;
+  }
+  return streams;
+}
+
+// Reads the output chunk by chunk and gives up as soon as it passes maxBytes
+async function inflate(data: Uint8Array<ArrayBuffer>, maxBytes: number): Promise<Uint8Array | 'too_large' | null> {
+  const reader = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate')).getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        return concat(chunks);
+      }
+      total += value.length;
+      if (total > maxBytes) {
+        await reader.cancel().catch(() => undefined);
+        return 'too_large';
+      }
+      chunks.push(value);
+    }
+  } catch {
+    return null;
+  }
+}
+
+// JPEG: copy segments up to the scan, dropping APP1 (EXIF, XMP), APP13 (IPTC) and comments
+function stripJpeg(bytes: Uint8Array<ArrayBuffer>): { bytes: Uint8Array<ArrayBuffer>; removed: string[] } | null {
+  const parts: Uint8Array[] = [bytes.subarray(0, 2)];
+  const removed = new Set<string>();
+  let offset = 2;
+
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) {
+      return null;
+    }
+    const marker = bytes[offset + 1];
+    // Fill bytes may pad any marker
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    // Start of scan: the rest is entropy-coded image data
+    if (marker === 0xda) {
+      parts.push(bytes.subarray(offset));
+      return { bytes: concat(parts), removed: [...removed] };
+    }
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    const end = offset + 2 + length;
+    if (length < 2 || end > bytes.length) {
+      return null;
+    }
+
+    if (marker === 0xe1) {
+      removed.add(ascii(bytes, offset + 4, 4) === 'Exif' ? 'jpeg:exif' : 'jpeg:xmp');
+    } else if (marker === 0xed) {
+      removed.add('jpeg:iptc');
+    } else if (marker === 0xfe) {
+      removed.add('jpeg:comment');
+    } else {
+      parts.push(bytes.subarray(offset, end));
+    }
+    offset = end;
+  }
+  return null;
+}
+
+const PNG_METADATA_CHUNKS: Record<string, string> = {
+  eXIf: 'png:exif',
+  tEXt: 'png:text',
+  iTXt: 'png:text',
+  zTXt: 'png:text',
+  tIME: 'png:time'
+};
+
+function stripPng(bytes: Uint8Array<ArrayBuffer>): { bytes: Uint8Array<ArrayBuffer>; removed: string[] } | null {
+  const parts: Uint8Array[] = [bytes.subarray(0, 8)];
+  const removed = new Set<string>();
+  let offset = 8;
+
+  while (offset + 12 <= bytes.length) {
+    const length = readUint32BE(bytes, offset);
+    const type = ascii(bytes, offset + 4, 4);
+    // Length, type, data and CRC; CRCs cover only their own chunk, so kept chunks stay valid
+    const end = offset + 12 + length;
+    if (end > bytes.length) {
+      return null;
+    }
+    if (PNG_METADATA_CHUNKS[type]) {
+      removed.add(PNG_METADATA_CHUNKS[type]);
+    } else {
+      parts.push(bytes.subarray(offset, end));
+    }
+    offset = end;
+    if (type === 'IEND') {
+      return { bytes: concat(parts), removed: [...removed] };
+    }
+  }
+  return null;
+}
+
+// WebP: drop EXIF and XMP chunks, clear their VP8X flags and rewrite the RIFF size
+function stripWebp(bytes: Uint8Array<ArrayBuffer>): { bytes: Uint8Array<ArrayBuffer>; removed: string[] } | null {
+  const parts: Uint8Array[] = [];
+  const removed = new Set<string>();
+  let vp8x: Uint8Array | null = null;
+  let offset = 12;
+
+  while (offset + 8 <= bytes.length) {
+    const type = ascii(bytes, offset, 4);
+    const size = readUint32LE(bytes, offset + 4);
+    const end = offset + 8 + size + (size % 2);
+    if (offset + 8 + size > bytes.length) {
+      return null;
+    }
+    const chunk = bytes.subarray(offset, Math.min(end, bytes.length));
+
+    if (type === 'EXIF') {
+      removed.add('webp:exif');
+    } else if (type === 'XMP ') {
+      removed.add('webp:xmp');
+    } else if (type === 'VP8X') {
+      vp8x = chunk.slice();
+      parts.push(vp8x);
+    } else {
+      parts.push(chunk);
+    }
+    offset = end;
+  }
+
+  if (vp8x && vp8x.length > 8) {
+    vp8x[8] &= ~(0x08 | 0x04);
+  }
+  const body = concat(parts);
+  const header = new Uint8Array(12);
+  header.set(bytes.subarray(0, 12));
+  new DataView(header.buffer).setUint32(4, body.length + 4, true);
+  return { bytes: concat([header, body]), removed: [...removed] };
+}
+
+function startsWith(bytes: Uint8Array, signature: number[]): boolean {
+  return bytes.length >= signature.length && signature.every((value, i) => bytes[i] === value);
+}
+
+function ascii(bytes: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + length));
+}
+
+function latin1(bytes: Uint8Array): string {
+  return new TextDecoder('latin1').decode(bytes);
+}
+
+function readUint32BE(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset] << 24) >>> 0) + (bytes[offset + 1] << 16) + (bytes[offset + 2] << 8) + bytes[offset + 3];
+}
+
+function readUint32LE(bytes: Uint8Array, offset: number): number {
+  return bytes[offset] + (bytes[offset + 1] << 8) + (bytes[offset + 2] << 16) + ((bytes[offset + 3] << 24) >>> 0);
+}
+
+function concat(parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
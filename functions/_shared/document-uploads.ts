@@ -0,0 +1,312 @@
+// BrainSAIT IOD Shared - Document Uploads
+// OID: 1.3.6.1.4.1.61026.4.7.4 (Document Uploads)
+
+import { DocumentEnvelope, DocumentKeyring, encryptDocument, envelopeMetadata } from './document-crypto';
+import { sanitizeDocument, SanitizationReport } from './document-sanitizer';
+import { recordSecurityIncident } from './incidents';
+import { quarantineKey, ScanEnv } from './malware-scan';
+import { TenantScope, tenantFilter, tenantObjectKey } from './tenancy';
+import { decodeBase64, encodeBase64, randomToken } from './encoding';
+
+export interface DocumentUploadEnv extends ScanEnv {
+  DB: D1Database;
+  DOCUMENTS: R2Bucket;
+  BRAINSAIT_OID_ROOT: string;
+}
+
+export interface IncomingDocument {
+  documentId: string;
+  bytes: Uint8Array<ArrayBuffer>;
+  declaredType: string;
+  fileName: string;
+  sessionOid: string;
+  documentType: string;
+  countryCode: string | null;
+  tenantId: string | null;
+  operatorId?: string;
+  sourceIp?: string | null;
+  userAgent?: string | null;
+}
+
+export type StoreDocumentResult =
+  | {
+      stored: true;
+      documentId: string;
+      fileType: string;
+      size: number;
+      sanitization: { status: 'clean' | 'sanitized'; report: SanitizationReport };
+      envelope: DocumentEnvelope;
+    }
+  | { stored: false; reason: string; detectedType: string | null };
+
+export interface DocumentUploadRow {
+  id: number;
+  upload_id: string;
+  document_id: string;
+  session_oid: string;
+  document_type: string;
+  country_code: string | null;
+  file_name: string;
+  declared_type: string | null;
+  file_size: number;
+  part_size: number;
+  total_parts: number;
+  staging_path: string;
+  r2_upload_id: string;
+  encryption_key_id: string;
+  wrapped_key: string;
+  tenant_id: string | null;
+  operator_id: string | null;
+  upload_status: string;
+  expires_at: string;
+  completed_at: string | null;
+  // Computed by loadUpload so expiry is judged by D1's clock
+  expired: number;
+}
+
+export interface DocumentUploadPartRow {
+  part_number: number;
+  size: number;
+  etag: string;
+  encryption_iv: string;
+}
+
+export const MAX_DIRECT_UPLOAD_SIZE = 10 * 1024 * 1024;
+// Completion reassembles the whole file in memory to sanitize it, which bounds resumable uploads
+export const MAX_RESUMABLE_UPLOAD_SIZE = 25 * 1024 * 1024;
+// R2 requires every part but the last to be the same size and at least 5 MiB
+export const UPLOAD_PART_SIZE = 5 * 1024 * 1024;
+export const UPLOAD_TTL_HOURS = 24;
+
+// AES-GCM appends a 16-byte tag to every encrypted part
+const PART_TAG_LENGTH = 16;
+const EXPIRED_UPLOAD_BATCH = 50;
+
+export function generateDocumentId(): string {
+  return `doc_${randomToken()}`;
+}
+
+export function generateUploadId(): string {
+  return `upl_${randomToken()}`;
+}
+
+/**
+ * The steps every document goes through before it has a row: content sniffing and
+ * sanitization, envelope encryption and a write to the quarantine prefix. The caller starts
+ * the malware scan once the row exists.
+ */
+export async function storeDocument(
+  env: DocumentUploadEnv,
+  keyring: DocumentKeyring,
+  document: IncomingDocument
+): Promise<StoreDocumentResult> {
+  // The declared type is not trusted: the content is sniffed, PDFs are inspected and image metadata is stripped
+  const sanitized = await sanitizeDocument(document.bytes, document.declaredType);
+  if (!sanitized.accepted) {
+    await recordSecurityIncident(env.DB, env.BRAINSAIT_OID_ROOT, {
+      type: 'document_rejected',
+      riskScore: sanitized.detectedType ? 40 : 60,
+      data: {
+        session_oid: document.sessionOid,
+        document_type: document.documentType,
+        declared_type: document.declaredType,
+        detected_type: sanitized.detectedType,
+        reason: sanitized.reason,
+        operator_id: document.operatorId
+      },
+      sourceIp: document.sourceIp,
+      userAgent: document.userAgent,
+      tenantId: document.tenantId
+    });
+    return { stored: false, reason: sanitized.reason, detectedType: sanitized.detectedType };
+  }
+  const fileType = sanitized.report.detected_type;
+
+  // Uploads wait in the quarantine prefix until the malware scan releases them
+  const storagePath = quarantineKey(tenantObjectKey(
+    document.tenantId,
+    `${document.sessionOid}/${document.documentType}/${document.documentId}`
+  ));
+
+  // Store the ciphertext in R2; the wrapped data key travels with the object
+  const { ciphertext, envelope } = await encryptDocument(keyring, sanitized.bytes.buffer, document.documentId);
+  await env.DOCUMENTS.put(storagePath, ciphertext, {
+    httpMetadata: {
+      contentType: 'application/octet-stream',
+      contentDisposition: `attachment; filename="${document.fileName}"`,
+    },
+    customMetadata: {
+      ...envelopeMetadata(envelope),
+      contentType: fileType,
+      sanitization: sanitized.status,
+      sessionOid: document.sessionOid,
+      documentType: document.documentType,
+      countryCode: document.countryCode || 'US',
+      originalName: document.fileName,
+      uploadedAt: new Date().toISOString(),
+      ...(document.tenantId && { tenantId: document.tenantId }),
+      brainsaitOid: '1.3.6.1.4.1.61026.6.6.1'
+    }
+  });
+
+  await env.DB.prepare(`
+    INSERT INTO document_storage
+    (document_id, session_oid, document_type, file_name, file_size, file_type, country_code, storage_path, tenant_id,
+     encryption_key_id, wrapped_key, encryption_iv, sanitization_status, sanitization_report, upload_status, scan_status)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'processing', 'pending')
+  `).bind(
+    document.documentId,
+    document.sessionOid,
+    document.documentType,
+    document.fileName,
+    sanitized.bytes.length,
+    fileType,
+    document.countryCode || 'US',
+    storagePath,
+    document.tenantId,
+    envelope.keyId,
+    envelope.wrappedKey,
+    envelope.iv,
+    sanitized.status,
+    JSON.stringify(sanitized.report)
+  ).run();
+
+  return {
+    stored: true,
+    documentId: document.documentId,
+    fileType,
+    size: sanitized.bytes.length,
+    sanitization: { status: sanitized.status, report: sanitized.report },
+    envelope
+  };
+}
+
+export async function loadUpload(db: D1Database, scope: TenantScope, uploadId: string): Promise<DocumentUploadRow | null> {
+  const tenant = tenantFilter(scope, 'tenant_id');
+  return db.prepare(`
+    SELECT *, expires_at <= datetime('now') AS expired FROM document_uploads
+    WHERE upload_id = ? AND ${tenant.clause}
+  `).bind(uploadId, ...tenant.params).first<DocumentUploadRow>();
+}
+
+export async function loadUploadParts(db: D1Database, uploadId: string): Promise<DocumentUploadPartRow[]> {
+  const parts = await db.prepare(`
+    SELECT part_number, size, etag, encryption_iv FROM document_upload_parts
+    WHERE upload_id = ?
+    ORDER BY part_number ASC
+  `).bind(uploadId).all<DocumentUploadPartRow>();
+  return parts.results || [];
+}
+
+// Parts are bound to their upload and position, so a part cannot be replayed into another slot
+export async function encryptUploadPart(
+  dataKey: CryptoKey,
+  plaintext: ArrayBuffer,
+  uploadId: string,
+  partNumber: number
+): Promise<{ ciphertext: ArrayBuffer; iv: string }> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: partAad(uploadId, partNumber) },
+    dataKey,
+    plaintext
+  );
+  return { ciphertext, iv: encodeBase64(iv) };
+}
+
+/**
+ * Splits the completed multipart object back into its encrypted parts and decrypts them in
+ * order. Null when the object does not match the recorded parts or a part fails
+ * authentication.
+ */
+export async function assembleUploadParts(
+  dataKey: CryptoKey,
+  staged: ArrayBuffer,
+  upload: Pick<DocumentUploadRow, 'upload_id' | 'file_size'>,
+  parts: DocumentUploadPartRow[]
+): Promise<Uint8Array<ArrayBuffer> | null> {
+  const expectedLength = parts.reduce((total, part) => total + part.size + PART_TAG_LENGTH, 0);
+  if (staged.byteLength !== expectedLength) {
+    return null;
+  }
+
+  const plaintext = new Uint8Array(upload.file_size);
+  let readOffset = 0;
+  let writeOffset = 0;
+  for (const part of parts) {
+    const length = part.size + PART_TAG_LENGTH;
+    try {
+      const decrypted = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: decodeBase64(part.encryption_iv), additionalData: partAad(upload.upload_id, part.part_number) },
+        dataKey,
+        staged.slice(readOffset, readOffset + length)
+      );
+      plaintext.set(new Uint8Array(decrypted), writeOffset);
+    } catch (error) {
+      console.error(`Upload part ${part.part_number} of ${upload.upload_id} failed authentication:`, error);
+      return null;
+    }
+    readOffset += length;
+    writeOffset += part.size;
+  }
+  return writeOffset === upload.file_size ? plaintext : null;
+}
+
+// Every part but the last carries exactly part_size bytes
+export function expectedPartSize(upload: Pick<DocumentUploadRow, 'file_size' | 'part_size' | 'total_parts'>, partNumber: number): number {
+  return partNumber < upload.total_parts
+    ? upload.part_size
+    : upload.file_size - (upload.total_parts - 1) * upload.part_size;
+}
+
+/**
+ * Aborts multipart uploads that were neither completed nor aborted before they expired, and
+ * drops their part records. R2 would discard the parts on its own after a week; aborting
+ * frees them now and closes the upload for clients still trying to resume it.
+ */
+export async function abortExpiredUploads(env: { DB: D1Database; DOCUMENTS: R2Bucket }): Promise<{ expired: number; failed: number }> {
+  const result = { expired: 0, failed: 0 };
+  const uploads = await env.DB.prepare(`
+    SELECT upload_id, staging_path, r2_upload_id FROM document_uploads
+    WHERE upload_status IN ('uploading', 'completing') AND expires_at < datetime('now')
+    ORDER BY expires_at ASC
+    LIMIT ?
+  `).bind(EXPIRED_UPLOAD_BATCH).all<Pick<DocumentUploadRow, 'upload_id' | 'staging_path' | 'r2_upload_id'>>();
+
+  for (const upload of uploads.results || []) {
+    try {
+      await releaseUpload(env, upload);
+      await env.DB.prepare(`
+        UPDATE document_uploads SET upload_status = 'expired', updated_at = datetime('now')
+        WHERE upload_id = ? AND upload_status IN ('uploading', 'completing')
+      `).bind(upload.upload_id).run();
+      result.expired++;
+    } catch (error) {
+      console.error(`Expired upload ${upload.upload_id} could not be aborted:`, error);
+      result.failed++;
+    }
+  }
+  return result;
+}
+
+/**
+ * Discards everything an upload left in R2 and its part records. Aborting a multipart upload
+ * that was already completed succeeds without touching the joined object, so the staging
+ * path is deleted as well.
+ */
+export async function releaseUpload(
+  env: { DB: D1Database; DOCUMENTS: R2Bucket },
+  upload: Pick<DocumentUploadRow, 'upload_id' | 'staging_path' | 'r2_upload_id'>
+): Promise<void> {
+  try {
+    await env.DOCUMENTS.resumeMultipartUpload(upload.staging_path, upload.r2_upload_id).abort();
+  } catch {
+    // Unknown to R2, e.g. already cleaned up by its own expiry
+  }
+  await env.DOCUMENTS.delete(upload.staging_path);
+  await env.DB.prepare('DELETE FROM document_upload_parts WHERE upload_id = ?').bind(upload.upload_id).run();
+}
+
+function partAad(uploadId: string, partNumber: number): Uint8Array<ArrayBuffer> {
+  return new TextEncoder().encode(`${uploadId}:${partNumber}`);
+}
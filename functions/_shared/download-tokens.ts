@@ -0,0 +1,85 @@
+// BrainSAIT IOD Shared - Document Download Tokens
+// OID: 1.3.6.1.4.1.61026.4.7.1 (Document Download Tokens)
+
+import { fromBase64Url, toBase64Url } from './encoding';
+
+export interface DownloadTokenEnv {
+  DOCUMENT_DOWNLOAD_SECRET?: string;
+}
+
+export const DEFAULT_DOWNLOAD_TOKEN_TTL_SECONDS = 300;
+export const MIN_DOWNLOAD_TOKEN_TTL_SECONDS = 30;
+export const MAX_DOWNLOAD_TOKEN_TTL_SECONDS = 900;
+
+interface DownloadTokenClaims {
+  doc: string;
+  op: string;
+  exp: number;
+}
+
+export type DownloadTokenCheck = { valid: true } | { valid: false; reason: string };
+
+const hmacKeyCache = new Map<string, Promise<CryptoKey>>();
+
+// Tokens are <claims>.<signature>, both base64url; the claims are readable but only the server can sign them
+export async function signDownloadToken(
+  secret: string,
+  documentId: string,
+  operatorId: string,
+  expiresAt: number
+): Promise<string> {
+  const claims: DownloadTokenClaims = { doc: documentId, op: operatorId, exp: Math.floor(expiresAt / 1000) };
+  const encodedClaims = toBase64Url(new TextEncoder().encode(JSON.stringify(claims)));
+  const signature = await crypto.subtle.sign('HMAC', await hmacKey(secret), new TextEncoder().encode(encodedClaims));
+  return `${encodedClaims}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * A token only opens the document it was issued for, for the operator it was issued to, and
+ * only until it expires. The signature is checked with crypto.subtle.verify, which compares
+ * in constant time.
+ */
+export async function verifyDownloadToken(
+  secret: string,
+  token: string,
+  documentId: string,
+  operatorId: string | null | undefined
+): Promise<DownloadTokenCheck> {
+  const [encodedClaims, encodedSignature, extra] = token.split('.');
+  if (!encodedClaims || !encodedSignature || extra !== undefined) {
+    return { valid: false, reason: 'Malformed download token' };
+  }
+
+  let signature: Uint8Array<ArrayBuffer>;
+  let claims: DownloadTokenClaims;
+  try {
+    signature = fromBase64Url(encodedSignature);
+    claims = JSON.parse(new TextDecoder().decode(fromBase64Url(encodedClaims)));
+  } catch {
+    return { valid: false, reason: 'Malformed download token' };
+  }
+
+  const signed = await crypto.subtle.verify('HMAC', await hmacKey(secret), signature, new TextEncoder().encode(encodedClaims));
+  if (!signed) {
+    return { valid: false, reason: 'Invalid download token signature' };
+  }
+  if (typeof claims.exp !== 'number' || claims.exp * 1000 <= Date.now()) {
+    return { valid: false, reason: 'Download token expired' };
+  }
+  if (claims.doc !== documentId) {
+    return { valid: false, reason: 'Download token was issued for another document' };
+  }
+  if (!operatorId || claims.op !== operatorId) {
+    return { valid: false, reason: 'Download token was issued to another operator' };
+  }
+  return { valid: true };
+}
+
+function hmacKey(secret: string): Promise<CryptoKey> {
+  if (!hmacKeyCache.has(secret)) {
+    hmacKeyCache.set(secret, crypto.subtle.importKey(
+      'raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']
+    ));
+  }
+  return hmacKeyCache.get(secret)!;
+}
@@ -0,0 +1,43 @@
+// BrainSAIT IOD Shared - Encoding and Digest Helpers
+// OID: 1.3.6.1.4.1.61026.4 (Security Infrastructure)
+
+// Compares secrets without exiting early, so response timing does not reveal how much matched
+export function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+
+  let mismatch = 0;
+  for (let i = 0; i < a.length; i++) {
+    mismatch |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return mismatch === 0;
+}
+
+export function toHex(bytes: ArrayBuffer | Uint8Array): string {
+  return Array.from(new Uint8Array(bytes)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export async function sha256Hex(value: string): Promise<string> {
+  return toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value)));
+}
+
+export function encodeBase64(value: ArrayBuffer | Uint8Array): string {
+  return btoa(String.fromCharCode(...new Uint8Array(value)));
+}
+
+export function decodeBase64(value: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(value), char => char.charCodeAt(0));
+}
+
+export function toBase64Url(bytes: ArrayBuffer | Uint8Array): string {
+  return encodeBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function fromBase64Url(value: string): Uint8Array<ArrayBuffer> {
+  return decodeBase64(value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '='));
+}
+
+export function randomToken(byteLength = 18): string {
+  return toBase64Url(crypto.getRandomValues(new Uint8Array(byteLength)));
+}
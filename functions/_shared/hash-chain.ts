@@ -0,0 +1,371 @@
+// BrainSAIT IOD Shared - Tamper-Evident Record Chains
+// OID: 1.3.6.1.4.1.61026.4.2.2 (Audit Integrity)
+
+import { sha256Hex } from './encoding';
+
+// Every chained row stores its position (chain_seq), the previous row's hash and its own
+// hash over the immutable columns below. Editing a row breaks its record_hash, deleting one
+// leaves a sequence gap, and truncating the tail is caught by the R2 checkpoints.
+
+export const GENESIS_HASH = '0'.repeat(64);
+
+const CHECKPOINT_PREFIX = 'audit/checkpoints';
+const MAX_APPEND_ATTEMPTS = 8;
+const APPEND_RETRY_DELAY_MS = 20;
+const MAX_APPEND_RETRY_DELAY_MS = 500;
+const VERIFY_PAGE_SIZE = 500;
+
+type ChainTable = 'security_incidents' | 'audit_events';
+
+// Incidents chained before migration 0016 were hashed without tenant_id and created_at
+export const INCIDENT_CHAIN_VERSION = 2;
+const LEGACY_INCIDENT_COLUMNS = ['incident_oid', 'user_id', 'incident_type', 'risk_score', 'incident_data', 'source_ip', 'user_agent'];
+
+// Triage columns (resolved, blocked, analyst_notes) change by design and are not chained
+const CHAINED_COLUMNS: Record<ChainTable, string[]> = {
+  security_incidents: [...LEGACY_INCIDENT_COLUMNS, 'tenant_id', 'created_at', 'chain_version'],
+  audit_events: [
+    'id',
+    'session_oid',
+    'stripe_session_id',
+    'operator_id',
+    'event_type',
+    'payload',
+    'device_fingerprint',
+    'readiness_snapshot',
+    'risk_signal',
+    'created_at'
+  ]
+};
+
+export interface ChainStream {
+  key: string;
+  table: ChainTable;
+  idColumn: string;
+  scopeColumn?: string;
+  scopeValue?: string;
+}
+
+export interface ChainLink {
+  chain_seq: number;
+  prev_hash: string;
+  record_hash: string;
+}
+
+export interface ChainBreak {
+  chain_seq: number;
+  record_id: string | null;
+  reason: 'sequence_gap' | 'prev_hash_mismatch' | 'record_hash_mismatch' | 'checkpoint_mismatch' | 'checkpoint_record_missing';
+  expected: string | number;
+  actual: string | number | null;
+}
+
+export interface ChainVerification {
+  stream: string;
+  verified: boolean;
+  records_checked: number;
+  last_chain_seq: number | null;
+  next_from_seq: number | null;
+  checkpoints_checked: number;
+  first_break: ChainBreak | null;
+}
+
+export interface ChainCheckpoint {
+  stream: string;
+  chain_seq: number;
+  record_hash: string;
+  digest: string;
+  created_at: string;
+}
+
+export const INCIDENT_STREAM: ChainStream = {
+  key: 'security_incidents',
+  table: 'security_incidents',
+  idColumn: 'incident_oid'
+};
+
+export function auditEventStream(sessionOid: string): ChainStream {
+  return {
+    key: `audit_events/${sessionOid}`,
+    table: 'audit_events',
+    idColumn: 'id',
+    scopeColumn: 'session_oid',
+    scopeValue: sessionOid
+  };
+}
+
+export async function computeRecordHash(table: ChainTable, prevHash: string, row: Record<string, any>): Promise<string> {
+  const columns = table === 'security_incidents' && !row.chain_version ? LEGACY_INCIDENT_COLUMNS : CHAINED_COLUMNS[table];
+  const fields: Record<string, unknown> = {};
+  for (const column of columns) {
+    fields[column] = row[column] ?? null;
+  }
+  return sha256Hex(`${prevHash}|${JSON.stringify(fields)}`);
+}
+
+/**
+ * Links a new row onto the stream's tail. Concurrent writers race for the same chain_seq;
+ * the unique index rejects the loser, which backs off with jitter, re-reads the tail and tries
+ * again. A writer that keeps losing gets the error rather than writing an unchained row.
+ */
+export async function appendToChain(
+  db: D1Database,
+  stream: ChainStream,
+  row: Record<string, any>,
+  insert: (link: ChainLink) => Promise<unknown>
+): Promise<ChainLink> {
+  for (let attempt = 1; ; attempt++) {
+    const tail = await readChainTail(db, stream);
+    const prevHash = tail?.record_hash ?? GENESIS_HASH;
+    const link: ChainLink = {
+      chain_seq: (tail?.chain_seq ?? 0) + 1,
+      prev_hash: prevHash,
+      record_hash: await computeRecordHash(stream.table, prevHash, row)
+    };
+
+    try {
+      await insert(link);
+      return link;
+    } catch (error) {
+      if (!isChainConflict(error) || attempt >= MAX_APPEND_ATTEMPTS) {
+        throw error;
+      }
+    }
+
+    const delay = Math.min(APPEND_RETRY_DELAY_MS * 2 ** (attempt - 1), MAX_APPEND_RETRY_DELAY_MS);
+    await new Promise(resolve => setTimeout(resolve, delay / 2 + Math.random() * delay / 2));
+  }
+}
+
+// True for the unique-index rejection a writer gets when another one took its chain_seq first
+function isChainConflict(error: unknown): boolean {
+  return error instanceof Error && error.message.includes('UNIQUE constraint failed') && error.message.includes('chain_seq');
+}
+
+export async function readChainTail(db: D1Database, stream: ChainStream): Promise<{ chain_seq: number; record_hash: string } | null> {
+  const { clause, params } = scopeClause(stream);
+  return db.prepare(`
+    SELECT chain_seq, record_hash FROM ${stream.table}
+    WHERE chain_seq IS NOT NULL ${clause}
+    ORDER BY chain_seq DESC
+    LIMIT 1
+  `).bind(...params).first();
+}
+
+/**
+ * Walks the chain from fromSeq, stopping at the first break or after maxRecords rows.
+ * Checkpoints in R2 are compared against the rows at their recorded positions.
+ */
+export async function verifyChain(
+  db: D1Database,
+  bucket: R2Bucket,
+  stream: ChainStream,
+  options: { fromSeq?: number; maxRecords: number }
+): Promise<ChainVerification> {
+  const fromSeq = Math.max(options.fromSeq ?? 1, 1);
+  const { clause, params } = scopeClause(stream);
+
+  // Resuming mid-chain trusts the preceding row's hash as the starting point
+  let expectedPrevHash = GENESIS_HASH;
+  if (fromSeq > 1) {
+    const previous = await db.prepare(`
+      SELECT record_hash FROM ${stream.table} WHERE chain_seq = ? ${clause}
+    `).bind(fromSeq - 1, ...params).first();
+    expectedPrevHash = previous?.record_hash ?? GENESIS_HASH;
+  }
+
+  const result: ChainVerification = {
+    stream: stream.key,
+    verified: true,
+    records_checked: 0,
+    last_chain_seq: null,
+    next_from_seq: null,
+    checkpoints_checked: 0,
+    first_break: null
+  };
+
+  let expectedSeq = fromSeq;
+  const checkedHashes = new Map<number, string>();
+
+  while (result.records_checked < options.maxRecords) {
+    const pageSize = Math.min(VERIFY_PAGE_SIZE, options.maxRecords - result.records_checked);
+    const page = await db.prepare(`
+      SELECT * FROM ${stream.table}
+      WHERE chain_seq >= ? ${clause}
+      ORDER BY chain_seq ASC
+      LIMIT ?
+    `).bind(expectedSeq, ...params, pageSize).all();
+
+    const rows = page.results || [];
+    for (const row of rows) {
+      const recordId = row[stream.idColumn] ?? null;
+
+      if (row.chain_seq !== expectedSeq) {
+        return fail(result, { chain_seq: expectedSeq, record_id: recordId, reason: 'sequence_gap', expected: expectedSeq, actual: row.chain_seq });
+      }
+      if (row.prev_hash !== expectedPrevHash) {
+        return fail(result, { chain_seq: row.chain_seq, record_id: recordId, reason: 'prev_hash_mismatch', expected: expectedPrevHash, actual: row.prev_hash });
+      }
+
+      const recomputed = await computeRecordHash(stream.table, row.prev_hash, row);
+      if (row.record_hash !== recomputed) {
+        return fail(result, { chain_seq: row.chain_seq, record_id: recordId, reason: 'record_hash_mismatch', expected: recomputed, actual: row.record_hash });
+      }
+
+      checkedHashes.set(row.chain_seq, row.record_hash);
+      expectedPrevHash = row.record_hash;
+      expectedSeq += 1;
+      result.records_checked += 1;
+      result.last_chain_seq = row.chain_seq;
+    }
+
+    if (rows.length < pageSize) {
+      break;
+    }
+  }
+
+  const reachedTail = result.records_checked < options.maxRecords || (await readChainTail(db, stream))?.chain_seq === result.last_chain_seq;
+  if (!reachedTail) {
+    result.next_from_seq = expectedSeq;
+  }
+
+  // Past the tail, every checkpoint is checked: each one there means rows were removed
+  for (const checkpoint of await listCheckpoints(bucket, stream, fromSeq, reachedTail ? null : expectedSeq)) {
+    result.checkpoints_checked += 1;
+    const rowHash = checkedHashes.get(checkpoint.chain_seq);
+    if (rowHash === undefined) {
+      // The checkpoint proves the chain once reached this far; the rows have since been removed
+      return fail(result, { chain_seq: checkpoint.chain_seq, record_id: null, reason: 'checkpoint_record_missing', expected: checkpoint.record_hash, actual: null });
+    }
+    if (rowHash !== checkpoint.record_hash) {
+      return fail(result, { chain_seq: checkpoint.chain_seq, record_id: null, reason: 'checkpoint_mismatch', expected: checkpoint.record_hash, actual: rowHash });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Writes a checkpoint for the stream's current tail unless the newest checkpoint already covers it.
+ */
+export async function writeCheckpoint(db: D1Database, bucket: R2Bucket, stream: ChainStream): Promise<ChainCheckpoint | null> {
+  const tail = await readChainTail(db, stream);
+  if (!tail) {
+    return null;
+  }
+
+  const key = checkpointKey(stream, tail.chain_seq);
+  if (await bucket.head(key)) {
+    return null;
+  }
+
+  const createdAt = new Date().toISOString();
+  const checkpoint: ChainCheckpoint = {
+    stream: stream.key,
+    chain_seq: tail.chain_seq,
+    record_hash: tail.record_hash,
+    digest: await sha256Hex(`${stream.key}|${tail.chain_seq}|${tail.record_hash}|${createdAt}`),
+    created_at: createdAt
+  };
+
+  await bucket.put(key, JSON.stringify(checkpoint), {
+    httpMetadata: { contentType: 'application/json' },
+    customMetadata: { stream: stream.key, chain_seq: String(tail.chain_seq) }
+  });
+
+  return checkpoint;
+}
+
+const CHECKPOINT_LAST_RUN_KEY = 'audit_checkpoint_last_run';
+const MAX_CHECKPOINT_SESSIONS_PER_RUN = 500;
+
+export interface CheckpointRun {
+  checkpoints: ChainCheckpoint[];
+  sessions_scanned: number;
+  has_more: boolean;
+}
+
+/**
+ * Checkpoints the incident chain and every audit session that received events since the
+ * previous run. Shared by the checkpoint endpoint and the scheduled maintenance worker.
+ */
+export async function checkpointRecentChains(db: D1Database, bucket: R2Bucket, kv: KVNamespace): Promise<CheckpointRun> {
+  const runStartedAt = new Date().toISOString();
+  const lastRun = await kv.get(CHECKPOINT_LAST_RUN_KEY) || '1970-01-01T00:00:00.000Z';
+
+  const checkpoints: ChainCheckpoint[] = [];
+  const incidentCheckpoint = await writeCheckpoint(db, bucket, INCIDENT_STREAM);
+  if (incidentCheckpoint) {
+    checkpoints.push(incidentCheckpoint);
+  }
+
+  const sessions = await db.prepare(`
+    SELECT session_oid, MAX(received_at) as last_received_at
+    FROM audit_events
+    WHERE received_at >= ? AND chain_seq IS NOT NULL
+    GROUP BY session_oid
+    ORDER BY last_received_at ASC
+    LIMIT ?
+  `).bind(lastRun, MAX_CHECKPOINT_SESSIONS_PER_RUN).all();
+
+  const sessionRows = sessions.results || [];
+  for (const session of sessionRows) {
+    const checkpoint = await writeCheckpoint(db, bucket, auditEventStream(session.session_oid));
+    if (checkpoint) {
+      checkpoints.push(checkpoint);
+    }
+  }
+
+  // A capped run resumes from the last session it covered instead of skipping the rest
+  const hasMore = sessionRows.length === MAX_CHECKPOINT_SESSIONS_PER_RUN;
+  await kv.put(CHECKPOINT_LAST_RUN_KEY, hasMore ? sessionRows[sessionRows.length - 1].last_received_at : runStartedAt);
+
+  return { checkpoints, sessions_scanned: sessionRows.length, has_more: hasMore };
+}
+
+/**
+ * Reads the checkpoints from fromSeq up to (not including) untilSeq. Keys sort by chain_seq,
+ * so the listing starts at fromSeq and stops at untilSeq instead of fetching the whole history.
+ */
+async function listCheckpoints(bucket: R2Bucket, stream: ChainStream, fromSeq: number, untilSeq: number | null): Promise<ChainCheckpoint[]> {
+  const checkpoints: ChainCheckpoint[] = [];
+  const prefix = checkpointPrefix(stream);
+  let cursor: string | undefined;
+
+  do {
+    const listing = await bucket.list(cursor
+      ? { prefix, cursor }
+      : { prefix, startAfter: fromSeq > 1 ? checkpointKey(stream, fromSeq - 1) : undefined });
+    for (const object of listing.objects) {
+      const chainSeq = Number(object.key.slice(prefix.length).replace(/\.json$/, ''));
+      if (untilSeq !== null && chainSeq >= untilSeq) {
+        return checkpoints;
+      }
+      const body = await bucket.get(object.key);
+      if (body) {
+        checkpoints.push(await body.json<ChainCheckpoint>());
+      }
+    }
+    cursor = listing.truncated ? listing.cursor : undefined;
+  } while (cursor);
+
+  return checkpoints;
+}
+
+function checkpointPrefix(stream: ChainStream): string {
+  return `${CHECKPOINT_PREFIX}/${stream.key}/`;
+}
+
+function checkpointKey(stream: ChainStream, chainSeq: number): string {
+  return `${checkpointPrefix(stream)}${String(chainSeq).padStart(12, '0')}.json`;
+}
+
+function scopeClause(stream: ChainStream): { clause: string; params: unknown[] } {
+  return stream.scopeColumn
+    ? { clause: `AND ${stream.scopeColumn} = ?`, params: [stream.scopeValue] }
+    : { clause: '', params: [] };
+}
+
+function fail(result: ChainVerification, chainBreak: ChainBreak): ChainVerification {
+  return { ...result, verified: false, next_from_seq: null, first_break: chainBreak };
+}
@@ -0,0 +1,129 @@
+// BrainSAIT IOD Shared - Idempotent Requests
+// OID: 1.3.6.1.4.1.61026.4.1.6 (Idempotency)
+
+import { tenantKey } from './tenancy';
+import { sha256Hex } from './encoding';
+
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+export const IDEMPOTENT_REPLAY_HEADER = 'Idempotent-Replayed';
+
+const IDEMPOTENCY_TTL_SECONDS = 24 * 60 * 60;
+// A claim older than this belongs to an invocation that died before it could finish or release
+const PROCESSING_LEASE_MS = 60 * 1000;
+
+interface IdempotencyRecord {
+  request_hash: string;
+  state: 'processing' | 'released' | 'completed';
+  // Reused on retry so the session OID, and with it the parameters sent to Stripe, match the first attempt
+  timestamp: number;
+  updated_at: number;
+  response?: {
+    status: number;
+    body: string;
+  };
+}
+
+export interface ClaimedIdempotencyKey {
+  storageKey: string;
+  requestHash: string;
+  timestamp: number;
+  stripeKey: string;
+}
+
+export type IdempotencyClaim =
+  | ({ outcome: 'claimed' } & ClaimedIdempotencyKey)
+  | { outcome: 'replay'; response: Response }
+  | { outcome: 'conflict'; reason: string };
+
+// Keys are client-generated (a UUID is typical); anything outside printable ASCII is refused
+export function readIdempotencyKey(request: Request): { key: string | null; error?: string } {
+  const value = request.headers.get(IDEMPOTENCY_HEADER);
+  if (value === null) {
+    return { key: null };
+  }
+  const key = value.trim();
+  if (!/^[\x21-\x7e]{1,255}$/.test(key)) {
+    return { key: null, error: `${IDEMPOTENCY_HEADER} must be 1-255 printable ASCII characters` };
+  }
+  return { key };
+}
+
+/**
+ * Claims the key for this request, or answers it from the stored result. KV is eventually
+ * consistent, so two simultaneous first attempts in different colos can both claim; the key
+ * is also forwarded to Stripe, which collapses them into one verification session.
+ */
+export async function claimIdempotencyKey(
+  kv: KVNamespace,
+  tenantId: string | null,
+  key: string,
+  rawBody: string
+): Promise<IdempotencyClaim> {
+  const storageKey = tenantKey(tenantId, `idempotency:create_session:${await sha256Hex(key)}`);
+  const requestHash = await sha256Hex(rawBody);
+  const existing = await kv.get<IdempotencyRecord>(storageKey, { type: 'json' });
+
+  if (existing) {
+    if (existing.request_hash !== requestHash) {
+      return { outcome: 'conflict', reason: 'Idempotency key was already used with a different request body' };
+    }
+    if (existing.state === 'completed' && existing.response) {
+      return {
+        outcome: 'replay',
+        response: new Response(existing.response.body, {
+          status: existing.response.status,
+          headers: { 'Content-Type': 'application/json', [IDEMPOTENT_REPLAY_HEADER]: 'true' }
+        })
+      };
+    }
+    if (existing.state === 'processing' && Date.now() - existing.updated_at < PROCESSING_LEASE_MS) {
+      return { outcome: 'conflict', reason: 'A request with this idempotency key is still being processed' };
+    }
+  }
+
+  const record: IdempotencyRecord = {
+    request_hash: requestHash,
+    state: 'processing',
+    timestamp: existing?.timestamp ?? Date.now(),
+    updated_at: Date.now()
+  };
+  await kv.put(storageKey, JSON.stringify(record), { expirationTtl: IDEMPOTENCY_TTL_SECONDS });
+
+  // Stripe keys are per account and shared by every tenant, so the caller's key is namespaced first
+  const stripeKey = `brainsait_${await sha256Hex(`${tenantId ?? ''}|${key}`)}`;
+
+  return { outcome: 'claimed', storageKey, requestHash, timestamp: record.timestamp, stripeKey };
+}
+
+/**
+ * Only successful responses are stored; failures release the key so the client can retry it.
+ * Fields named in secretFields (bearer tokens and the like) are left out of the stored body,
+ * and the caller has to re-issue them when it answers a replay.
+ */
+export async function settleIdempotencyKey(
+  kv: KVNamespace,
+  claim: ClaimedIdempotencyKey,
+  response: Response,
+  secretFields: string[] = []
+): Promise<void> {
+  const record: IdempotencyRecord = {
+    request_hash: claim.requestHash,
+    state: response.ok ? 'completed' : 'released',
+    timestamp: claim.timestamp,
+    updated_at: Date.now(),
+    ...(response.ok && { response: { status: response.status, body: await storedBody(response, secretFields) } })
+  };
+  await kv.put(claim.storageKey, JSON.stringify(record), { expirationTtl: IDEMPOTENCY_TTL_SECONDS });
+}
+
+async function storedBody(response: Response, secretFields: string[]): Promise<string> {
+  const body = await response.clone().text();
+  if (secretFields.length === 0) {
+    return body;
+  }
+  const parsed = JSON.parse(body) as Record<string, unknown>;
+  for (const field of secretFields) {
+    delete parsed[field];
+  }
+  return JSON.stringify(parsed);
+}
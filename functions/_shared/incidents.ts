@@ -0,0 +1,94 @@
+// BrainSAIT IOD Shared - Security Incident Persistence
+// OID: 1.3.6.1.4.1.61026.4.2 (Security Incidents)
+
+import { appendToChain, INCIDENT_CHAIN_VERSION, INCIDENT_STREAM } from './hash-chain';
+
+export interface SecurityIncidentInput {
+  type: string;
+  userId?: number | null;
+  riskScore?: number | null;
+  data: Record<string, any>;
+  sourceIp?: string | null;
+  userAgent?: string | null;
+  blocked?: boolean;
+  tenantId?: string | null;
+}
+
+export function allocateIncidentOid(oidRoot: string): string {
+  return `${oidRoot}.4.2.${Date.now()}.${Math.floor(Math.random() * 1000000)}`;
+}
+
+export async function recordSecurityIncident(db: D1Database, oidRoot: string, incident: SecurityIncidentInput): Promise<string> {
+  const row = {
+    incident_oid: allocateIncidentOid(oidRoot),
+    user_id: incident.userId ?? null,
+    incident_type: incident.type,
+    risk_score: incident.riskScore ?? null,
+    incident_data: JSON.stringify(incident.data),
+    source_ip: incident.sourceIp ?? null,
+    user_agent: incident.userAgent ?? null,
+    tenant_id: incident.tenantId ?? null,
+    // Set here rather than by the column default so the chained hash covers the stored value
+    created_at: new Date().toISOString().replace('T', ' ').slice(0, 19),
+    chain_version: INCIDENT_CHAIN_VERSION
+  };
+
+  // Never stored unchained: if the chain stays contended the insert fails and the caller answers 5xx
+  await appendToChain(db, INCIDENT_STREAM, row, link => db.prepare(`
+    INSERT INTO security_incidents
+    (incident_oid, user_id, incident_type, risk_score, incident_data, source_ip, user_agent, blocked, tenant_id, created_at,
+     chain_version, chain_seq, prev_hash, record_hash)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).bind(
+    row.incident_oid,
+    row.user_id,
+    row.incident_type,
+    row.risk_score,
+    row.incident_data,
+    row.source_ip,
+    row.user_agent,
+    incident.blocked ? 1 : 0,
+    row.tenant_id,
+    row.created_at,
+    row.chain_version,
+    link.chain_seq,
+    link.prev_hash,
+    link.record_hash
+  ).run());
+
+  return row.incident_oid;
+}
+
+// Shapes a security_incidents row (optionally joined with users.oid) for API responses
+export function formatIncident(row: any) {
+  return {
+    incident_oid: row.incident_oid,
+    incident_type: row.incident_type,
+    risk_score: row.risk_score,
+    user_oid: row.user_oid ?? null,
+    tenant_id: row.tenant_id ?? null,
+    incident_data: row.incident_data ? JSON.parse(row.incident_data) : null,
+    source_ip: row.source_ip,
+    user_agent: row.user_agent,
+    blocked: !!row.blocked,
+    resolved: !!row.resolved,
+    analyst_notes: row.analyst_notes ? JSON.parse(row.analyst_notes) : [],
+    created_at: row.created_at,
+    resolved_at: row.resolved_at,
+    chain_seq: row.chain_seq ?? null,
+    record_hash: row.record_hash ?? null
+  };
+}
+
+export function encodeCursor(id: number): string {
+  return btoa(JSON.stringify({ id }));
+}
+
+export function decodeCursor(cursor: string): number | null {
+  try {
+    const { id } = JSON.parse(atob(cursor));
+    return Number.isInteger(id) ? id : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,247 @@
+// BrainSAIT IOD Shared - Scheduled Maintenance
+// OID: 1.3.6.1.4.1.61026.4.6 (Data Lifecycle)
+
+import { DocumentKeyEnv, loadDocumentKeyring, rewrapDocumentKeys } from './document-crypto';
+import { abortExpiredUploads } from './document-uploads';
+import { checkpointRecentChains } from './hash-chain';
+import { ScanEnv, ScanOutcome, scanPendingDocuments } from './malware-scan';
+import { RetentionReport, runRetention } from './retention';
+import { markSessionExpired } from './session-limits';
+import { tenantKey } from './tenancy';
+
+export interface MaintenanceEnv extends DocumentKeyEnv, ScanEnv {
+  DB: D1Database;
+  SESSIONS: KVNamespace;
+  CACHE: KVNamespace;
+  NEURAL_CONTEXT: KVNamespace;
+  DOCUMENTS: R2Bucket;
+  NEURAL_DATA: R2Bucket;
+}
+
+export interface MaintenanceReport {
+  started_at: string;
+  finished_at: string;
+  sessions: { expired: number; kv_entries_deleted: number };
+  retention: RetentionReport | null;
+  documents: {
+    objects_scanned: number;
+    listing_complete: boolean;
+    orphaned_objects_deleted: number;
+    rows_marked_missing: number;
+  };
+  document_scans: Record<ScanOutcome, number>;
+  document_uploads: { expired: number; failed: number };
+  // Null when no master key is configured
+  document_keys: { current_key_id: string; rewrapped: number; encrypted: number; failed: number } | null;
+  audit: { checkpoints_written: number; sessions_scanned: number; has_more: boolean };
+  // Keys are sampled so the report stays small; counts above are complete
+  samples: { orphaned_objects: string[]; missing_rows: string[] };
+  errors: string[];
+  report_key?: string;
+}
+
+export const MAINTENANCE_REPORT_PREFIX = 'maintenance/reports/';
+
+// Uploads write R2 before their D1 row, so young objects are never treated as orphans
+const ORPHAN_GRACE_MS = 60 * 60 * 1000;
+const MAX_SESSIONS_PER_RUN = 500;
+const MAX_OBJECTS_PER_RUN = 5000;
+const SAMPLE_LIMIT = 50;
+// Buckets larger than one run can list are walked across runs from a cursor kept in CACHE
+const DOCUMENTS_CURSOR_KEY = 'maintenance_cursor_documents';
+// D1 caps bound parameters per statement
+const D1_PARAM_CHUNK = 90;
+
+/**
+ * One sweep of session expiry, retention policies, document reconciliation, expired
+ * resumable uploads, pending malware scans and document key rotation, followed by an audit
+ * checkpoint pass. Each step records its own failure and the rest still run; the report is
+ * written to NEURAL_DATA next to the audit checkpoints.
+ */
+export async function runMaintenance(env: MaintenanceEnv): Promise<MaintenanceReport> {
+  const now = Date.now();
+  const report: MaintenanceReport = {
+    started_at: new Date(now).toISOString(),
+    finished_at: '',
+    sessions: { expired: 0, kv_entries_deleted: 0 },
+    retention: null,
+    documents: { objects_scanned: 0, listing_complete: false, orphaned_objects_deleted: 0, rows_marked_missing: 0 },
+    document_scans: { clean: 0, infected: 0, error: 0, skipped: 0 },
+    document_uploads: { expired: 0, failed: 0 },
+    document_keys: null,
+    audit: { checkpoints_written: 0, sessions_scanned: 0, has_more: false },
+    samples: { orphaned_objects: [], missing_rows: [] },
+    errors: []
+  };
+
+  await step(report, 'expire_sessions', () => expireSessions(env, report));
+  await step(report, 'enforce_retention', async () => {
+    report.retention = await runRetention(env, { dryRun: false });
+  });
+  await step(report, 'reconcile_documents', () => reconcileDocuments(env, report, now));
+  await step(report, 'abort_expired_uploads', async () => {
+    report.document_uploads = await abortExpiredUploads(env);
+  });
+  await step(report, 'scan_pending_documents', async () => {
+    report.document_scans = await scanPendingDocuments(env);
+  });
+  await step(report, 'rewrap_document_keys', async () => {
+    const keyring = await loadDocumentKeyring(env);
+    if (keyring) {
+      report.document_keys = { current_key_id: keyring.currentKeyId, ...await rewrapDocumentKeys(env, keyring) };
+    }
+  });
+  await step(report, 'audit_checkpoint', async () => {
+    const run = await checkpointRecentChains(env.DB, env.NEURAL_DATA, env.CACHE);
+    report.audit = { checkpoints_written: run.checkpoints.length, sessions_scanned: run.sessions_scanned, has_more: run.has_more };
+  });
+
+  report.finished_at = new Date().toISOString();
+  report.report_key = `${MAINTENANCE_REPORT_PREFIX}${report.started_at.replace(/[:.]/g, '-')}.json`;
+  await env.NEURAL_DATA.put(report.report_key, JSON.stringify(report, null, 2), {
+    httpMetadata: { contentType: 'application/json' },
+    customMetadata: { errors: String(report.errors.length) }
+  });
+
+  return report;
+}
+
+async function expireSessions(env: MaintenanceEnv, report: MaintenanceReport): Promise<void> {
+  const sessions = await env.DB.prepare(`
+    SELECT session_oid, stripe_session_id, tenant_id FROM verification_sessions
+    WHERE expires_at < datetime('now')
+      AND session_status NOT IN ('verified', 'canceled', 'redacted', 'expired')
+    ORDER BY expires_at ASC
+    LIMIT ?
+  `).bind(MAX_SESSIONS_PER_RUN).all<{ session_oid: string; stripe_session_id: string | null; tenant_id: string | null }>();
+
+  for (const session of sessions.results || []) {
+    await markSessionExpired(env.DB, session.session_oid);
+    report.sessions.expired++;
+
+    // The same keys the creation and status handlers write
+    const deletions = [env.NEURAL_CONTEXT.delete(tenantKey(session.tenant_id, session.session_oid))];
+    if (session.stripe_session_id) {
+      deletions.push(
+        env.SESSIONS.delete(tenantKey(session.tenant_id, session.stripe_session_id)),
+        env.CACHE.delete(tenantKey(session.tenant_id, `session_${session.stripe_session_id}`))
+      );
+    }
+    await Promise.all(deletions);
+    report.sessions.kv_entries_deleted += deletions.length;
+  }
+}
+
+/**
+ * R2 -> D1: objects with no live row (never recorded, soft-deleted or anonymized) are removed;
+ * staged uploads that can still be completed count as live.
+ * D1 -> R2: live rows whose object is gone are marked missing; this direction needs the
+ * complete key listing, so it only runs when a single run lists the whole bucket.
+ */
+async function reconcileDocuments(env: MaintenanceEnv, report: MaintenanceReport, now: number): Promise<void> {
+  const storedKeys = new Set<string>();
+  const resumedFrom = await env.CACHE.get(DOCUMENTS_CURSOR_KEY) || undefined;
+  let cursor = resumedFrom;
+
+  do {
+    const listing = await env.DOCUMENTS.list({ cursor, limit: 1000 });
+    const objects = listing.objects;
+    report.documents.objects_scanned += objects.length;
+
+    const liveKeys = new Set<string>();
+    for (const keys of chunk(objects.map(object => object.key), D1_PARAM_CHUNK)) {
+      const rows = await env.DB.prepare(`
+        SELECT storage_path FROM document_storage
+        WHERE storage_path IN (${keys.map(() => '?').join(', ')}) AND upload_status NOT IN ('deleted', 'anonymized')
+      `).bind(...keys).all<{ storage_path: string }>();
+      for (const row of rows.results || []) {
+        liveKeys.add(row.storage_path);
+      }
+
+      // A joined upload whose completion failed keeps its staged object until the client retries
+      const staged = await env.DB.prepare(`
+        SELECT staging_path FROM document_uploads
+        WHERE staging_path IN (${keys.map(() => '?').join(', ')}) AND upload_status IN ('uploading', 'completing')
+      `).bind(...keys).all<{ staging_path: string }>();
+      for (const row of staged.results || []) {
+        liveKeys.add(row.staging_path);
+      }
+    }
+
+    const orphans = objects
+      .filter(object => !liveKeys.has(object.key) && now - new Date(object.uploaded).getTime() > ORPHAN_GRACE_MS)
+      .map(object => object.key);
+    if (orphans.length > 0) {
+      await env.DOCUMENTS.delete(orphans);
+      report.documents.orphaned_objects_deleted += orphans.length;
+      sample(report.samples.orphaned_objects, orphans);
+    }
+
+    for (const object of objects) {
+      storedKeys.add(object.key);
+    }
+    cursor = listing.truncated ? listing.cursor : undefined;
+  } while (cursor && report.documents.objects_scanned < MAX_OBJECTS_PER_RUN);
+
+  await saveCursor(env.CACHE, DOCUMENTS_CURSOR_KEY, cursor);
+  report.documents.listing_complete = !resumedFrom && !cursor;
+  if (!report.documents.listing_complete) {
+    return;
+  }
+
+  let lastId = 0;
+  for (;;) {
+    const page = await env.DB.prepare(`
+      SELECT id, document_id, storage_path FROM document_storage
+      WHERE id > ? AND upload_status NOT IN ('deleted', 'anonymized', 'missing')
+        AND created_at < datetime('now', '-1 hours')
+      ORDER BY id ASC
+      LIMIT 1000
+    `).bind(lastId).all<{ id: number; document_id: string; storage_path: string }>();
+
+    const rows = page.results || [];
+    const missing = rows.filter(row => !storedKeys.has(row.storage_path)).map(row => row.document_id);
+    for (const ids of chunk(missing, D1_PARAM_CHUNK)) {
+      await env.DB.prepare(`
+        UPDATE document_storage SET upload_status = 'missing', updated_at = datetime('now')
+        WHERE document_id IN (${ids.map(() => '?').join(', ')})
+      `).bind(...ids).run();
+    }
+    report.documents.rows_marked_missing += missing.length;
+    sample(report.samples.missing_rows, missing);
+
+    if (rows.length < 1000) {
+      break;
+    }
+    lastId = rows[rows.length - 1].id;
+  }
+}
+
+async function saveCursor(kv: KVNamespace, key: string, cursor: string | undefined): Promise<void> {
+  if (cursor) {
+    await kv.put(key, cursor, { expirationTtl: 7 * 24 * 60 * 60 });
+  } else {
+    await kv.delete(key);
+  }
+}
+
+async function step(report: MaintenanceReport, name: string, run: () => Promise<void>): Promise<void> {
+  try {
+    await run();
+  } catch (error) {
+    console.error(`Maintenance step ${name} failed:`, error);
+    report.errors.push(`${name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+function sample(target: string[], keys: string[]): void {
+  target.push(...keys.slice(0, Math.max(SAMPLE_LIMIT - target.length, 0)));
+}
@@ -0,0 +1,255 @@
+// BrainSAIT IOD Shared - Document Malware Scanning
+// OID: 1.3.6.1.4.1.61026.4.7.3 (Malware Scanning)
+
+import { decryptDocument, DocumentKeyEnv, envelopeFromMetadata, envelopeFromRow, loadDocumentKeyring } from './document-crypto';
+import { recordSecurityIncident } from './incidents';
+
+export interface ScanEnv extends DocumentKeyEnv {
+  DB: D1Database;
+  DOCUMENTS: R2Bucket;
+  BRAINSAIT_OID_ROOT?: string;
+  // Optional second opinion; the bundled signature scanner always runs
+  MALWARE_SCANNER_URL?: string;
+  MALWARE_SCANNER_TOKEN?: string;
+}
+
+export interface ScanVerdict {
+  scanner: string;
+  clean: boolean;
+  signature?: string;
+}
+
+export interface DocumentScanner {
+  name: string;
+  scan(bytes: Uint8Array<ArrayBuffer>, context: { documentId: string; fileType: string }): Promise<ScanVerdict>;
+}
+
+export type ScanOutcome = 'clean' | 'infected' | 'error' | 'skipped';
+
+/**
+ * YARA-style rule: every string must occur (condition 'all') or any one of them, optionally
+ * only at a fixed offset. Strings are matched against the raw bytes read as latin1.
+ */
+export interface SignatureRule {
+  name: string;
+  strings: string[];
+  condition?: 'any' | 'all';
+  nocase?: boolean;
+  at?: number;
+}
+
+// The EICAR string is split so this source file does not itself trip scanners
+const EICAR = 'X5O!P%@AP[4\\PZX54(P^)7CC)7}$' + 'EICAR-STANDARD-ANTIVIRUS-TEST-FILE!$H+H*';
+
+export const BUILTIN_SIGNATURES: SignatureRule[] = [
+  { name: 'EICAR-Test-File', strings: [EICAR] },
+  { name: 'Embedded-PE-Executable', strings: ['This program cannot be run in DOS mode', 'PE\0\0'], condition: 'all' },
+  { name: 'ELF-Executable', strings: ['\x7fELF'], at: 0 },
+  { name: 'Embedded-Script-Markup', strings: ['<script', '<?php', '<%@'], nocase: true },
+  { name: 'Embedded-Shell-Payload', strings: ['#!/bin/sh', '#!/bin/bash', 'powershell -e'], nocase: true }
+];
+
+const PENDING_SCAN_BATCH = 25;
+const DEFAULT_OID_ROOT = '1.3.6.1.4.1.61026';
+
+export function createSignatureScanner(rules: SignatureRule[] = BUILTIN_SIGNATURES): DocumentScanner {
+  return {
+    name: 'signatures',
+    async scan(bytes) {
+      const text = new TextDecoder('latin1').decode(bytes);
+      let lowered: string | null = null;
+
+      for (const rule of rules) {
+        const haystack = rule.nocase ? (lowered ??= text.toLowerCase()) : text;
+        const found = rule.strings.map(value => {
+          const needle = rule.nocase ? value.toLowerCase() : value;
+          return rule.at === undefined ? haystack.includes(needle) : haystack.startsWith(needle, rule.at);
+        });
+        if (rule.condition === 'all' ? found.every(Boolean) : found.some(Boolean)) {
+          return { scanner: 'signatures', clean: false, signature: rule.name };
+        }
+      }
+      return { scanner: 'signatures', clean: true };
+    }
+  };
+}
+
+/**
+ * Posts the plaintext to an external scanner, which answers { clean, signature? }. A failed
+ * call throws, which leaves the document pending rather than treating it as clean.
+ */
+export function createHttpScanner(url: string, token?: string): DocumentScanner {
+  return {
+    name: 'http',
+    async scan(bytes, context) {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/octet-stream',
+          'X-Document-ID': context.documentId,
+          'X-Document-Type': context.fileType,
+          ...(token && { 'Authorization': `Bearer ${token}` })
+        },
+        body: bytes
+      });
+      if (!response.ok) {
+        throw new Error(`Scanner responded with ${response.status}`);
+      }
+      const result = await response.json() as { clean?: unknown; signature?: unknown };
+      if (typeof result.clean !== 'boolean') {
+        throw new Error('Scanner response has no clean verdict');
+      }
+      return {
+        scanner: 'http',
+        clean: result.clean,
+        ...(typeof result.signature === 'string' && { signature: result.signature })
+      };
+    }
+  };
+}
+
+export function resolveScanners(env: ScanEnv): DocumentScanner[] {
+  const scanners = [createSignatureScanner()];
+  if (env.MALWARE_SCANNER_URL) {
+    scanners.push(createHttpScanner(env.MALWARE_SCANNER_URL, env.MALWARE_SCANNER_TOKEN));
+  }
+  return scanners;
+}
+
+// Quarantined objects keep their tenant prefix so tenant-scoped listing still finds them
+export function quarantineKey(path: string): string {
+  return isQuarantined(path) ? path : path.replace(/^(tenants\/[^/]+\/)?/, '$1quarantine/');
+}
+
+function releaseKey(path: string): string {
+  return path.replace(/^(tenants\/[^/]+\/)?quarantine\//, '$1');
+}
+
+function isQuarantined(path: string): boolean {
+  return /^(tenants\/[^/]+\/)?quarantine\//.test(path);
+}
+
+interface ScanRow {
+  id: number;
+  document_id: string;
+  session_oid: string;
+  storage_path: string;
+  file_type: string;
+  tenant_id: string | null;
+  scan_status: string | null;
+  encryption_key_id: string | null;
+  wrapped_key: string | null;
+  encryption_iv: string | null;
+}
+
+/**
+ * Scans one pending document. Clean files leave the quarantine prefix and become verified;
+ * infected ones move into it, become quarantined and raise a malware_detected incident.
+ * Scanner or decryption failures keep the document pending for the maintenance sweep.
+ */
+export async function scanDocument(env: ScanEnv, documentId: string, scanners: DocumentScanner[] = resolveScanners(env)): Promise<ScanOutcome> {
+  const row = await env.DB.prepare(`
+    SELECT id, document_id, session_oid, storage_path, file_type, tenant_id, scan_status,
+           encryption_key_id, wrapped_key, encryption_iv
+    FROM document_storage
+    WHERE document_id = ?
+  `).bind(documentId).first<ScanRow>();
+
+  if (!row || row.scan_status !== 'pending') {
+    return 'skipped';
+  }
+
+  const object = await env.DOCUMENTS.get(row.storage_path);
+  if (!object) {
+    // Reconciliation marks the row missing
+    return 'skipped';
+  }
+
+  // The stored bytes are kept to move the object; scanners see the decrypted content
+  const stored = await object.arrayBuffer();
+  const verdicts: ScanVerdict[] = [];
+  try {
+    let bytes = new Uint8Array(stored);
+    const envelope = envelopeFromMetadata(object.customMetadata) || envelopeFromRow(row);
+    if (envelope) {
+      const keyring = await loadDocumentKeyring(env);
+      const plaintext = keyring && await decryptDocument(keyring, stored, envelope, row.document_id);
+      if (!plaintext) {
+        throw new Error('Document could not be decrypted for scanning');
+      }
+      bytes = new Uint8Array(plaintext);
+    }
+
+    for (const scanner of scanners) {
+      verdicts.push(await scanner.scan(bytes, { documentId: row.document_id, fileType: row.file_type }));
+    }
+  } catch (error) {
+    console.error(`Malware scan failed for ${row.document_id}:`, error);
+    await env.DB.prepare(`
+      UPDATE document_storage SET scan_result = ?, updated_at = datetime('now') WHERE id = ?
+    `).bind(JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error', verdicts }), row.id).run();
+    return 'error';
+  }
+
+  const detections = verdicts.filter(verdict => !verdict.clean);
+  const infected = detections.length > 0;
+  const targetPath = infected ? quarantineKey(row.storage_path) : releaseKey(row.storage_path);
+
+  if (targetPath !== row.storage_path) {
+    await env.DOCUMENTS.put(targetPath, stored, {
+      httpMetadata: object.httpMetadata,
+      customMetadata: object.customMetadata
+    });
+    await env.DOCUMENTS.delete(row.storage_path);
+  }
+
+  // Lifecycle states set meanwhile (archived, deleted) are kept; only the upload pipeline states advance
+  await env.DB.prepare(`
+    UPDATE document_storage
+    SET storage_path = ?, scan_status = ?, scan_result = ?, scanned_at = datetime('now'), updated_at = datetime('now'),
+        upload_status = CASE
+          WHEN ? THEN 'quarantined'
+          WHEN upload_status IN ('processing', 'uploaded') THEN 'verified'
+          ELSE upload_status
+        END
+    WHERE id = ? AND scan_status = 'pending'
+  `).bind(targetPath, infected ? 'infected' : 'clean', JSON.stringify({ verdicts }), infected ? 1 : 0, row.id).run();
+
+  if (infected) {
+    await recordSecurityIncident(env.DB, env.BRAINSAIT_OID_ROOT || DEFAULT_OID_ROOT, {
+      type: 'malware_detected',
+      riskScore: 90,
+      data: {
+        document_id: row.document_id,
+        session_oid: row.session_oid,
+        file_type: row.file_type,
+        detections
+      },
+      tenantId: row.tenant_id
+    });
+  }
+
+  return infected ? 'infected' : 'clean';
+}
+
+/**
+ * Picks up documents whose upload-time scan never finished, and those stored before scanning
+ * existed. Recent uploads are left to the scan their upload request started.
+ */
+export async function scanPendingDocuments(env: ScanEnv): Promise<Record<ScanOutcome, number>> {
+  const counts: Record<ScanOutcome, number> = { clean: 0, infected: 0, error: 0, skipped: 0 };
+  const rows = await env.DB.prepare(`
+    SELECT document_id FROM document_storage
+    WHERE scan_status = 'pending'
+      AND upload_status NOT IN ('deleted', 'anonymized', 'missing')
+      AND created_at < datetime('now', '-5 minutes')
+    ORDER BY updated_at ASC
+    LIMIT ?
+  `).bind(PENDING_SCAN_BATCH).all<{ document_id: string }>();
+
+  const scanners = resolveScanners(env);
+  for (const row of rows.results || []) {
+    counts[await scanDocument(env, row.document_id, scanners)]++;
+  }
+  return counts;
+}
@@ -0,0 +1,181 @@
+// BrainSAIT IOD Shared - Geolocation and Anonymizer Detection
+// OID: 1.3.6.1.4.1.61026.4.1.2 (Network Risk Signals)
+
+import bundledAnonymizerList from './anonymizer-list.json';
+
+export interface AnonymizerList {
+  version: string;
+  asns: Array<{ asn: number; name: string }>;
+  cidrs: Array<{ cidr: string; name: string }>;
+}
+
+export interface LocationMismatch {
+  declared_country: string;
+  request_country: string;
+  colo?: string;
+  city?: string;
+}
+
+export interface AnonymizerMatch {
+  rule: 'asn' | 'cidr';
+  matched: string;
+  provider: string;
+  asn?: number;
+  as_organization?: string;
+  list_version: string;
+}
+
+export interface NetworkAssessment {
+  locationMismatch: LocationMismatch | null;
+  anonymizer: AnonymizerMatch | null;
+}
+
+interface ListSources {
+  CACHE: KVNamespace;
+  NEURAL_DATA: R2Bucket;
+}
+
+// Runtime overrides, checked in this order before falling back to the bundled list
+export const ANONYMIZER_LIST_KV_KEY = 'security_anonymizer_list';
+export const ANONYMIZER_LIST_R2_KEY = 'security/anonymizer-list.json';
+
+const LIST_MEMO_TTL_MS = 5 * 60 * 1000;
+let memoizedList: { list: AnonymizerList; loadedAt: number } | null = null;
+
+export async function loadAnonymizerList(env: ListSources): Promise<AnonymizerList> {
+  if (memoizedList && Date.now() - memoizedList.loadedAt < LIST_MEMO_TTL_MS) {
+    return memoizedList.list;
+  }
+
+  let list: AnonymizerList = bundledAnonymizerList;
+
+  try {
+    const fromKv = await env.CACHE.get<AnonymizerList>(ANONYMIZER_LIST_KV_KEY, { type: 'json' });
+    if (isAnonymizerList(fromKv)) {
+      list = fromKv;
+    } else {
+      const fromR2 = await env.NEURAL_DATA.get(ANONYMIZER_LIST_R2_KEY);
+      const parsed = fromR2 ? await fromR2.json<AnonymizerList>() : null;
+      if (isAnonymizerList(parsed)) {
+        list = parsed;
+      }
+    }
+  } catch (error) {
+    // A malformed override must never take verification down; keep the bundled list
+    console.warn('Anonymizer list override unavailable, using bundled list:', error);
+  }
+
+  memoizedList = { list, loadedAt: Date.now() };
+  return list;
+}
+
+export function assessNetwork(list: AnonymizerList, input: {
+  ipAddress?: string | null;
+  declaredCountry?: string | null;
+  cf?: IncomingRequestCfProperties;
+}): NetworkAssessment {
+  const requestCountry = input.cf?.country;
+  const locationMismatch = requestCountry && input.declaredCountry && requestCountry !== 'T1' && requestCountry !== input.declaredCountry
+    ? {
+        declared_country: input.declaredCountry,
+        request_country: requestCountry,
+        colo: input.cf?.colo,
+        city: input.cf?.city
+      }
+    : null;
+
+  return {
+    locationMismatch,
+    anonymizer: matchAnonymizer(list, input.ipAddress, input.cf)
+  };
+}
+
+function matchAnonymizer(list: AnonymizerList, ipAddress?: string | null, cf?: IncomingRequestCfProperties): AnonymizerMatch | null {
+  if (cf?.asn) {
+    const asnEntry = list.asns.find(entry => entry.asn === cf.asn);
+    if (asnEntry) {
+      return {
+        rule: 'asn',
+        matched: `AS${asnEntry.asn}`,
+        provider: asnEntry.name,
+        asn: cf.asn,
+        as_organization: cf.asOrganization,
+        list_version: list.version
+      };
+    }
+  }
+
+  const address = ipAddress ? parseIp(ipAddress) : null;
+  if (address) {
+    const cidrEntry = list.cidrs.find(entry => cidrContains(entry.cidr, address));
+    if (cidrEntry) {
+      return {
+        rule: 'cidr',
+        matched: cidrEntry.cidr,
+        provider: cidrEntry.name,
+        asn: cf?.asn,
+        as_organization: cf?.asOrganization,
+        list_version: list.version
+      };
+    }
+  }
+
+  return null;
+}
+
+function cidrContains(cidr: string, address: Uint8Array): boolean {
+  const [range, prefixText] = cidr.split('/');
+  const network = parseIp(range);
+  const prefix = Number(prefixText);
+
+  if (!network || network.length !== address.length || !Number.isInteger(prefix)) {
+    return false;
+  }
+
+  for (let bit = 0; bit < prefix; bit++) {
+    const byte = bit >> 3;
+    const mask = 0x80 >> (bit & 7);
+    if ((network[byte] & mask) !== (address[byte] & mask)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function parseIp(ip: string): Uint8Array | null {
+  if (ip.includes('.') && !ip.includes(':')) {
+    const octets = ip.split('.').map(Number);
+    if (octets.length !== 4 || octets.some(octet => !Number.isInteger(octet) || octet < 0 || octet > 255)) {
+      return null;
+    }
+    return Uint8Array.from(octets);
+  }
+
+  const halves = ip.split('::');
+  if (halves.length > 2) {
+    return null;
+  }
+
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - tail.length;
+  if ((halves.length === 1 && missing !== 0) || missing < 0) {
+    return null;
+  }
+
+  const groups = [...head, ...new Array(missing).fill('0'), ...tail];
+  const bytes = new Uint8Array(16);
+  for (let i = 0; i < 8; i++) {
+    const value = Number.parseInt(groups[i], 16);
+    if (!/^[0-9a-f]{1,4}$/i.test(groups[i]) || Number.isNaN(value)) {
+      return null;
+    }
+    bytes[i * 2] = value >> 8;
+    bytes[i * 2 + 1] = value & 0xff;
+  }
+  return bytes;
+}
+
+function isAnonymizerList(value: any): value is AnonymizerList {
+  return !!value && typeof value.version === 'string' && Array.isArray(value.asns) && Array.isArray(value.cidrs);
+}
@@ -0,0 +1,164 @@
+// BrainSAIT IOD Shared - Operator Authentication
+// OID: 1.3.6.1.4.1.61026.4.3 (Operator Identity)
+
+import { fromBase64Url } from './encoding';
+
+// Operator sessions are JWTs issued by the BrainSAIT identity provider. HS256 tokens are
+// checked against OPERATOR_JWT_SECRET; RS256/ES256 tokens against the JWKS in
+// OPERATOR_JWT_PUBLIC_KEYS, selected by the header's kid.
+
+export const OPERATOR_ROLES = ['operator', 'compliance_auditor', 'regional_admin', 'analyst'] as const;
+
+export type OperatorRole = typeof OPERATOR_ROLES[number];
+
+export interface OperatorSession {
+  operator_id: string;
+  roles: OperatorRole[];
+  countries: string[] | null; // null means no country restriction
+  tenant_id: string | null; // null means a platform operator spanning all tenants
+  expires_at: string;
+}
+
+export interface OperatorAuthEnv {
+  OPERATOR_JWT_SECRET?: string;
+  OPERATOR_JWT_PUBLIC_KEYS?: string;
+  OPERATOR_JWT_ISSUER?: string;
+  OPERATOR_JWT_AUDIENCE?: string;
+}
+
+export type OperatorAuthResult =
+  | { ok: true; session: OperatorSession }
+  | { ok: false; reason: string };
+
+const CLOCK_SKEW_SECONDS = 60;
+
+const ASYMMETRIC_ALGORITHMS: Record<string, RsaHashedImportParams | EcKeyImportParams> = {
+  RS256: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+  ES256: { name: 'ECDSA', namedCurve: 'P-256' }
+};
+
+const keyCache = new Map<string, CryptoKey>();
+
+export function readBearerToken(request: Request): string | null {
+  const authorization = request.headers.get('Authorization') || '';
+  const match = authorization.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+}
+
+export async function verifyOperatorToken(token: string, env: OperatorAuthEnv): Promise<OperatorAuthResult> {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    return { ok: false, reason: 'Malformed token' };
+  }
+
+  const [encodedHeader, encodedPayload, encodedSignature] = parts;
+  let header: any;
+  let payload: any;
+  try {
+    header = JSON.parse(decodeBase64UrlText(encodedHeader));
+    payload = JSON.parse(decodeBase64UrlText(encodedPayload));
+  } catch {
+    return { ok: false, reason: 'Malformed token' };
+  }
+
+  const key = await resolveVerificationKey(header, env);
+  if (!key) {
+    return { ok: false, reason: `Unsupported or unconfigured signing algorithm: ${header?.alg}` };
+  }
+
+  const signature = fromBase64Url(encodedSignature);
+  const signedContent = new TextEncoder().encode(`${encodedHeader}.${encodedPayload}`);
+  const algorithm = header.alg === 'ES256' ? { name: 'ECDSA', hash: 'SHA-256' } : key.algorithm.name;
+  const valid = await crypto.subtle.verify(algorithm, key, signature, signedContent);
+  if (!valid) {
+    return { ok: false, reason: 'Invalid token signature' };
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (typeof payload.exp !== 'number' || payload.exp + CLOCK_SKEW_SECONDS < now) {
+    return { ok: false, reason: 'Token expired' };
+  }
+  if (typeof payload.nbf === 'number' && payload.nbf - CLOCK_SKEW_SECONDS > now) {
+    return { ok: false, reason: 'Token not yet valid' };
+  }
+  if (env.OPERATOR_JWT_ISSUER && payload.iss !== env.OPERATOR_JWT_ISSUER) {
+    return { ok: false, reason: 'Unexpected token issuer' };
+  }
+  if (env.OPERATOR_JWT_AUDIENCE) {
+    const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+    if (!audiences.includes(env.OPERATOR_JWT_AUDIENCE)) {
+      return { ok: false, reason: 'Unexpected token audience' };
+    }
+  }
+
+  if (typeof payload.sub !== 'string' || !payload.sub) {
+    return { ok: false, reason: 'Token has no subject' };
+  }
+
+  const claimedRoles: unknown[] = Array.isArray(payload.roles) ? payload.roles : [payload.role];
+  const roles = claimedRoles.filter((role): role is OperatorRole => OPERATOR_ROLES.includes(role as OperatorRole));
+  if (roles.length === 0) {
+    return { ok: false, reason: 'Token grants no operator role' };
+  }
+
+  return {
+    ok: true,
+    session: {
+      operator_id: payload.sub,
+      roles,
+      countries: Array.isArray(payload.countries) ? payload.countries.map((country: unknown) => String(country).toUpperCase()) : null,
+      tenant_id: typeof payload.tenant_id === 'string' && payload.tenant_id ? payload.tenant_id : null,
+      expires_at: new Date(payload.exp * 1000).toISOString()
+    }
+  };
+}
+
+async function resolveVerificationKey(header: any, env: OperatorAuthEnv): Promise<CryptoKey | null> {
+  if (header?.alg === 'HS256') {
+    if (!env.OPERATOR_JWT_SECRET) {
+      return null;
+    }
+    const cacheKey = `hs256:${env.OPERATOR_JWT_SECRET}`;
+    if (!keyCache.has(cacheKey)) {
+      keyCache.set(cacheKey, await crypto.subtle.importKey(
+        'raw',
+        new TextEncoder().encode(env.OPERATOR_JWT_SECRET),
+        { name: 'HMAC', hash: 'SHA-256' },
+        false,
+        ['verify']
+      ));
+    }
+    return keyCache.get(cacheKey)!;
+  }
+
+  const importParams = ASYMMETRIC_ALGORITHMS[header?.alg];
+  if (!importParams || !env.OPERATOR_JWT_PUBLIC_KEYS) {
+    return null;
+  }
+
+  let jwks: { keys?: Array<JsonWebKey & { kid?: string }> };
+  try {
+    jwks = JSON.parse(env.OPERATOR_JWT_PUBLIC_KEYS);
+  } catch {
+    console.error('OPERATOR_JWT_PUBLIC_KEYS is not valid JWKS JSON');
+    return null;
+  }
+
+  // Pinning the algorithm to the key's declared alg stops tokens from choosing a weaker one
+  const jwk = (jwks.keys || []).find(candidate =>
+    (!header.kid || candidate.kid === header.kid) && (!candidate.alg || candidate.alg === header.alg)
+  );
+  if (!jwk) {
+    return null;
+  }
+
+  const cacheKey = `${header.alg}:${jwk.kid || JSON.stringify(jwk)}`;
+  if (!keyCache.has(cacheKey)) {
+    keyCache.set(cacheKey, await crypto.subtle.importKey('jwk', jwk, importParams, false, ['verify']));
+  }
+  return keyCache.get(cacheKey)!;
+}
+
+function decodeBase64UrlText(value: string): string {
+  return new TextDecoder().decode(fromBase64Url(value));
+}
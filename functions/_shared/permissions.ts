@@ -0,0 +1,122 @@
+// BrainSAIT IOD Shared - API Route Permissions
+// OID: 1.3.6.1.4.1.61026.4.3.1 (Operator Access Control)
+
+import { OperatorRole, OperatorSession } from './operator-auth';
+
+// 'public' routes are called by the verification frontend, tenant backends holding an API
+// key, Stripe or the browser's reporting pipeline and carry their own checks (signatures,
+// API keys, rate limits, risk scoring).
+export type RouteAccess = 'public' | OperatorRole[];
+
+export interface RoutePolicy {
+  pattern: RegExp;
+  methods: Record<string, RouteAccess>;
+  // Country the route operates on; regional admins and operators with a countries claim are held to it
+  country?: string;
+}
+
+export const ROUTE_POLICIES: RoutePolicy[] = [
+  { pattern: /^\/api\/create-verification-session$/, methods: { POST: 'public' } },
+  { pattern: /^\/api\/verification-session\/[^/]+$/, methods: { GET: 'public' } },
+  { pattern: /^\/api\/verification-session\/[^/]+\/cancel$/, methods: { POST: ['operator', 'regional_admin'] } },
+  { pattern: /^\/api\/verification-session\/[^/]+\/redact$/, methods: { POST: ['regional_admin'] } },
+  // Operators, tenant API keys and the subject's browser, which proves the session with its audit token
+  { pattern: /^\/api\/verification-session\/[^/]+\/retry$/, methods: { POST: 'public' } },
+  { pattern: /^\/api\/stripe-webhook$/, methods: { POST: 'public' } },
+  { pattern: /^\/api\/security\/csp-report$/, methods: { POST: 'public' } },
+  {
+    pattern: /^\/api\/security\/incidents$/,
+    methods: { GET: ['analyst', 'compliance_auditor'], POST: 'public' }
+  },
+  {
+    pattern: /^\/api\/security\/incidents\/[^/]+$/,
+    methods: { GET: ['analyst', 'compliance_auditor'], PATCH: ['analyst'] }
+  },
+  {
+    pattern: /^\/api\/audit-events$/,
+    methods: { GET: ['compliance_auditor', 'analyst'], POST: 'public' }
+  },
+  { pattern: /^\/api\/audit\/verify$/, methods: { GET: ['compliance_auditor'] } },
+  { pattern: /^\/api\/audit\/checkpoint$/, methods: { POST: ['compliance_auditor'] } },
+  {
+    pattern: /^\/api\/api-keys$/,
+    methods: { GET: ['regional_admin', 'compliance_auditor'], POST: ['regional_admin'] }
+  },
+  {
+    pattern: /^\/api\/api-keys\/[^/]+$/,
+    methods: { GET: ['regional_admin', 'compliance_auditor'], DELETE: ['regional_admin'] }
+  },
+  { pattern: /^\/api\/api-keys\/[^/]+\/rotate$/, methods: { POST: ['regional_admin'] } },
+  { pattern: /^\/api\/documents\/upload$/, methods: { POST: ['operator', 'regional_admin'] } },
+  // Listed before the document routes, which would otherwise take 'uploads' for a document ID
+  { pattern: /^\/api\/documents\/uploads$/, methods: { POST: ['operator', 'regional_admin'] } },
+  {
+    pattern: /^\/api\/documents\/uploads\/[^/]+$/,
+    methods: { GET: ['operator', 'regional_admin'], DELETE: ['operator', 'regional_admin'] }
+  },
+  { pattern: /^\/api\/documents\/uploads\/[^/]+\/parts\/\d+$/, methods: { PUT: ['operator', 'regional_admin'] } },
+  { pattern: /^\/api\/documents\/uploads\/[^/]+\/complete$/, methods: { POST: ['operator', 'regional_admin'] } },
+  {
+    pattern: /^\/api\/documents\/[^/]+\/download-token$/,
+    methods: { POST: ['operator', 'compliance_auditor', 'regional_admin'] }
+  },
+  {
+    pattern: /^\/api\/documents\/[^/]+$/,
+    methods: { GET: ['operator', 'compliance_auditor', 'regional_admin'], DELETE: ['regional_admin'] }
+  },
+  { pattern: /^\/api\/retention\/report$/, methods: { GET: ['compliance_auditor', 'regional_admin'] } },
+  { pattern: /^\/api\/analytics\/dashboard$/, methods: { GET: ['analyst', 'compliance_auditor', 'regional_admin'] } },
+  {
+    pattern: /^\/api\/regional\/saudi-healthcare$/,
+    methods: { GET: ['operator', 'regional_admin'], POST: ['operator', 'regional_admin'] },
+    country: 'SA'
+  },
+  {
+    pattern: /^\/api\/regional\/sudan-national$/,
+    methods: { GET: ['operator', 'regional_admin'], POST: ['operator', 'regional_admin'] },
+    country: 'SD'
+  },
+  {
+    pattern: /^\/api\/neural-context\/[^/]+$/,
+    methods: { GET: ['operator', 'analyst', 'compliance_auditor'], POST: ['operator', 'regional_admin'] }
+  }
+];
+
+export type AccessDecision =
+  | { allowed: true; access: RouteAccess }
+  | { allowed: false; status: 401 | 403 | 404; reason: string };
+
+export function findRoutePolicy(pathname: string): RoutePolicy | null {
+  return ROUTE_POLICIES.find(policy => policy.pattern.test(pathname)) || null;
+}
+
+/**
+ * Routes are denied unless listed; a new function must be added here before it is reachable.
+ */
+export function authorizeRoute(method: string, pathname: string, session: OperatorSession | null): AccessDecision {
+  const policy = findRoutePolicy(pathname);
+  const access = policy?.methods[method.toUpperCase()];
+
+  if (!policy || !access) {
+    return { allowed: false, status: 404, reason: 'No access policy for this route' };
+  }
+
+  if (access === 'public') {
+    return { allowed: true, access };
+  }
+
+  if (!session) {
+    return { allowed: false, status: 401, reason: 'Operator session required' };
+  }
+
+  if (!session.roles.some(role => access.includes(role))) {
+    return { allowed: false, status: 403, reason: `Requires one of: ${access.join(', ')}` };
+  }
+
+  if (policy.country && session.countries && !session.countries.includes(policy.country)) {
+    return { allowed: false, status: 403, reason: `Operator is not authorized for country ${policy.country}` };
+  }
+
+  return { allowed: true, access };
+}
+
@@ -0,0 +1,208 @@
+// BrainSAIT IOD Shared - KV Rate Limiting
+// OID: 1.3.6.1.4.1.61026.4.1.3 (Rate Limiting)
+
+import { sha256Hex } from './encoding';
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  retryAfter: number;
+}
+
+interface WindowCounter {
+  count: number;
+  window_start: number;
+}
+
+// Fixed-window counter in KV. KV is eventually consistent, so limits are approximate
+// across colos, which is acceptable for abuse dampening.
+export async function consumeFixedWindow(kv: KVNamespace, key: string, limit: number, windowSeconds: number, cost = 1): Promise<RateLimitResult> {
+  const now = Date.now();
+  const windowMs = windowSeconds * 1000;
+  const existing = await kv.get<WindowCounter>(key, { type: 'json' });
+
+  const counter: WindowCounter = existing && now - existing.window_start < windowMs
+    ? existing
+    : { count: 0, window_start: now };
+
+  const retryAfter = Math.max(Math.ceil((counter.window_start + windowMs - now) / 1000), 1);
+
+  if (counter.count + cost > limit) {
+    return { allowed: false, limit, remaining: Math.max(limit - counter.count, 0), retryAfter };
+  }
+
+  counter.count += cost;
+  await kv.put(key, JSON.stringify(counter), { expirationTtl: Math.max(retryAfter, 60) });
+
+  return { allowed: true, limit, remaining: limit - counter.count, retryAfter };
+}
+
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  return {
+    'Retry-After': String(result.retryAfter),
+    'X-RateLimit-Limit': String(result.limit),
+    'X-RateLimit-Remaining': String(result.remaining)
+  };
+}
+
+interface SlidingCounter {
+  window_start: number;
+  count: number;
+  previous: number;
+}
+
+// Sliding-window counter: the previous window's count is weighted by how much of it still
+// overlaps the trailing window, which avoids the double burst a fixed window allows at its edge.
+export async function consumeSlidingWindow(kv: KVNamespace, key: string, limit: number, windowSeconds: number, cost = 1): Promise<RateLimitResult> {
+  const now = Date.now();
+  const windowMs = windowSeconds * 1000;
+  const currentStart = Math.floor(now / windowMs) * windowMs;
+  const existing = await kv.get<SlidingCounter>(key, { type: 'json' });
+
+  let counter: SlidingCounter;
+  if (!existing || existing.window_start < currentStart - windowMs) {
+    counter = { window_start: currentStart, count: 0, previous: 0 };
+  } else if (existing.window_start < currentStart) {
+    counter = { window_start: currentStart, count: 0, previous: existing.count };
+  } else {
+    counter = existing;
+  }
+
+  const elapsed = (now - currentStart) / windowMs;
+  const used = counter.previous * (1 - elapsed) + counter.count;
+
+  if (used + cost > limit) {
+    // Wait until enough of the previous window has slid out, or for the next window if the current one alone is full
+    const headroom = limit - counter.count - cost;
+    const freeAt = headroom >= 0 && counter.previous > 0
+      ? currentStart + windowMs * (1 - headroom / counter.previous)
+      : currentStart + windowMs;
+    const retryAfter = Math.max(Math.ceil((freeAt - now) / 1000), 1);
+    return { allowed: false, limit, remaining: 0, retryAfter };
+  }
+
+  counter.count += cost;
+  await kv.put(key, JSON.stringify(counter), { expirationTtl: Math.max(windowSeconds * 2, 60) });
+
+  return {
+    allowed: true,
+    limit,
+    remaining: Math.max(Math.floor(limit - used - cost), 0),
+    retryAfter: Math.max(Math.ceil((currentStart + windowMs - now) / 1000), 1)
+  };
+}
+
+export type RateLimitDimension = 'ip' | 'api_key' | 'fingerprint' | 'national_id' | 'operator';
+
+export type RateLimitRoute = 'stripe_session_create' | 'stripe_session_status' | 'document_upload' | 'sudan_national_lookup';
+
+export interface RateLimitBudget {
+  window_seconds: number;
+  limits: Partial<Record<RateLimitDimension, number>>;
+}
+
+export interface RateLimitSubject {
+  ipAddress?: string | null;
+  apiKeyId?: string | null;
+  deviceFingerprint?: string | null;
+  nationalId?: string | null;
+  operatorId?: string | null;
+}
+
+export interface RateLimitEnv {
+  CACHE: KVNamespace;
+}
+
+// Each route spends its own budget so lookups cannot exhaust session creation and vice versa.
+// Stripe-calling routes are the tightest because every call is billed or counts against Stripe's quota.
+export const DEFAULT_RATE_LIMIT_BUDGETS: Record<RateLimitRoute, RateLimitBudget> = {
+  stripe_session_create: { window_seconds: 3600, limits: { ip: 10, fingerprint: 5, national_id: 5, api_key: 1000 } },
+  stripe_session_status: { window_seconds: 60, limits: { ip: 30, api_key: 600 } },
+  document_upload: { window_seconds: 3600, limits: { ip: 60, operator: 200 } },
+  sudan_national_lookup: { window_seconds: 60, limits: { ip: 30, operator: 60, national_id: 10 } }
+};
+
+// Overrides are read from KV CACHE and merged over the defaults:
+//   { "routes": { "<route>": { "window_seconds": 60, "limits": { "ip": 5 } } },
+//     "tenants": { "<tenant_id>": { "<route>": { "limits": { "api_key": 5000 } } } } }
+export const RATE_LIMIT_POLICY_KV_KEY = 'rate_limit_policy';
+
+interface RateLimitPolicy {
+  routes?: Partial<Record<RateLimitRoute, Partial<RateLimitBudget>>>;
+  tenants?: Record<string, Partial<Record<RateLimitRoute, Partial<RateLimitBudget>>>>;
+}
+
+const POLICY_MEMO_TTL_MS = 5 * 60 * 1000;
+let memoizedPolicy: { policy: RateLimitPolicy; loadedAt: number } | null = null;
+
+async function loadRateLimitPolicy(kv: KVNamespace): Promise<RateLimitPolicy> {
+  if (memoizedPolicy && Date.now() - memoizedPolicy.loadedAt < POLICY_MEMO_TTL_MS) {
+    return memoizedPolicy.policy;
+  }
+
+  let policy: RateLimitPolicy = {};
+  try {
+    policy = await kv.get<RateLimitPolicy>(RATE_LIMIT_POLICY_KV_KEY, { type: 'json' }) || {};
+  } catch (error) {
+    console.warn('Rate limit policy override unavailable, using defaults:', error);
+  }
+
+  memoizedPolicy = { policy, loadedAt: Date.now() };
+  return policy;
+}
+
+export async function resolveRateLimitBudget(kv: KVNamespace, route: RateLimitRoute, tenantId: string | null): Promise<RateLimitBudget> {
+  const policy = await loadRateLimitPolicy(kv);
+  const layers = [DEFAULT_RATE_LIMIT_BUDGETS[route], policy.routes?.[route], tenantId ? policy.tenants?.[tenantId]?.[route] : undefined];
+
+  return layers.reduce<RateLimitBudget>((budget, layer) => ({
+    window_seconds: typeof layer?.window_seconds === 'number' && layer.window_seconds > 0 ? layer.window_seconds : budget.window_seconds,
+    limits: { ...budget.limits, ...layer?.limits }
+  }), { window_seconds: 60, limits: {} });
+}
+
+/**
+ * Spends one request from every dimension of the route's budget that the subject carries.
+ * Returns the first exhausted dimension, or the one closest to its limit when all pass;
+ * null when no dimension applies.
+ */
+export async function enforceRateLimits(
+  env: RateLimitEnv,
+  route: RateLimitRoute,
+  tenantId: string | null,
+  subject: RateLimitSubject
+): Promise<(RateLimitResult & { dimension: RateLimitDimension }) | null> {
+  const budget = await resolveRateLimitBudget(env.CACHE, route, tenantId);
+  const values: Record<RateLimitDimension, string | null | undefined> = {
+    ip: subject.ipAddress,
+    api_key: subject.apiKeyId,
+    fingerprint: subject.deviceFingerprint,
+    national_id: subject.nationalId,
+    operator: subject.operatorId
+  };
+
+  let tightest: (RateLimitResult & { dimension: RateLimitDimension }) | null = null;
+  for (const [dimension, limit] of Object.entries(budget.limits) as Array<[RateLimitDimension, number]>) {
+    const value = values[dimension];
+    if (!value || !(limit > 0)) {
+      continue;
+    }
+
+    // Identifiers are hashed so national IDs and IPs never appear in KV key listings
+    const key = `rl:${route}:${tenantId || '_'}:${dimension}:${await hashIdentifier(value)}`;
+    const result = { ...await consumeSlidingWindow(env.CACHE, key, limit, budget.window_seconds), dimension };
+    if (!result.allowed) {
+      return result;
+    }
+    if (!tightest || result.remaining < tightest.remaining) {
+      tightest = result;
+    }
+  }
+
+  return tightest;
+}
+
+async function hashIdentifier(value: string): Promise<string> {
+  return (await sha256Hex(value)).slice(0, 32);
+}
@@ -0,0 +1,478 @@
+// BrainSAIT IOD Shared - Data Retention Policies
+// OID: 1.3.6.1.4.1.61026.4.6.1 (Retention Policies)
+
+export type RetentionDataClass = 'document' | 'neural_snapshot' | 'user_profile' | 'regional_identity' | 'neural_context';
+export type RetentionAction = 'delete' | 'anonymize' | 'archive';
+
+// users rows are referenced from the security_incidents hash chain, so a profile can only be anonymized
+const SUPPORTED_ACTIONS: Record<RetentionDataClass, RetentionAction[]> = {
+  document: ['delete', 'anonymize', 'archive'],
+  neural_snapshot: ['delete', 'archive'],
+  user_profile: ['anonymize'],
+  regional_identity: ['delete', 'anonymize', 'archive'],
+  neural_context: ['delete', 'archive']
+};
+
+export interface RetentionEnv {
+  DB: D1Database;
+  CACHE: KVNamespace;
+  DOCUMENTS: R2Bucket;
+  NEURAL_DATA: R2Bucket;
+}
+
+export interface RetentionPolicy {
+  id: number;
+  country_code: string;
+  document_type: string;
+  data_class: RetentionDataClass;
+  retention_days: number;
+  action: RetentionAction;
+}
+
+export interface RetentionOutcome {
+  policy_id: number;
+  data_class: RetentionDataClass;
+  target: string;
+  country_code: string;
+  document_type: string;
+  action: RetentionAction;
+  retention_days: number;
+  // Everything past retention; a run applies the action to at most MAX_ROWS_PER_POLICY of them
+  eligible: number;
+  applied: number;
+  sample: string[];
+}
+
+export interface RetentionReport {
+  dry_run: boolean;
+  policies_evaluated: number;
+  invalid_policies: Array<{ id: number; reason: string }>;
+  outcomes: RetentionOutcome[];
+  neural_snapshots: { objects_scanned: number; listing_complete: boolean };
+}
+
+export const RETENTION_ARCHIVE_PREFIX = 'retention-archive/';
+
+const MAX_ROWS_PER_POLICY = 100;
+const MAX_OBJECTS_PER_RUN = 5000;
+const DEFAULT_SAMPLE_LIMIT = 20;
+const NEURAL_DATA_CURSOR_KEY = 'retention_cursor_neural_data';
+// D1 caps bound parameters per statement
+const D1_PARAM_CHUNK = 90;
+
+// Neural snapshots live under the session OID, optionally behind the tenant prefix; audit
+// checkpoints, maintenance reports and archives share the bucket and never match
+const NEURAL_SNAPSHOT_KEY = /^(tenants\/[^/]+\/)?(\d+(?:\.\d+)+)\//;
+
+interface RetentionTarget {
+  dataClass: Exclude<RetentionDataClass, 'neural_snapshot'>;
+  table: string;
+  from: string;
+  country: string;
+  documentType?: string;
+  age: string;
+  // Rows an earlier run already handled are excluded
+  pending: string;
+  label: string;
+  anonymize?: string;
+}
+
+const RETENTION_TARGETS: RetentionTarget[] = [
+  {
+    dataClass: 'document',
+    table: 'document_storage',
+    from: 'document_storage t',
+    country: 't.country_code',
+    documentType: 't.document_type',
+    age: 't.created_at',
+    pending: "t.upload_status NOT IN ('deleted', 'anonymized', 'archived')",
+    label: 't.document_id'
+  },
+  {
+    dataClass: 'user_profile',
+    table: 'users',
+    from: 'users t',
+    country: 't.country_code',
+    age: 't.updated_at',
+    pending: 't.anonymized_at IS NULL',
+    label: 't.oid',
+    anonymize: 'email = NULL, ip_address = NULL, user_agent = NULL, device_fingerprint = NULL, metadata = NULL'
+  },
+  {
+    dataClass: 'regional_identity',
+    table: 'saudi_healthcare',
+    from: 'saudi_healthcare t',
+    country: "'SA'",
+    age: 't.validation_timestamp',
+    pending: 't.anonymized_at IS NULL',
+    label: 'CAST(t.id AS TEXT)',
+    anonymize: "nphies_id = 'anonymized', practitioner_id = NULL, practitioner_name_ar = NULL, practitioner_name_en = NULL, coverage_details = NULL"
+  },
+  {
+    dataClass: 'regional_identity',
+    table: 'sudan_national_id',
+    from: 'sudan_national_id t',
+    country: "'SD'",
+    age: 't.validation_timestamp',
+    pending: 't.anonymized_at IS NULL',
+    label: 'CAST(t.id AS TEXT)',
+    anonymize: "national_id = 'anonymized', citizen_name_ar = NULL, citizen_name_en = NULL, ministry_access = NULL, service_eligibility = NULL"
+  },
+  {
+    dataClass: 'neural_context',
+    table: 'neural_context',
+    from: 'neural_context t LEFT JOIN verification_sessions vs ON vs.session_oid = t.session_oid',
+    country: 'vs.country_context',
+    age: 't.created_at',
+    pending: '1 = 1',
+    label: 't.session_oid'
+  }
+];
+
+export async function loadRetentionPolicies(db: D1Database): Promise<{ policies: RetentionPolicy[]; invalid: Array<{ id: number; reason: string }> }> {
+  const rows = await db.prepare(`
+    SELECT id, country_code, document_type, data_class, retention_days, action
+    FROM retention_policies
+    WHERE is_active = 1
+    ORDER BY id ASC
+  `).all<RetentionPolicy>();
+
+  const policies: RetentionPolicy[] = [];
+  const invalid: Array<{ id: number; reason: string }> = [];
+  for (const row of rows.results || []) {
+    const actions = SUPPORTED_ACTIONS[row.data_class];
+    if (!actions) {
+      invalid.push({ id: row.id, reason: `Unknown data class ${row.data_class}` });
+    } else if (!actions.includes(row.action)) {
+      invalid.push({ id: row.id, reason: `${row.data_class} supports ${actions.join(', ')}` });
+    } else if (!Number.isInteger(row.retention_days) || row.retention_days < 1) {
+      invalid.push({ id: row.id, reason: 'retention_days must be a positive integer' });
+    } else if (row.document_type !== '*' && row.data_class !== 'document') {
+      invalid.push({ id: row.id, reason: 'document_type only applies to the document data class' });
+    } else {
+      policies.push(row);
+    }
+  }
+  return { policies, invalid };
+}
+
+// A country match outranks a document type match; '*' matches anything
+function specificity(policy: RetentionPolicy): number {
+  return (policy.country_code !== '*' ? 2 : 0) + (policy.document_type !== '*' ? 1 : 0);
+}
+
+function overlaps(a: RetentionPolicy, b: RetentionPolicy): boolean {
+  return (a.country_code === '*' || b.country_code === '*' || a.country_code === b.country_code)
+    && (a.document_type === '*' || b.document_type === '*' || a.document_type === b.document_type);
+}
+
+export function resolveRetentionPolicy(
+  policies: RetentionPolicy[],
+  dataClass: RetentionDataClass,
+  countryCode: string | null,
+  documentType: string | null = null
+): RetentionPolicy | null {
+  let best: RetentionPolicy | null = null;
+  for (const policy of policies) {
+    if (policy.data_class !== dataClass
+      || (policy.country_code !== '*' && policy.country_code !== countryCode)
+      || (policy.document_type !== '*' && policy.document_type !== documentType)) {
+      continue;
+    }
+    if (!best || specificity(policy) > specificity(best)) {
+      best = policy;
+    }
+  }
+  return best;
+}
+
+/**
+ * Evaluates every active policy. A dry run only counts and samples what each policy would
+ * touch; otherwise the action is applied to the oldest MAX_ROWS_PER_POLICY rows per policy
+ * and the remainder is left for the next run.
+ */
+export async function runRetention(
+  env: RetentionEnv,
+  options: { dryRun: boolean; sampleLimit?: number }
+): Promise<RetentionReport> {
+  const sampleLimit = options.sampleLimit ?? DEFAULT_SAMPLE_LIMIT;
+  const { policies, invalid } = await loadRetentionPolicies(env.DB);
+  const report: RetentionReport = {
+    dry_run: options.dryRun,
+    policies_evaluated: policies.length,
+    invalid_policies: invalid,
+    outcomes: [],
+    neural_snapshots: { objects_scanned: 0, listing_complete: false }
+  };
+
+  for (const target of RETENTION_TARGETS) {
+    for (const policy of policies.filter(candidate => candidate.data_class === target.dataClass)) {
+      report.outcomes.push(await enforceOnTable(env, target, policy, policies, options.dryRun, sampleLimit));
+    }
+  }
+
+  if (policies.some(policy => policy.data_class === 'neural_snapshot')) {
+    await enforceOnNeuralSnapshots(env, report, policies, options.dryRun, sampleLimit);
+  }
+
+  return report;
+}
+
+/**
+ * Rows the policy covers: past its retention, matching its keys, and not claimed by a more
+ * specific overlapping policy. IS rather than = keeps rows with a NULL country comparable.
+ */
+function policyCondition(target: RetentionTarget, policy: RetentionPolicy, policies: RetentionPolicy[]): { clause: string; params: string[] } {
+  const match = (candidate: RetentionPolicy) => {
+    const parts: string[] = [];
+    const params: string[] = [];
+    if (candidate.country_code !== '*') {
+      parts.push(`${target.country} IS ?`);
+      params.push(candidate.country_code);
+    }
+    if (candidate.document_type !== '*' && target.documentType) {
+      parts.push(`${target.documentType} IS ?`);
+      params.push(candidate.document_type);
+    }
+    return { clause: parts.join(' AND ') || '1 = 1', params };
+  };
+
+  const own = match(policy);
+  const clauses = [target.pending, `${target.age} < datetime('now', ?)`, own.clause];
+  const params = [`-${policy.retention_days} days`, ...own.params];
+
+  for (const other of policies) {
+    if (other.data_class === policy.data_class && specificity(other) > specificity(policy) && overlaps(other, policy)) {
+      const excluded = match(other);
+      clauses.push(`NOT (${excluded.clause})`);
+      params.push(...excluded.params);
+    }
+  }
+
+  return { clause: clauses.join(' AND '), params };
+}
+
+async function enforceOnTable(
+  env: RetentionEnv,
+  target: RetentionTarget,
+  policy: RetentionPolicy,
+  policies: RetentionPolicy[],
+  dryRun: boolean,
+  sampleLimit: number
+): Promise<RetentionOutcome> {
+  const condition = policyCondition(target, policy, policies);
+  const outcome = newOutcome(policy, target.table);
+
+  const count = await env.DB.prepare(`
+    SELECT COUNT(*) AS total FROM ${target.from} WHERE ${condition.clause}
+  `).bind(...condition.params).first<{ total: number }>();
+  outcome.eligible = count?.total ?? 0;
+  if (outcome.eligible === 0) {
+    return outcome;
+  }
+
+  const rows = await env.DB.prepare(`
+    SELECT t.id AS id, ${target.label} AS label${target.dataClass === 'document' ? ', t.storage_path AS storage_path' : ''}
+    FROM ${target.from}
+    WHERE ${condition.clause}
+    ORDER BY ${target.age} ASC
+    LIMIT ?
+  `).bind(...condition.params, dryRun ? sampleLimit : MAX_ROWS_PER_POLICY)
+    .all<{ id: number; label: string | null; storage_path?: string }>();
+
+  const selected = rows.results || [];
+  outcome.sample = selected.slice(0, sampleLimit).map(row => row.label ?? String(row.id));
+  if (dryRun) {
+    return outcome;
+  }
+
+  if (target.dataClass === 'document') {
+    await applyDocumentAction(env, policy.action, selected as Array<{ id: number; storage_path: string }>);
+  } else {
+    await applyRowAction(env, target, policy.action, selected.map(row => row.id));
+  }
+  outcome.applied = selected.length;
+  return outcome;
+}
+
+async function applyDocumentAction(env: RetentionEnv, action: RetentionAction, rows: Array<{ id: number; storage_path: string }>): Promise<void> {
+  if (action === 'archive') {
+    for (const row of rows) {
+      const archivedPath = archiveKey(row.storage_path);
+      if (await moveObject(env.DOCUMENTS, row.storage_path, archivedPath)) {
+        await env.DB.prepare(`
+          UPDATE document_storage SET storage_path = ?, upload_status = 'archived', updated_at = datetime('now')
+          WHERE id = ?
+        `).bind(archivedPath, row.id).run();
+      } else {
+        // Already gone from R2; reconciliation would mark it missing anyway
+        await env.DB.prepare(`
+          UPDATE document_storage SET upload_status = 'missing', updated_at = datetime('now') WHERE id = ?
+        `).bind(row.id).run();
+      }
+    }
+    return;
+  }
+
+  await env.DOCUMENTS.delete(rows.map(row => row.storage_path));
+  // Anonymized rows keep type, size and country for analytics but lose the uploaded file name
+  const update = action === 'anonymize'
+    ? "upload_status = 'anonymized', file_name = 'redacted'"
+    : "upload_status = 'deleted'";
+  for (const ids of chunk(rows.map(row => row.id), D1_PARAM_CHUNK)) {
+    await env.DB.prepare(`
+      UPDATE document_storage SET ${update}, updated_at = datetime('now')
+      WHERE id IN (${ids.map(() => '?').join(', ')})
+    `).bind(...ids).run();
+  }
+}
+
+async function applyRowAction(env: RetentionEnv, target: RetentionTarget, action: RetentionAction, ids: number[]): Promise<void> {
+  for (const batch of chunk(ids, D1_PARAM_CHUNK)) {
+    const placeholders = batch.map(() => '?').join(', ');
+
+    if (action === 'anonymize') {
+      await env.DB.prepare(`
+        UPDATE ${target.table} SET ${target.anonymize}, anonymized_at = datetime('now')
+        WHERE id IN (${placeholders})
+      `).bind(...batch).run();
+      continue;
+    }
+
+    if (action === 'archive') {
+      const rows = await env.DB.prepare(`SELECT * FROM ${target.table} WHERE id IN (${placeholders})`).bind(...batch).all();
+      await env.NEURAL_DATA.put(
+        `${RETENTION_ARCHIVE_PREFIX}${target.table}/${new Date().toISOString().replace(/[:.]/g, '-')}-${batch[0]}.json`,
+        JSON.stringify(rows.results || []),
+        { httpMetadata: { contentType: 'application/json' }, storageClass: 'InfrequentAccess' }
+      );
+    }
+
+    await env.DB.prepare(`DELETE FROM ${target.table} WHERE id IN (${placeholders})`).bind(...batch).run();
+  }
+}
+
+/**
+ * Snapshots carry no country of their own; it comes from the session named by the key. A
+ * dry run lists from the start of the bucket, while enforcement resumes from a CACHE cursor.
+ */
+async function enforceOnNeuralSnapshots(
+  env: RetentionEnv,
+  report: RetentionReport,
+  policies: RetentionPolicy[],
+  dryRun: boolean,
+  sampleLimit: number
+): Promise<void> {
+  const outcomes = new Map<number, RetentionOutcome>();
+  const resumedFrom = dryRun ? undefined : await env.CACHE.get(NEURAL_DATA_CURSOR_KEY) || undefined;
+  let cursor = resumedFrom;
+
+  do {
+    const listing = await env.NEURAL_DATA.list({ cursor, limit: 1000 });
+    report.neural_snapshots.objects_scanned += listing.objects.length;
+
+    const snapshots = listing.objects
+      .map(object => ({ object, match: NEURAL_SNAPSHOT_KEY.exec(object.key) }))
+      .filter((entry): entry is { object: R2Object; match: RegExpExecArray } => entry.match !== null);
+    const countries = await sessionCountries(env.DB, [...new Set(snapshots.map(entry => entry.match[2]))]);
+
+    const expired = new Map<number, string[]>();
+    for (const { object, match } of snapshots) {
+      const policy = resolveRetentionPolicy(policies, 'neural_snapshot', countries.get(match[2]) ?? null);
+      if (!policy || Date.now() - new Date(object.uploaded).getTime() < policy.retention_days * 24 * 60 * 60 * 1000) {
+        continue;
+      }
+      const keys = expired.get(policy.id) || [];
+      keys.push(object.key);
+      expired.set(policy.id, keys);
+    }
+
+    for (const [policyId, keys] of expired) {
+      const policy = policies.find(candidate => candidate.id === policyId)!;
+      const outcome = outcomes.get(policyId) || newOutcome(policy, 'NEURAL_DATA');
+      outcomes.set(policyId, outcome);
+      outcome.eligible += keys.length;
+      outcome.sample.push(...keys.slice(0, Math.max(sampleLimit - outcome.sample.length, 0)));
+      if (dryRun) {
+        continue;
+      }
+
+      if (policy.action === 'archive') {
+        for (const key of keys) {
+          await moveObject(env.NEURAL_DATA, key, archiveKey(key));
+        }
+      } else {
+        await env.NEURAL_DATA.delete(keys);
+      }
+      outcome.applied += keys.length;
+    }
+
+    cursor = listing.truncated ? listing.cursor : undefined;
+  } while (cursor && report.neural_snapshots.objects_scanned < MAX_OBJECTS_PER_RUN);
+
+  if (!dryRun) {
+    if (cursor) {
+      await env.CACHE.put(NEURAL_DATA_CURSOR_KEY, cursor, { expirationTtl: 7 * 24 * 60 * 60 });
+    } else {
+      await env.CACHE.delete(NEURAL_DATA_CURSOR_KEY);
+    }
+  }
+  report.neural_snapshots.listing_complete = !resumedFrom && !cursor;
+  report.outcomes.push(...outcomes.values());
+}
+
+async function sessionCountries(db: D1Database, sessionOids: string[]): Promise<Map<string, string | null>> {
+  const countries = new Map<string, string | null>();
+  for (const oids of chunk(sessionOids, D1_PARAM_CHUNK)) {
+    const rows = await db.prepare(`
+      SELECT session_oid, country_context FROM verification_sessions
+      WHERE session_oid IN (${oids.map(() => '?').join(', ')})
+    `).bind(...oids).all<{ session_oid: string; country_context: string | null }>();
+    for (const row of rows.results || []) {
+      countries.set(row.session_oid, row.country_context);
+    }
+  }
+  return countries;
+}
+
+// Archived objects stay behind their tenant prefix and move to the cheaper storage class
+function archiveKey(key: string): string {
+  return key.replace(/^(tenants\/[^/]+\/)?/, `$1${RETENTION_ARCHIVE_PREFIX}`);
+}
+
+async function moveObject(bucket: R2Bucket, from: string, to: string): Promise<boolean> {
+  const object = await bucket.get(from);
+  if (!object || !object.body) {
+    return false;
+  }
+  await bucket.put(to, object.body, {
+    httpMetadata: object.httpMetadata,
+    customMetadata: object.customMetadata,
+    storageClass: 'InfrequentAccess'
+  });
+  await bucket.delete(from);
+  return true;
+}
+
+function newOutcome(policy: RetentionPolicy, target: string): RetentionOutcome {
+  return {
+    policy_id: policy.id,
+    data_class: policy.data_class,
+    target,
+    country_code: policy.country_code,
+    document_type: policy.document_type,
+    action: policy.action,
+    retention_days: policy.retention_days,
+    eligible: 0,
+    applied: 0,
+    sample: []
+  };
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
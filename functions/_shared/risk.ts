@@ -0,0 +1,127 @@
+// BrainSAIT IOD Shared - Server-side Risk Scoring
+// OID: 1.3.6.1.4.1.61026.4.1 (Security Service)
+
+import type { NetworkAssessment } from './network';
+
+export interface RiskSignal {
+  code: string;
+  weight: number;
+  detail?: string;
+}
+
+export interface RiskAssessment {
+  riskScore: number;
+  threshold: number;
+  blocked: boolean;
+  signals: RiskSignal[];
+  reason?: {
+    code: string;
+    message: string;
+  };
+}
+
+export interface RiskInput {
+  ipAddress?: string | null;
+  deviceFingerprint?: string | null;
+  userAgent?: string | null;
+  cf?: IncomingRequestCfProperties;
+  network?: NetworkAssessment;
+}
+
+interface AttemptCounter {
+  count: number;
+  first_at: number;
+  last_at: number;
+}
+
+export const DEFAULT_RISK_THRESHOLD = 70;
+
+const ATTEMPT_WINDOW_SECONDS = 3600;
+const MAX_ATTEMPTS_PER_WINDOW = 3;
+const RAPID_ATTEMPT_MS = 5000;
+const AUTOMATION_USER_AGENT = /HeadlessChrome|PhantomJS|Selenium|puppeteer|playwright|curl\/|python-requests|wget/i;
+
+export function resolveRiskThreshold(value?: string): number {
+  const threshold = Number.parseInt(value || '', 10);
+  return Number.isFinite(threshold) && threshold > 0 ? threshold : DEFAULT_RISK_THRESHOLD;
+}
+
+// Scores a verification request from KV-backed attempt counters and Cloudflare request
+// metadata. Counters are bumped as a side effect, so call this once per request.
+export async function assessVerificationRisk(kv: KVNamespace, input: RiskInput, threshold: number): Promise<RiskAssessment> {
+  const signals: RiskSignal[] = [];
+  const now = Date.now();
+
+  const ipCounter = input.ipAddress ? await recordAttempt(kv, `risk_ip_${input.ipAddress}`, now) : null;
+  const fingerprintCounter = input.deviceFingerprint ? await recordAttempt(kv, `risk_fp_${input.deviceFingerprint}`, now) : null;
+
+  if (ipCounter && ipCounter.current.count > MAX_ATTEMPTS_PER_WINDOW) {
+    signals.push({ code: 'excessive_ip_attempts', weight: 50, detail: `${ipCounter.current.count} attempts in the last hour` });
+  }
+
+  if (fingerprintCounter && fingerprintCounter.current.count > MAX_ATTEMPTS_PER_WINDOW) {
+    signals.push({ code: 'excessive_device_attempts', weight: 50, detail: `${fingerprintCounter.current.count} attempts in the last hour` });
+  }
+
+  const previousAttempt = Math.max(ipCounter?.previousAt ?? 0, fingerprintCounter?.previousAt ?? 0);
+  if (previousAttempt && now - previousAttempt < RAPID_ATTEMPT_MS) {
+    signals.push({ code: 'rapid_successive_attempts', weight: 30 });
+  }
+
+  if (!input.deviceFingerprint) {
+    signals.push({ code: 'missing_device_fingerprint', weight: 20 });
+  }
+
+  if (!input.userAgent || AUTOMATION_USER_AGENT.test(input.userAgent)) {
+    signals.push({ code: 'automation_user_agent', weight: 40, detail: input.userAgent || 'absent' });
+  }
+
+  if (input.cf?.country === 'T1') {
+    signals.push({ code: 'tor_exit_node', weight: 40 });
+  }
+
+  const mismatch = input.network?.locationMismatch;
+  if (mismatch) {
+    signals.push({ code: 'country_mismatch', weight: 20, detail: `declared ${mismatch.declared_country}, request from ${mismatch.request_country}` });
+  }
+
+  const anonymizer = input.network?.anonymizer;
+  if (anonymizer) {
+    signals.push({ code: 'hosting_provider_network', weight: 25, detail: `${anonymizer.provider} (${anonymizer.matched})` });
+  }
+
+  const riskScore = Math.min(signals.reduce((sum, signal) => sum + signal.weight, 0), 100);
+  const blocked = riskScore >= threshold;
+
+  return {
+    riskScore,
+    threshold,
+    blocked,
+    signals,
+    reason: blocked ? getRiskReason(riskScore, signals) : undefined
+  };
+}
+
+async function recordAttempt(kv: KVNamespace, key: string, now: number): Promise<{ current: AttemptCounter; previousAt: number | null }> {
+  const existing = await kv.get<AttemptCounter>(key, { type: 'json' });
+  const current: AttemptCounter = existing
+    ? { count: existing.count + 1, first_at: existing.first_at, last_at: now }
+    : { count: 1, first_at: now, last_at: now };
+
+  // Keep the window anchored to the first attempt so bursts cannot extend it forever
+  const remaining = Math.ceil((current.first_at + ATTEMPT_WINDOW_SECONDS * 1000 - now) / 1000);
+  await kv.put(key, JSON.stringify(current), { expirationTtl: Math.max(remaining, 60) });
+
+  return { current, previousAt: existing?.last_at ?? null };
+}
+
+function getRiskReason(riskScore: number, signals: RiskSignal[]): { code: string; message: string } {
+  const strongest = [...signals].sort((a, b) => b.weight - a.weight)[0];
+  const code = strongest?.code || 'risk_threshold_exceeded';
+
+  if (riskScore >= 90) return { code, message: 'High fraud risk detected' };
+  if (code === 'excessive_ip_attempts' || code === 'excessive_device_attempts') {
+    return { code, message: 'Multiple failed attempts' };
+  }
+  return { code, message: 'Suspicious activity patterns' };
+}
@@ -0,0 +1,214 @@
+// BrainSAIT IOD Shared - Verification Session Lifecycle
+// OID: 1.3.6.1.4.1.61026.6.2 (Session Status API)
+
+import { TenantScope, tenantFilter, tenantKey, tenantObjectKey } from './tenancy';
+import { DocumentUploadRow, releaseUpload } from './document-uploads';
+import { sha256Hex, timingSafeEqual } from './encoding';
+
+export interface SessionCacheEnv {
+  SESSIONS: KVNamespace;
+  CACHE: KVNamespace;
+}
+
+export interface SessionRedactionEnv {
+  DB: D1Database;
+  DOCUMENTS: R2Bucket;
+  NEURAL_CONTEXT: KVNamespace;
+  NEURAL_DATA: R2Bucket;
+}
+
+export interface VerificationSessionRow {
+  id: number;
+  session_oid: string;
+  user_id: number | null;
+  stripe_session_id: string;
+  session_status: string;
+  country_context: string | null;
+  attempt_count: number | null;
+  max_attempts: number | null;
+  expires_at: string | null;
+  session_data: string | null;
+  tenant_id: string | null;
+  parent_session_oid: string | null;
+}
+
+// Sessions outside the caller's tenant scope are reported as missing, like every other lookup
+export async function findScopedSession(db: D1Database, stripeSessionId: string, scope: TenantScope): Promise<VerificationSessionRow | null> {
+  const tenant = tenantFilter(scope, 'tenant_id');
+  return db.prepare(`
+    SELECT * FROM verification_sessions
+    WHERE stripe_session_id = ? AND ${tenant.clause}
+  `).bind(stripeSessionId, ...tenant.params).first<VerificationSessionRow>();
+}
+
+// Carries the audit token issued at creation, which the subject's browser presents in place of a credential
+export const AUDIT_TOKEN_HEADER = 'X-Audit-Token';
+
+// The token is bound to one session, so the lookup is not tenant-scoped
+export async function findSessionByAuditToken(db: D1Database, stripeSessionId: string, token: string | null): Promise<VerificationSessionRow | null> {
+  if (!token) {
+    return null;
+  }
+  const session = await db.prepare(`
+    SELECT * FROM verification_sessions WHERE stripe_session_id = ?
+  `).bind(stripeSessionId).first<VerificationSessionRow & { audit_token_hash: string | null }>();
+  if (!session?.audit_token_hash || !timingSafeEqual(await sha256Hex(token), session.audit_token_hash)) {
+    return null;
+  }
+  return session;
+}
+
+// Stripe metadata the server sets itself; the webhook and status handler trust these keys
+const RESERVED_METADATA_KEYS = ['brainsait_oid', 'country_code', 'neural_integration', 'tenant_id', 'parent_session_oid'];
+
+// Form params for caller-supplied Stripe metadata, without the reserved keys
+export function callerMetadataParams(metadata: Record<string, unknown> | null | undefined): Record<string, string> {
+  return Object.fromEntries(Object.entries(metadata || {})
+    .filter(([key]) => !RESERVED_METADATA_KEYS.includes(key))
+    .map(([key, value]) => [`metadata[${key}]`, String(value)]));
+}
+
+// Concurrent calls with the same idempotency key get Stripe's first answer instead of a second session
+export async function stripeIdentityRequest(
+  secretKey: string,
+  path: string,
+  params?: Record<string, string>,
+  idempotencyKey?: string
+): Promise<Response> {
+  return fetch(`https://api.stripe.com/v1/identity/verification_sessions${path}`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${secretKey}`,
+      'Content-Type': 'application/x-www-form-urlencoded',
+      ...(idempotencyKey && { 'Idempotency-Key': idempotencyKey })
+    },
+    body: new URLSearchParams(params || {})
+  });
+}
+
+/**
+ * Stripe has erased, or been asked to erase, the identity data; drop our copies of everything the
+ * session collected. The session's regional identity, documents and neural context go at once. A
+ * users row shared with another live session (a merged subject or a re-issued attempt) is left
+ * alone so redacting one session does not anonymize the others.
+ */
+export async function redactSession(env: SessionRedactionEnv, session: {
+  session_oid: string;
+  stripe_session_id: string;
+  user_id: number | null;
+  tenant_id: string | null;
+}): Promise<void> {
+  // The row created for this session keeps its stripe_verification_id even after a merge moved the session
+  const ownUser = await env.DB.prepare(`
+    SELECT id FROM users WHERE stripe_verification_id = ?
+  `).bind(session.stripe_session_id).first<{ id: number }>();
+  const userIds = [...new Set([session.user_id, ownUser?.id].filter((id): id is number => typeof id === 'number'))];
+
+  for (const userId of userIds) {
+    const shared = await env.DB.prepare(`
+      SELECT 1 FROM verification_sessions
+      WHERE user_id = ? AND stripe_session_id != ? AND session_status != 'redacted'
+      LIMIT 1
+    `).bind(userId, session.stripe_session_id).first();
+    if (!shared) {
+      await redactSessionUser(env.DB, userId);
+    }
+  }
+
+  const uploads = await env.DB.prepare(`
+    SELECT * FROM document_uploads WHERE session_oid = ? AND upload_status = 'uploading'
+  `).bind(session.session_oid).all<DocumentUploadRow>();
+  for (const upload of uploads.results || []) {
+    await releaseUpload(env, upload);
+    await env.DB.prepare(`
+      UPDATE document_uploads SET upload_status = 'aborted', updated_at = datetime('now') WHERE upload_id = ?
+    `).bind(upload.upload_id).run();
+  }
+
+  const documents = await env.DB.prepare(`
+    SELECT id, storage_path FROM document_storage
+    WHERE session_oid = ? AND upload_status NOT IN ('deleted', 'anonymized')
+  `).bind(session.session_oid).all<{ id: number; storage_path: string }>();
+  for (const document of documents.results || []) {
+    await env.DOCUMENTS.delete(document.storage_path);
+    await env.DB.prepare(`
+      UPDATE document_storage SET upload_status = 'deleted', file_name = 'redacted', updated_at = datetime('now') WHERE id = ?
+    `).bind(document.id).run();
+  }
+
+  await env.DB.prepare('DELETE FROM neural_context WHERE session_oid = ?').bind(session.session_oid).run();
+  await env.NEURAL_CONTEXT.delete(tenantKey(session.tenant_id, session.session_oid));
+
+  const neuralPrefix = tenantObjectKey(session.tenant_id, `${session.session_oid}/`);
+  let cursor: string | undefined;
+  do {
+    const listing = await env.NEURAL_DATA.list({ prefix: neuralPrefix, cursor });
+    if (listing.objects.length > 0) {
+      await env.NEURAL_DATA.delete(listing.objects.map(object => object.key));
+    }
+    cursor = listing.truncated ? listing.cursor : undefined;
+  } while (cursor);
+}
+
+// Personal fields of the users row and its regional identity rows
+async function redactSessionUser(db: D1Database, userId: number): Promise<void> {
+  await db.prepare(`
+    UPDATE users
+    SET email = NULL, ip_address = NULL, user_agent = NULL, device_fingerprint = NULL, metadata = NULL,
+        verification_status = 'redacted', anonymized_at = datetime('now'), updated_at = datetime('now')
+    WHERE id = ?
+  `).bind(userId).run();
+  await db.prepare(`
+    UPDATE saudi_healthcare
+    SET nphies_id = 'anonymized', practitioner_id = NULL, practitioner_name_ar = NULL, practitioner_name_en = NULL,
+        coverage_details = NULL, anonymized_at = datetime('now')
+    WHERE user_id = ?
+  `).bind(userId).run();
+  await db.prepare(`
+    UPDATE sudan_national_id
+    SET national_id = 'anonymized', citizen_name_ar = NULL, citizen_name_en = NULL, ministry_access = NULL,
+        service_eligibility = NULL, anonymized_at = datetime('now')
+    WHERE user_id = ?
+  `).bind(userId).run();
+}
+
+export async function refreshSessionCaches(env: SessionCacheEnv, stripeSession: any, sessionStatus: string, tenantId: string | null) {
+  const sessionKey = tenantKey(tenantId, stripeSession.id);
+  const responseKey = tenantKey(tenantId, `session_${stripeSession.id}`);
+
+  const cachedSession = await env.SESSIONS.get(sessionKey);
+  const sessionData = cachedSession ? JSON.parse(cachedSession) : {
+    session_oid: stripeSession.metadata?.brainsait_oid,
+    country_code: stripeSession.metadata?.country_code,
+    type: stripeSession.type
+  };
+
+  await env.SESSIONS.put(sessionKey, JSON.stringify({
+    ...sessionData,
+    status: sessionStatus,
+    updated_at: new Date().toISOString()
+  }), { expirationTtl: 86400 });
+
+  // A redacted session must not keep serving the verification report from cache
+  if (sessionStatus === 'redacted') {
+    await env.CACHE.delete(responseKey);
+    return;
+  }
+
+  // Patch the cached status response in place so readers do not wait for its TTL
+  const cachedResponse = await env.CACHE.get(responseKey);
+  if (cachedResponse) {
+    const response = JSON.parse(cachedResponse);
+    response.stripe_session = stripeSession;
+    response.verification_status = {
+      status: sessionStatus,
+      verified: sessionStatus === 'verified',
+      requires_input: sessionStatus === 'requires_input',
+      processing: sessionStatus === 'processing',
+      last_error: stripeSession.last_error,
+      verification_report: stripeSession.last_verification_report
+    };
+
+    await env.CACHE.put(responseKey, JSON.stringify(response), { expirationTtl: 300 });
+  }
+}
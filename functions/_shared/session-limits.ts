@@ -0,0 +1,107 @@
+// BrainSAIT IOD Shared - Verification Attempt Limits
+// OID: 1.3.6.1.4.1.61026.4.1.7 (Attempt Limits)
+
+export const DEFAULT_MAX_ATTEMPTS = 3;
+const ATTEMPT_WINDOW_HOURS = 24;
+
+// Statuses after which a session no longer counts as in progress, whatever its expires_at
+const SETTLED_STATUSES = ['verified', 'canceled', 'redacted'];
+
+export interface AttemptSubject {
+  tenantId: string | null;
+  countryCode: string;
+  nphiesId?: string | null;
+  sudanNationalId?: string | null;
+  deviceFingerprint?: string | null;
+}
+
+export interface AttemptStatus {
+  subject: 'nphies_id' | 'sudan_national_id' | 'device_fingerprint';
+  attempts: number;
+  maxAttempts: number;
+  exceeded: boolean;
+  retryAfter: number;
+  lastUserId: number | null;
+}
+
+/**
+ * Counts the subject's unverified sessions in the trailing window. The subject is the declared
+ * national identifier, falling back to the device fingerprint; with neither there is nothing to
+ * count against and null is returned.
+ */
+export async function checkSubjectAttempts(db: D1Database, subject: AttemptSubject): Promise<AttemptStatus | null> {
+  let kind: AttemptStatus['subject'];
+  let clause: string;
+  let value: string;
+
+  if (subject.countryCode === 'SA' && subject.nphiesId) {
+    kind = 'nphies_id';
+    clause = 'vs.user_id IN (SELECT user_id FROM saudi_healthcare WHERE nphies_id = ?)';
+    value = subject.nphiesId;
+  } else if (subject.countryCode === 'SD' && subject.sudanNationalId) {
+    kind = 'sudan_national_id';
+    clause = 'vs.user_id IN (SELECT user_id FROM sudan_national_id WHERE national_id = ?)';
+    value = subject.sudanNationalId;
+  } else if (subject.deviceFingerprint) {
+    kind = 'device_fingerprint';
+    clause = 'vs.user_id IN (SELECT id FROM users WHERE device_fingerprint = ?)';
+    value = subject.deviceFingerprint;
+  } else {
+    return null;
+  }
+
+  const rows = await db.prepare(`
+    SELECT vs.user_id, vs.max_attempts, vs.created_at
+    FROM verification_sessions vs
+    WHERE ${clause}
+      AND vs.tenant_id IS ?
+      AND vs.session_status != 'verified'
+      AND vs.created_at > datetime('now', '-${ATTEMPT_WINDOW_HOURS} hours')
+    ORDER BY vs.created_at DESC
+    LIMIT 100
+  `).bind(value, subject.tenantId).all<{ user_id: number | null; max_attempts: number | null; created_at: string }>();
+
+  const sessions = rows.results || [];
+  // The newest session carries the limit, so an operator can raise it for one subject
+  const maxAttempts = sessions[0]?.max_attempts ?? DEFAULT_MAX_ATTEMPTS;
+  const exceeded = sessions.length >= maxAttempts;
+
+  // A slot frees up once the maxAttempts-th newest session leaves the window
+  let retryAfter = 0;
+  if (exceeded) {
+    const freesAt = parseSqliteDate(sessions[maxAttempts - 1].created_at) + ATTEMPT_WINDOW_HOURS * 3600 * 1000;
+    retryAfter = Math.max(Math.ceil((freesAt - Date.now()) / 1000), 1);
+  }
+
+  return {
+    subject: kind,
+    attempts: sessions.length,
+    maxAttempts,
+    exceeded,
+    retryAfter,
+    lastUserId: sessions[0]?.user_id ?? null
+  };
+}
+
+export function isSessionExpired(session: { expires_at?: string | null; session_status?: string | null }): boolean {
+  if (session.session_status === 'expired') {
+    return true;
+  }
+  if (!session.expires_at || SETTLED_STATUSES.includes(session.session_status || '')) {
+    return false;
+  }
+  return parseSqliteDate(session.expires_at) <= Date.now();
+}
+
+// Marks the row so analytics and later lookups see the expiry without re-evaluating it
+export async function markSessionExpired(db: D1Database, sessionOid: string): Promise<void> {
+  await db.prepare(`
+    UPDATE verification_sessions SET session_status = 'expired'
+    WHERE session_oid = ? AND session_status NOT IN ('verified', 'canceled', 'redacted', 'expired')
+  `).bind(sessionOid).run();
+}
+
+// D1 datetime() values are UTC without a zone designator
+function parseSqliteDate(value: string): number {
+  return Date.parse(value.includes('T') ? value : `${value.replace(' ', 'T')}Z`);
+}
@@ -0,0 +1,50 @@
+// BrainSAIT IOD Shared - Tenant Isolation
+// OID: 1.3.6.1.4.1.61026.4.5 (Tenant Isolation)
+
+import type { ApiKeyRecord } from './api-keys';
+import type { OperatorSession } from './operator-auth';
+
+// tenantId null is the first-party BrainSAIT tenant, whose rows and storage keys predate
+// multi-tenancy and stay unprefixed. allTenants is reserved for platform operators whose
+// token carries no tenant_id claim.
+export interface TenantScope {
+  tenantId: string | null;
+  allTenants: boolean;
+}
+
+export function resolveTenantScope(apiKey: ApiKeyRecord | null, operator: OperatorSession | null): TenantScope {
+  if (apiKey) {
+    return { tenantId: apiKey.tenant_id, allTenants: false };
+  }
+  if (operator) {
+    return { tenantId: operator.tenant_id, allTenants: operator.tenant_id === null };
+  }
+  return { tenantId: null, allTenants: false };
+}
+
+// SQL condition restricting a tenant_id column to the scope; IS matches the NULL first-party tenant
+export function tenantFilter(scope: TenantScope, column: string): { clause: string; params: Array<string | null> } {
+  if (scope.allTenants) {
+    return { clause: '1 = 1', params: [] };
+  }
+  return { clause: `${column} IS ?`, params: [scope.tenantId] };
+}
+
+export function canAccessTenant(scope: TenantScope, tenantId: string | null | undefined): boolean {
+  return scope.allTenants || scope.tenantId === (tenantId ?? null);
+}
+
+// KV key for SESSIONS, CACHE and NEURAL_CONTEXT entries owned by a tenant
+export function tenantKey(tenantId: string | null | undefined, key: string): string {
+  return tenantId ? `tenant:${tenantId}:${key}` : key;
+}
+
+// R2 object key for DOCUMENTS and NEURAL_DATA objects owned by a tenant
+export function tenantObjectKey(tenantId: string | null | undefined, path: string): string {
+  return tenantId ? `tenants/${tenantId}/${path}` : path;
+}
+
+// Cache key for responses computed over the scope; cross-tenant results never share an entry with one tenant's
+export function scopeCacheKey(scope: TenantScope, key: string): string {
+  return scope.allTenants ? `tenant:*:${key}` : tenantKey(scope.tenantId, key);
+}
@@ -0,0 +1,176 @@
+// BrainSAIT IOD Shared - Verification User Records
+// OID: 1.3.6.1.4.1.61026.5.1 (Users Table)
+
+export type CountryCode = 'SA' | 'SD' | 'US';
+
+export function countryOidArc(countryCode?: string | null): string {
+  return countryCode === 'SA' ? '682' : countryCode === 'SD' ? '729' : '840';
+}
+
+// Maps a Stripe Identity session status onto the users.verification_status vocabulary
+export function toUserVerificationStatus(stripeStatus: string): string {
+  switch (stripeStatus) {
+    case 'verified':
+      return 'verified';
+    case 'requires_input':
+      return 'requires_input';
+    case 'canceled':
+      return 'canceled';
+    case 'redacted':
+      return 'redacted';
+    default:
+      return 'pending';
+  }
+}
+
+interface VerificationUserInput {
+  oidRoot: string;
+  stripeVerificationId: string;
+  countryCode?: string | null;
+  verificationType?: string | null;
+  verificationStatus: string;
+  tenantId?: string | null;
+}
+
+// Returns the users row linked to a Stripe verification session, creating it on first sight.
+// A verified user stays verified; redaction anonymizes the row instead (see redactSession).
+export async function upsertVerificationUser(db: D1Database, input: VerificationUserInput): Promise<{ id: number; oid: string }> {
+  const existing = await db.prepare(`
+    SELECT u.id, u.oid FROM users u
+    LEFT JOIN verification_sessions vs ON vs.user_id = u.id
+    WHERE vs.stripe_session_id = ? OR u.stripe_verification_id = ?
+    ORDER BY vs.stripe_session_id IS ? DESC
+    LIMIT 1
+  `).bind(input.stripeVerificationId, input.stripeVerificationId, input.stripeVerificationId).first<{ id: number; oid: string }>();
+
+  if (existing) {
+    await db.prepare(`
+      UPDATE users
+      SET verification_status = CASE WHEN verification_status = 'verified' THEN 'verified' ELSE ? END,
+          verified_at = CASE WHEN ? = 'verified' THEN COALESCE(verified_at, datetime('now')) ELSE verified_at END,
+          updated_at = datetime('now')
+      WHERE id = ?
+    `).bind(input.verificationStatus, input.verificationStatus, existing.id).run();
+
+    return existing;
+  }
+
+  return insertUser(db, input.oidRoot, {
+    stripeVerificationId: input.stripeVerificationId,
+    countryCode: input.countryCode || 'US',
+    verificationType: input.verificationType || 'document',
+    verificationStatus: input.verificationStatus,
+    tenantId: input.tenantId
+  });
+}
+
+interface SessionUserInput {
+  oidRoot: string;
+  stripeVerificationId: string;
+  countryCode: string;
+  verificationType: string;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+  deviceFingerprint?: string | null;
+  riskScore: number;
+  tenantId?: string | null;
+}
+
+// Every new verification session gets its own users row. A declared NPHIES ID or Sudan
+// national ID is not proof of identity, so subjects are only merged once Stripe has
+// verified them (see mergeVerifiedUser).
+export async function createSessionUser(db: D1Database, input: SessionUserInput): Promise<{ id: number; oid: string }> {
+  // An idempotent retry that Stripe answered with the same session already has its row
+  const replayed = await db.prepare(`
+    SELECT id, oid FROM users WHERE stripe_verification_id = ? AND tenant_id IS ?
+  `).bind(input.stripeVerificationId, input.tenantId ?? null).first<{ id: number; oid: string }>();
+  if (replayed) {
+    return replayed;
+  }
+
+  return insertUser(db, input.oidRoot, {
+    stripeVerificationId: input.stripeVerificationId,
+    countryCode: input.countryCode,
+    verificationType: input.verificationType,
+    verificationStatus: 'pending',
+    ipAddress: input.ipAddress,
+    userAgent: input.userAgent,
+    deviceFingerprint: input.deviceFingerprint,
+    riskScore: input.riskScore,
+    tenantId: input.tenantId
+  });
+}
+
+// Called once Stripe reports the user verified. If an earlier verified subject in the same
+// tenant holds the same NPHIES ID or Sudan national ID, the session moves to that subject.
+// Unverified rows are never merged.
+export async function mergeVerifiedUser(
+  db: D1Database,
+  user: { id: number; oid: string },
+  stripeVerificationId: string,
+  tenantId: string | null
+): Promise<{ id: number; oid: string }> {
+  const canonical = await db.prepare(`
+    SELECT u.id, u.oid FROM users u
+    WHERE u.id != ? AND u.tenant_id IS ? AND u.verification_status = 'verified'
+      AND (
+        u.id IN (
+          SELECT sh.user_id FROM saudi_healthcare sh
+          WHERE sh.nphies_id IN (SELECT nphies_id FROM saudi_healthcare WHERE user_id = ?)
+        )
+        OR u.id IN (
+          SELECT sn.user_id FROM sudan_national_id sn
+          WHERE sn.national_id IN (SELECT national_id FROM sudan_national_id WHERE user_id = ?)
+        )
+      )
+    ORDER BY u.id ASC
+    LIMIT 1
+  `).bind(user.id, tenantId, user.id, user.id).first<{ id: number; oid: string }>();
+
+  if (!canonical) {
+    return user;
+  }
+
+  await db.prepare(`
+    UPDATE verification_sessions SET user_id = ? WHERE user_id = ? OR stripe_session_id = ?
+  `).bind(canonical.id, user.id, stripeVerificationId).run();
+  await db.prepare(`
+    UPDATE users SET updated_at = datetime('now') WHERE id = ?
+  `).bind(canonical.id).run();
+
+  return canonical;
+}
+
+async function insertUser(db: D1Database, oidRoot: string, fields: {
+  stripeVerificationId: string;
+  countryCode: string;
+  verificationType: string;
+  verificationStatus: string;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+  deviceFingerprint?: string | null;
+  riskScore?: number;
+  tenantId?: string | null;
+}): Promise<{ id: number; oid: string }> {
+  const userOid = `${oidRoot}.7.${countryOidArc(fields.countryCode)}.${Date.now()}`;
+
+  const result = await db.prepare(`
+    INSERT INTO users
+    (oid, stripe_verification_id, country_code, verification_type, verification_status, ip_address, user_agent, device_fingerprint, risk_score, tenant_id, verified_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CASE WHEN ? = 'verified' THEN datetime('now') ELSE NULL END)
+  `).bind(
+    userOid,
+    fields.stripeVerificationId,
+    fields.countryCode,
+    fields.verificationType,
+    fields.verificationStatus,
+    fields.ipAddress ?? null,
+    fields.userAgent ?? null,
+    fields.deviceFingerprint ?? null,
+    fields.riskScore ?? 0,
+    fields.tenantId ?? null,
+    fields.verificationStatus
+  ).run();
+
+  return { id: result.meta.last_row_id, oid: userOid };
+}
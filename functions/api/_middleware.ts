@@ -0,0 +1,91 @@
+// BrainSAIT IOD Pages Middleware - Operator Access Control
+// OID: 1.3.6.1.4.1.61026.4.3 (Operator Identity)
+
+import { OperatorAuthEnv, OperatorSession, readBearerToken, verifyOperatorToken } from '../_shared/operator-auth';
+import { authorizeRoute, findRoutePolicy } from '../_shared/permissions';
+import { ApiKeyRecord, authenticateApiKey, readApiKey } from '../_shared/api-keys';
+import { resolveTenantScope } from '../_shared/tenancy';
+import { applyCors, CorsEnv, loadCorsPolicy, preflightResponse } from '../_shared/cors';
+
+interface Env extends OperatorAuthEnv, CorsEnv {
+  DB: D1Database;
+}
+
+export async function onRequest(context: EventContext<Env, any, any>) {
+  const { request, env } = context;
+  const { pathname } = new URL(request.url);
+  const cors = await loadCorsPolicy(env);
+
+  // Preflight requests never carry credentials; they are answered here from the route's policy
+  if (request.method === 'OPTIONS') {
+    const policy = findRoutePolicy(pathname);
+    if (!policy) {
+      return applyCors(denied(404, 'No access policy for this route'), request, cors, null);
+    }
+    return preflightResponse(request, cors, Object.keys(policy.methods));
+  }
+
+  // Denials go out before a tenant is known and use the same allowlist as preflights
+  const response = await authenticate(context);
+  return applyCors(response, request, cors, context.data.tenant ?? null);
+}
+
+async function authenticate(context: EventContext<Env, any, any>): Promise<Response> {
+  const { request, env } = context;
+  const { pathname } = new URL(request.url);
+
+  // An invalid token is rejected even on public routes so a misconfigured client fails loudly
+  let session: OperatorSession | null = null;
+  const token = readBearerToken(request);
+  if (token) {
+    // A malformed signing key or JWK makes verification throw; the token is rejected, not a 500
+    const result = await verifyOperatorToken(token, env).catch(error => {
+      console.error('Operator token verification error:', error);
+      return null;
+    });
+    if (!result) {
+      return denied(401, 'Invalid operator token');
+    }
+    if (!result.ok) {
+      return denied(401, result.reason);
+    }
+    session = result.session;
+  }
+
+  const decision = authorizeRoute(request.method, pathname, session);
+  if (!decision.allowed) {
+    return denied(decision.status, decision.reason);
+  }
+
+  // Tenant API keys identify server-to-server callers; they never grant operator roles
+  let apiKey: ApiKeyRecord | null = null;
+  const presentedKey = readApiKey(request);
+  if (presentedKey) {
+    if (session) {
+      return denied(400, 'Send either an operator token or an API key, not both');
+    }
+    const result = await authenticateApiKey(env.DB, presentedKey);
+    if (!result.ok) {
+      return denied(401, result.reason);
+    }
+    apiKey = result.key;
+  }
+
+  context.data.operator = session;
+  context.data.apiKey = apiKey;
+  context.data.tenant = resolveTenantScope(apiKey, session);
+  return context.next();
+}
+
+function denied(status: number, reason: string) {
+  return new Response(JSON.stringify({
+    error: status === 400 ? 'Bad request' : status === 401 ? 'Unauthorized' : status === 403 ? 'Forbidden' : 'Not found',
+    reason
+  }), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(status === 401 ? { 'WWW-Authenticate': 'Bearer realm="brainsait-iod"' } : {})
+    }
+  });
+}
@@ -1,6 +1,8 @@
 // BrainSAIT IOD API - Analytics Dashboard
 // OID: 1.3.6.1.4.1.61026.6.3 (Analytics API)
 
+import { scopeCacheKey, TenantScope, tenantFilter } from '../../_shared/tenancy';
+
 interface Env {
   DB: D1Database;
   CACHE: KVNamespace;
@@ -14,8 +16,9 @@ interface AnalyticsQuery {
 }
 
 export async function onRequestGet(context: EventContext<Env, any, any>) {
-  const { request, env } = context;
+  const { request, env, data } = context;
   const url = new URL(request.url);
+  const scope: TenantScope = data.tenant;
 
   const query: AnalyticsQuery = {
     start_date: url.searchParams.get('start_date') || undefined,
@@ -26,15 +29,14 @@ export async function onRequestGet(context: EventContext<Env, any, any>) {
 
   try {
     // Check cache first
-    const cacheKey = `analytics_${JSON.stringify(query)}`;
+    const cacheKey = scopeCacheKey(scope, `analytics_${JSON.stringify(query)}`);
     const cached = await env.CACHE.get(cacheKey);
     if (cached) {
       return new Response(cached, {
         status: 200,
         headers: {
           'Content-Type': 'application/json',
-          'Access-Control-Allow-Origin': '*',
-          'Cache-Control': 'public, max-age=300'
+          'Cache-Control': 'private, max-age=300'
         }
       });
     }
@@ -59,9 +61,12 @@ export async function onRequestGet(context: EventContext<Env, any, any>) {
       startDate = start.toISOString().split('T')[0];
     }
 
+    // Every query below is restricted to the caller's tenant
+    const tenant = tenantFilter(scope, 'tenant_id');
+
     // Build base query conditions
-    let whereConditions = ['metric_date BETWEEN ? AND ?'];
-    let params = [startDate, endDate];
+    let whereConditions = ['metric_date BETWEEN ? AND ?', tenant.clause];
+    let params: Array<string | null> = [startDate, endDate, ...tenant.params];
 
     if (query.country_code) {
       whereConditions.push('country_code = ?');
@@ -97,13 +102,13 @@ export async function onRequestGet(context: EventContext<Env, any, any>) {
         session_status,
         COUNT(*) as count
       FROM verification_sessions
-      WHERE DATE(created_at) BETWEEN ? AND ?
+      WHERE DATE(created_at) BETWEEN ? AND ? AND ${tenant.clause}
       ${query.country_code ? 'AND country_context = ?' : ''}
       GROUP BY DATE(created_at), country_context, session_status
       ORDER BY session_date DESC
     `;
 
-    const sessionParams = [startDate, endDate];
+    const sessionParams: Array<string | null> = [startDate, endDate, ...tenant.params];
     if (query.country_code) {
       sessionParams.push(query.country_code);
     }
@@ -118,14 +123,14 @@ export async function onRequestGet(context: EventContext<Env, any, any>) {
         COUNT(*) as count,
         AVG(risk_score) as avg_risk_score
       FROM security_incidents
-      WHERE DATE(created_at) BETWEEN ? AND ?
+      WHERE DATE(created_at) BETWEEN ? AND ? AND ${tenant.clause}
       GROUP BY DATE(created_at), incident_type
       ORDER BY incident_date DESC
     `;
 
-    const securityIncidents = await env.DB.prepare(securityQuery).bind(startDate, endDate).all();
+    const securityIncidents = await env.DB.prepare(securityQuery).bind(startDate, endDate, ...tenant.params).all();
 
-    // Get neural context analytics
+    // Get neural context analytics; neural_context rows belong to the tenant of their session
     const neuralQuery = `
       SELECT
         DATE(created_at) as sync_date,
@@ -134,11 +139,12 @@ export async function onRequestGet(context: EventContext<Env, any, any>) {
         COUNT(*) as count
       FROM neural_context
       WHERE DATE(created_at) BETWEEN ? AND ?
+        AND session_oid IN (SELECT session_oid FROM verification_sessions WHERE ${tenant.clause})
       GROUP BY DATE(sync_date), context_type, obsidian_sync_status
       ORDER BY sync_date DESC
     `;
 
-    const neuralAnalytics = await env.DB.prepare(neuralQuery).bind(startDate, endDate).all();
+    const neuralAnalytics = await env.DB.prepare(neuralQuery).bind(startDate, endDate, ...tenant.params).all();
 
     // Get regional breakdown
     const regionalQuery = `
@@ -204,7 +210,8 @@ export async function onRequestGet(context: EventContext<Env, any, any>) {
         start_date: startDate,
         end_date: endDate,
         country_code: query.country_code,
-        time_range: query.time_range
+        time_range: query.time_range,
+        tenant_id: scope.allTenants ? null : scope.tenantId
       },
       summary,
       metrics: metrics.results || [],
@@ -225,8 +232,7 @@ export async function onRequestGet(context: EventContext<Env, any, any>) {
       status: 200,
       headers: {
         'Content-Type': 'application/json',
-        'Access-Control-Allow-Origin': '*',
-        'Cache-Control': 'public, max-age=300'
+        'Cache-Control': 'private, max-age=300'
       }
     });
 
@@ -0,0 +1,119 @@
+// BrainSAIT IOD API - Tenant API Keys
+// OID: 1.3.6.1.4.1.61026.6.10 (Tenant API Keys API)
+
+import { ApiKeyScopeRequest, formatApiKey, issueApiKey, operatorCoversCountries, parseApiKeyScope } from '../_shared/api-keys';
+import { canAccessTenant, TenantScope, tenantFilter } from '../_shared/tenancy';
+
+interface Env {
+  DB: D1Database;
+}
+
+export async function onRequestGet(context: EventContext<Env, any, any>) {
+  const { request, env, data } = context;
+  const url = new URL(request.url);
+
+  try {
+    // Operators bound to a tenant only see that tenant's keys
+    const tenant = tenantFilter(data.tenant as TenantScope, 'tenant_id');
+    const conditions: string[] = [tenant.clause];
+    const params: any[] = [...tenant.params];
+
+    const tenantId = url.searchParams.get('tenant_id');
+    if (tenantId) {
+      conditions.push('tenant_id = ?');
+      params.push(tenantId);
+    }
+
+    if (url.searchParams.get('include_revoked') !== 'true') {
+      conditions.push('revoked_at IS NULL');
+    }
+
+    const keys = await env.DB.prepare(`
+      SELECT * FROM api_keys
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY created_at DESC
+      LIMIT 500
+    `).bind(...params).all();
+
+    const operatorCountries: string[] | null = data.operator?.countries ?? null;
+    const visible = (keys.results || [])
+      .map(formatApiKey)
+      .filter(key => operatorCoversCountries(operatorCountries, key.allowed_countries));
+
+    return new Response(JSON.stringify({
+      api_keys: visible,
+      brainsait_oid: '1.3.6.1.4.1.61026.6.10'
+    }), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'no-store'
+      }
+    });
+
+  } catch (error) {
+    console.error('API key listing error:', error);
+    return new Response(JSON.stringify({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+}
+
+export async function onRequestPost(context: EventContext<Env, any, any>) {
+  const { request, env, data } = context;
+
+  try {
+    const body: ApiKeyScopeRequest = await request.json();
+    const { scope, errors } = parseApiKeyScope(body, data.operator?.operator_id ?? null);
+
+    if (!scope) {
+      return new Response(JSON.stringify({ error: 'Invalid API key request', details: errors }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (!canAccessTenant(data.tenant, scope.tenantId)) {
+      return new Response(JSON.stringify({ error: `Operator is not authorized for tenant ${scope.tenantId}` }), {
+        status: 403,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (!operatorCoversCountries(data.operator?.countries, scope.allowedCountries)) {
+      return new Response(JSON.stringify({ error: 'Operator is not authorized for every requested country' }), {
+        status: 403,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const { key, token } = await issueApiKey(env.DB, scope);
+
+    // The plaintext key is only ever returned here; it cannot be recovered later
+    return new Response(JSON.stringify({
+      ...key,
+      api_key: token,
+      brainsait_oid: '1.3.6.1.4.1.61026.6.10'
+    }), {
+      status: 201,
+      headers: {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'no-store'
+      }
+    });
+
+  } catch (error) {
+    console.error('API key issue error:', error);
+    return new Response(JSON.stringify({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+}
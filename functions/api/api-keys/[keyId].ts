@@ -0,0 +1,84 @@
+// BrainSAIT IOD API - Tenant API Key Management
+// OID: 1.3.6.1.4.1.61026.6.10.1 (API Key Management)
+
+import { findApiKey, operatorCoversCountries } from '../../_shared/api-keys';
+import { canAccessTenant } from '../../_shared/tenancy';
+
+interface Env {
+  DB: D1Database;
+}
+
+export async function onRequestGet(context: EventContext<Env, any, any>) {
+  const { env, params, data } = context;
+  const keyId = params.keyId as string;
+
+  try {
+    const key = await findApiKey(env.DB, keyId);
+
+    // Keys outside the operator's tenant or countries are reported as missing rather than forbidden
+    if (!key || !canAccessTenant(data.tenant, key.tenant_id) || !operatorCoversCountries(data.operator?.countries, key.allowed_countries)) {
+      return new Response(JSON.stringify({ error: 'API key not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    return new Response(JSON.stringify(key), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'no-store'
+      }
+    });
+
+  } catch (error) {
+    console.error('API key retrieval error:', error);
+    return new Response(JSON.stringify({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+}
+
+// Revocation is immediate and permanent; the row is kept for audit
+export async function onRequestDelete(context: EventContext<Env, any, any>) {
+  const { env, params, data } = context;
+  const keyId = params.keyId as string;
+
+  try {
+    const key = await findApiKey(env.DB, keyId);
+
+    if (!key || !canAccessTenant(data.tenant, key.tenant_id) || !operatorCoversCountries(data.operator?.countries, key.allowed_countries)) {
+      return new Response(JSON.stringify({ error: 'API key not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    await env.DB.prepare(`
+      UPDATE api_keys SET revoked_at = COALESCE(revoked_at, ?) WHERE key_id = ?
+    `).bind(new Date().toISOString(), keyId).run();
+
+    return new Response(JSON.stringify({
+      ...(await findApiKey(env.DB, keyId)),
+      revoked: true,
+      brainsait_oid: '1.3.6.1.4.1.61026.6.10.1'
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('API key revocation error:', error);
+    return new Response(JSON.stringify({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+}
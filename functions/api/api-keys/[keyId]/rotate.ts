@@ -0,0 +1,95 @@
+// BrainSAIT IOD API - Tenant API Key Rotation
+// OID: 1.3.6.1.4.1.61026.6.10.2 (API Key Rotation)
+
+import { findApiKey, issueApiKey, operatorCoversCountries } from '../../../_shared/api-keys';
+import { canAccessTenant } from '../../../_shared/tenancy';
+
+interface Env {
+  DB: D1Database;
+}
+
+interface RotationRequest {
+  grace_period_hours?: number;
+}
+
+const DEFAULT_GRACE_HOURS = 24;
+const MAX_GRACE_HOURS = 168;
+
+// Issues a replacement key with the same scope. The old key keeps working until the grace
+// period ends so the tenant can deploy the new one without downtime.
+export async function onRequestPost(context: EventContext<Env, any, any>) {
+  const { request, env, params, data } = context;
+  const keyId = params.keyId as string;
+
+  try {
+    // The body is optional; an empty POST rotates with the default grace period
+    const body: RotationRequest = await request.json().catch(() => ({}));
+    const graceHours = body.grace_period_hours ?? DEFAULT_GRACE_HOURS;
+
+    if (typeof graceHours !== 'number' || graceHours < 0 || graceHours > MAX_GRACE_HOURS) {
+      return new Response(JSON.stringify({
+        error: 'Invalid rotation request',
+        details: [`grace_period_hours must be between 0 and ${MAX_GRACE_HOURS}`]
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const current = await findApiKey(env.DB, keyId);
+    if (!current || !canAccessTenant(data.tenant, current.tenant_id) || !operatorCoversCountries(data.operator?.countries, current.allowed_countries)) {
+      return new Response(JSON.stringify({ error: 'API key not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (current.revoked_at || current.rotated_to || (current.expires_at && Date.parse(current.expires_at) <= Date.now())) {
+      return new Response(JSON.stringify({ error: 'Only active keys that have not been rotated can be rotated' }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const { key, token } = await issueApiKey(env.DB, {
+      tenantId: current.tenant_id,
+      name: current.name,
+      allowedCountries: current.allowed_countries,
+      allowedVerificationTypes: current.allowed_verification_types,
+      rateLimitPerMinute: current.rate_limit_per_minute,
+      expiresAt: current.expires_at,
+      createdBy: data.operator?.operator_id ?? null
+    });
+
+    // Never extend the old key's life beyond its original expiry
+    const graceEnd = Date.now() + graceHours * 3600 * 1000;
+    const oldExpiry = current.expires_at ? Math.min(Date.parse(current.expires_at), graceEnd) : graceEnd;
+
+    await env.DB.prepare(`
+      UPDATE api_keys SET expires_at = ?, rotated_to = ? WHERE key_id = ?
+    `).bind(new Date(oldExpiry).toISOString(), key.key_id, keyId).run();
+
+    return new Response(JSON.stringify({
+      ...key,
+      api_key: token,
+      previous_key: await findApiKey(env.DB, keyId),
+      brainsait_oid: '1.3.6.1.4.1.61026.6.10.2'
+    }), {
+      status: 201,
+      headers: {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'no-store'
+      }
+    });
+
+  } catch (error) {
+    console.error('API key rotation error:', error);
+    return new Response(JSON.stringify({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+}
@@ -0,0 +1,382 @@
+// BrainSAIT IOD API - Audit Events
+// OID: 1.3.6.1.4.1.61026.6.9 (Audit Events API)
+
+import {
+  AUDIT_EVENT_TYPES,
+  AUDIT_PAYLOAD_FIELDS,
+  AUDIT_REQUIRED_FIELDS,
+  AuditEvent,
+  allocateAuditOid,
+  appendToAuditTrail,
+  isUnderOidRoot
+} from '../_shared/audit';
+import { appendToChain, auditEventStream } from '../_shared/hash-chain';
+import { OperatorSession } from '../_shared/operator-auth';
+import { consumeFixedWindow, rateLimitHeaders } from '../_shared/rate-limit';
+import { TenantScope, tenantFilter } from '../_shared/tenancy';
+import { sha256Hex, timingSafeEqual } from '../_shared/encoding';
+
+interface Env {
+  DB: D1Database;
+  CACHE: KVNamespace;
+  AUDIT_TRAIL: KVNamespace;
+  BRAINSAIT_OID_ROOT: string;
+}
+
+const MAX_BATCH_SIZE = 50;
+const MAX_PAYLOAD_BYTES = 8 * 1024;
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+const EVENTS_PER_OPERATOR_PER_MINUTE = 120;
+
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 500;
+
+export async function onRequestPost(context: EventContext<Env, any, any>) {
+  const { request, env, data } = context;
+  const oidRoot = env.BRAINSAIT_OID_ROOT || '1.3.6.1.4.1.61026';
+
+  try {
+    const body = await request.json().catch(() => null);
+    const events: AuditEvent[] = Array.isArray(body?.events) ? body.events : [];
+
+    if (events.length === 0 || events.length > MAX_BATCH_SIZE) {
+      return new Response(JSON.stringify({
+        error: `Provide between 1 and ${MAX_BATCH_SIZE} events`
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const errors = events.flatMap((event, index) => validateEvent(event, oidRoot).map(error => `events[${index}]: ${error}`));
+    if (errors.length > 0) {
+      return new Response(JSON.stringify({ error: 'Invalid audit events', details: errors }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Timestamps must strictly increase per session, both within the batch and against stored events
+    const bySession = new Map<string, AuditEvent[]>();
+    for (const event of events) {
+      bySession.set(event.session_oid, [...(bySession.get(event.session_oid) || []), event]);
+    }
+
+    // Events are recorded under the operator session, or under the session whose audit token was
+    // presented; an operator_id in the body is never trusted
+    const operator: OperatorSession | null = data.operator || null;
+    const sessionTokens: Record<string, unknown> = body?.session_tokens && typeof body.session_tokens === 'object' ? body.session_tokens : {};
+    const actors = new Map<string, string>();
+    for (const sessionOid of bySession.keys()) {
+      const actor = operator
+        ? await authorizeOperator(env.DB, data.tenant, sessionOid, operator)
+        : await authorizeSessionToken(env.DB, sessionOid, sessionTokens[sessionOid]);
+      if (!actor) {
+        return new Response(JSON.stringify({
+          error: operator ? 'Verification session not found' : 'Missing or invalid audit token',
+          session_oid: sessionOid
+        }), {
+          status: operator ? 404 : 403,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+      actors.set(sessionOid, actor);
+    }
+
+    // Budget is charged per event so a single operator cannot flood the trail with large batches
+    const actorCounts = new Map<string, number>();
+    for (const [sessionOid, sessionEvents] of bySession) {
+      const actor = actors.get(sessionOid)!;
+      actorCounts.set(actor, (actorCounts.get(actor) || 0) + sessionEvents.length);
+    }
+    for (const [actor, count] of actorCounts) {
+      const rateLimit = await consumeFixedWindow(env.CACHE, `audit_rl_${actor}`, EVENTS_PER_OPERATOR_PER_MINUTE, 60, count);
+      if (!rateLimit.allowed) {
+        return new Response(JSON.stringify({ error: 'Audit event rate limit exceeded', operator_id: actor }), {
+          status: 429,
+          headers: { 'Content-Type': 'application/json', ...rateLimitHeaders(rateLimit) }
+        });
+      }
+    }
+
+    for (const [sessionOid, sessionEvents] of bySession) {
+      const latest = await env.DB.prepare(`
+        SELECT MAX(created_at) as last_timestamp FROM audit_events WHERE session_oid = ?
+      `).bind(sessionOid).first();
+
+      let previous = latest?.last_timestamp ? Date.parse(latest.last_timestamp) : -Infinity;
+      for (const event of sessionEvents) {
+        const current = Date.parse(event.timestamp);
+        if (current <= previous) {
+          return new Response(JSON.stringify({
+            error: 'Audit event timestamps must increase within a session',
+            session_oid: sessionOid,
+            event_type: event.event_type,
+            timestamp: event.timestamp,
+            last_timestamp: new Date(previous).toISOString()
+          }), {
+            status: 409,
+            headers: { 'Content-Type': 'application/json' }
+          });
+        }
+        previous = current;
+      }
+    }
+
+    const receivedAt = new Date().toISOString();
+    const accepted: { audit_oid: string; session_oid: string; event_type: string }[] = [];
+
+    for (const [sessionOid, sessionEvents] of bySession) {
+      const trailEntries: Record<string, any>[] = [];
+
+      for (const event of sessionEvents) {
+        const timestamp = new Date(event.timestamp).toISOString();
+        const auditOid = allocateAuditOid(oidRoot, Date.parse(timestamp));
+        const payload: Record<string, any> = { ...(event.payload || {}) };
+        for (const field of AUDIT_PAYLOAD_FIELDS) {
+          if (event[field] !== undefined) {
+            payload[field] = event[field];
+          }
+        }
+
+        const row = {
+          id: auditOid,
+          session_oid: sessionOid,
+          stripe_session_id: event.stripe_session_id || null,
+          operator_id: actors.get(sessionOid)!,
+          event_type: event.event_type,
+          payload: JSON.stringify(payload),
+          device_fingerprint: event.device_fingerprint || null,
+          readiness_snapshot: event.readiness_snapshot ? JSON.stringify(event.readiness_snapshot) : null,
+          risk_signal: event.risk_signal || 0,
+          created_at: timestamp
+        };
+
+        const link = await appendToChain(env.DB, auditEventStream(sessionOid), row, chainLink => env.DB.prepare(`
+          INSERT INTO audit_events
+          (id, session_oid, stripe_session_id, operator_id, event_type, payload, device_fingerprint, readiness_snapshot, risk_signal, created_at, received_at, chain_seq, prev_hash, record_hash)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `).bind(
+          row.id,
+          row.session_oid,
+          row.stripe_session_id,
+          row.operator_id,
+          row.event_type,
+          row.payload,
+          row.device_fingerprint,
+          row.readiness_snapshot,
+          row.risk_signal,
+          row.created_at,
+          receivedAt,
+          chainLink.chain_seq,
+          chainLink.prev_hash,
+          chainLink.record_hash
+        ).run());
+
+        trailEntries.push({
+          audit_oid: auditOid,
+          event_type: event.event_type,
+          operator_id: row.operator_id,
+          stripe_session_id: event.stripe_session_id || null,
+          timestamp,
+          record_hash: link.record_hash
+        });
+        accepted.push({ audit_oid: auditOid, session_oid: sessionOid, event_type: event.event_type });
+      }
+
+      await appendToAuditTrail(env.AUDIT_TRAIL, sessionOid, trailEntries);
+    }
+
+    return new Response(JSON.stringify({
+      accepted,
+      brainsait_oid: '1.3.6.1.4.1.61026.6.9'
+    }), {
+      status: 201,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Audit event ingestion error:', error);
+    return new Response(JSON.stringify({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+}
+
+export async function onRequestGet(context: EventContext<Env, any, any>) {
+  const { request, env, data } = context;
+  const url = new URL(request.url);
+  const scope: TenantScope = data.tenant;
+
+  try {
+    const sessionOid = url.searchParams.get('session_oid');
+    if (!sessionOid) {
+      return new Response(JSON.stringify({ error: 'session_oid is required' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const conditions = ['session_oid = ?'];
+    const params: any[] = [sessionOid];
+
+    // Tenant operators only see trails of their own tenant's sessions
+    if (!scope.allTenants) {
+      const tenant = tenantFilter(scope, 'tenant_id');
+      conditions.push(`session_oid IN (SELECT session_oid FROM verification_sessions WHERE ${tenant.clause})`);
+      params.push(...tenant.params);
+    }
+
+    // Cursor is the timestamp of the last event seen; timestamps are unique within a session
+    const cursor = url.searchParams.get('cursor');
+    if (cursor) {
+      const lastTimestamp = decodeTimestampCursor(cursor);
+      if (lastTimestamp === null) {
+        return new Response(JSON.stringify({ error: 'Invalid cursor' }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+      conditions.push('created_at > ?');
+      params.push(lastTimestamp);
+    }
+
+    const requestedLimit = Number(url.searchParams.get('limit')) || DEFAULT_PAGE_SIZE;
+    const limit = Math.min(Math.max(requestedLimit, 1), MAX_PAGE_SIZE);
+
+    const events = await env.DB.prepare(`
+      SELECT * FROM audit_events
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY created_at ASC
+      LIMIT ?
+    `).bind(...params, limit + 1).all();
+
+    const rows = events.results || [];
+    const page = rows.slice(0, limit);
+    const hasMore = rows.length > limit;
+
+    return new Response(JSON.stringify({
+      session_oid: sessionOid,
+      events: page.map(formatAuditEvent),
+      next_cursor: hasMore ? btoa(JSON.stringify({ created_at: page[page.length - 1].created_at })) : null,
+      has_more: hasMore,
+      brainsait_oid: '1.3.6.1.4.1.61026.6.9'
+    }), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'no-store'
+      }
+    });
+
+  } catch (error) {
+    console.error('Audit event listing error:', error);
+    return new Response(JSON.stringify({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+}
+
+// Operators may only write to sessions inside their tenant scope
+async function authorizeOperator(db: D1Database, scope: TenantScope, sessionOid: string, operator: OperatorSession): Promise<string | null> {
+  const tenant = tenantFilter(scope, 'tenant_id');
+  const session = await db.prepare(`
+    SELECT session_oid FROM verification_sessions WHERE session_oid = ? AND ${tenant.clause}
+  `).bind(sessionOid, ...tenant.params).first();
+  return session ? operator.operator_id : null;
+}
+
+async function authorizeSessionToken(db: D1Database, sessionOid: string, token: unknown): Promise<string | null> {
+  if (typeof token !== 'string' || !token) {
+    return null;
+  }
+  const session = await db.prepare(`
+    SELECT audit_token_hash FROM verification_sessions WHERE session_oid = ?
+  `).bind(sessionOid).first<{ audit_token_hash: string | null }>();
+  if (!session?.audit_token_hash || !timingSafeEqual(await sha256Hex(token), session.audit_token_hash)) {
+    return null;
+  }
+  return `session:${sessionOid}`;
+}
+
+function validateEvent(event: any, oidRoot: string): string[] {
+  if (!event || typeof event !== 'object') {
+    return ['event must be an object'];
+  }
+
+  const errors: string[] = [];
+
+  if (typeof event.session_oid !== 'string' || !isUnderOidRoot(event.session_oid, oidRoot)) {
+    errors.push(`session_oid must be an OID under ${oidRoot}`);
+  }
+  if (!AUDIT_EVENT_TYPES.includes(event.event_type)) {
+    errors.push(`event_type must be one of ${AUDIT_EVENT_TYPES.join(', ')}`);
+    return errors;
+  }
+
+  for (const field of AUDIT_REQUIRED_FIELDS[event.event_type as AuditEvent['event_type']]) {
+    if (event[field] === undefined || event[field] === null || event[field] === '') {
+      errors.push(`${field} is required for ${event.event_type}`);
+    }
+  }
+
+  const timestamp = typeof event.timestamp === 'string' ? Date.parse(event.timestamp) : NaN;
+  if (Number.isNaN(timestamp)) {
+    errors.push('timestamp must be an ISO 8601 string');
+  } else if (timestamp > Date.now() + MAX_CLOCK_SKEW_MS) {
+    errors.push('timestamp is too far in the future');
+  }
+
+  if (event.readiness_snapshot !== undefined && (typeof event.readiness_snapshot !== 'object' || Array.isArray(event.readiness_snapshot))) {
+    errors.push('readiness_snapshot must be an object');
+  }
+  for (const field of AUDIT_PAYLOAD_FIELDS) {
+    if (event[field] !== undefined && (typeof event[field] !== 'string' || event[field].length > 128)) {
+      errors.push(`${field} must be a string of at most 128 characters`);
+    }
+  }
+  if (event.risk_signal !== undefined && !Number.isInteger(event.risk_signal)) {
+    errors.push('risk_signal must be an integer');
+  }
+  if (JSON.stringify(event.payload || {}).length + JSON.stringify(event.readiness_snapshot || {}).length > MAX_PAYLOAD_BYTES) {
+    errors.push(`payload and readiness_snapshot must not exceed ${MAX_PAYLOAD_BYTES} bytes`);
+  }
+
+  return errors;
+}
+
+function formatAuditEvent(row: any) {
+  return {
+    audit_oid: row.id,
+    session_oid: row.session_oid,
+    stripe_session_id: row.stripe_session_id,
+    operator_id: row.operator_id,
+    event_type: row.event_type,
+    payload: row.payload ? JSON.parse(row.payload) : null,
+    device_fingerprint: row.device_fingerprint,
+    readiness_snapshot: row.readiness_snapshot ? JSON.parse(row.readiness_snapshot) : null,
+    risk_signal: row.risk_signal,
+    timestamp: row.created_at,
+    received_at: row.received_at,
+    chain_seq: row.chain_seq,
+    prev_hash: row.prev_hash,
+    record_hash: row.record_hash
+  };
+}
+
+function decodeTimestampCursor(cursor: string): string | null {
+  try {
+    const { created_at } = JSON.parse(atob(cursor));
+    return typeof created_at === 'string' && !Number.isNaN(Date.parse(created_at)) ? created_at : null;
+  } catch {
+    return null;
+  }
+}
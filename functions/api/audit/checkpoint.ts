@@ -0,0 +1,49 @@
+// BrainSAIT IOD API - Audit Chain Checkpoints
+// OID: 1.3.6.1.4.1.61026.6.9.2 (Audit Checkpoint API)
+
+import { checkpointRecentChains } from '../../_shared/hash-chain';
+import { TenantScope } from '../../_shared/tenancy';
+
+interface Env {
+  DB: D1Database;
+  CACHE: KVNamespace;
+  NEURAL_DATA: R2Bucket;
+}
+
+// The scheduled maintenance worker runs the same checkpoint pass; this endpoint triggers it on demand
+export async function onRequestPost(context: EventContext<Env, any, any>) {
+  const { env, data } = context;
+
+  // The run covers every tenant's chains and reports their session OIDs
+  if (!(data.tenant as TenantScope).allTenants) {
+    return new Response(JSON.stringify({
+      error: 'Forbidden',
+      reason: 'Checkpoints span all tenants and require a platform operator'
+    }), {
+      status: 403,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  try {
+    const run = await checkpointRecentChains(env.DB, env.NEURAL_DATA, env.CACHE);
+
+    return new Response(JSON.stringify({
+      ...run,
+      brainsait_oid: '1.3.6.1.4.1.61026.6.9.2'
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Audit checkpoint error:', error);
+    return new Response(JSON.stringify({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+}
\ No newline at end of file
@@ -0,0 +1,88 @@
+// BrainSAIT IOD API - Audit Chain Verification
+// OID: 1.3.6.1.4.1.61026.6.9.1 (Audit Verification API)
+
+import { auditEventStream, INCIDENT_STREAM, verifyChain } from '../../_shared/hash-chain';
+import { TenantScope, tenantFilter } from '../../_shared/tenancy';
+
+interface Env {
+  DB: D1Database;
+  NEURAL_DATA: R2Bucket;
+}
+
+const DEFAULT_MAX_RECORDS = 5000;
+const MAX_RECORDS_LIMIT = 20000;
+
+export async function onRequestGet(context: EventContext<Env, any, any>) {
+  const { request, env, data } = context;
+  const scope: TenantScope = data.tenant;
+  const url = new URL(request.url);
+
+  try {
+    const streamName = url.searchParams.get('stream');
+    const sessionOid = url.searchParams.get('session_oid');
+
+    if ((streamName === 'security_incidents') === !!sessionOid) {
+      return new Response(JSON.stringify({
+        error: 'Provide either stream=security_incidents or session_oid'
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // The incident chain interleaves every tenant's incidents
+    if (!sessionOid && !scope.allTenants) {
+      return new Response(JSON.stringify({
+        error: 'Forbidden',
+        reason: 'The incident chain spans all tenants and requires a platform operator'
+      }), {
+        status: 403,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Session chains outside the caller's tenant are reported as missing, like every other lookup
+    if (sessionOid && !scope.allTenants) {
+      const tenant = tenantFilter(scope, 'tenant_id');
+      const session = await env.DB.prepare(`
+        SELECT session_oid FROM verification_sessions WHERE session_oid = ? AND ${tenant.clause}
+      `).bind(sessionOid, ...tenant.params).first();
+      if (!session) {
+        return new Response(JSON.stringify({ error: 'Verification session not found' }), {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+    }
+
+    const fromSeq = Number(url.searchParams.get('from_seq')) || 1;
+    const requestedLimit = Number(url.searchParams.get('limit')) || DEFAULT_MAX_RECORDS;
+    const maxRecords = Math.min(Math.max(requestedLimit, 1), MAX_RECORDS_LIMIT);
+
+    const stream = sessionOid ? auditEventStream(sessionOid) : INCIDENT_STREAM;
+    const verification = await verifyChain(env.DB, env.NEURAL_DATA, stream, { fromSeq, maxRecords });
+
+    return new Response(JSON.stringify({
+      ...verification,
+      from_seq: fromSeq,
+      verified_at: new Date().toISOString(),
+      brainsait_oid: '1.3.6.1.4.1.61026.6.9.1'
+    }), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'no-store'
+      }
+    });
+
+  } catch (error) {
+    console.error('Audit chain verification error:', error);
+    return new Response(JSON.stringify({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+}
@@ -1,6 +1,19 @@
 // BrainSAIT IOD API - Create Verification Session
 // OID: 1.3.6.1.4.1.61026.6.1 (API Endpoints)
 
+import { countryOidArc, createSessionUser } from '../_shared/users';
+import { assessVerificationRisk, resolveRiskThreshold } from '../_shared/risk';
+import { recordSecurityIncident } from '../_shared/incidents';
+import { assessNetwork, loadAnonymizerList } from '../_shared/network';
+import { findBlock } from '../_shared/blocklist';
+import { ApiKeyRecord } from '../_shared/api-keys';
+import { consumeFixedWindow, enforceRateLimits, rateLimitHeaders } from '../_shared/rate-limit';
+import { tenantKey } from '../_shared/tenancy';
+import { callerMetadataParams } from '../_shared/session-lifecycle';
+import { checkSubjectAttempts, DEFAULT_MAX_ATTEMPTS } from '../_shared/session-limits';
+import { claimIdempotencyKey, ClaimedIdempotencyKey, readIdempotencyKey, settleIdempotencyKey } from '../_shared/idempotency';
+import { randomToken, sha256Hex } from '../_shared/encoding';
+
 interface Env {
   DB: D1Database;
   SESSIONS: KVNamespace;
@@ -10,6 +23,7 @@ interface Env {
   NEURAL_DATA: R2Bucket;
   VITE_STRIPE_SECRET_KEY: string;
   BRAINSAIT_OID_ROOT: string;
+  RISK_BLOCK_THRESHOLD?: string;
 }
 
 interface VerificationRequest {
@@ -17,6 +31,7 @@ interface VerificationRequest {
   return_url: string;
   metadata?: Record<string, any>;
   country_code?: 'SA' | 'SD' | 'US';
+  device_fingerprint?: string;
   healthcare_context?: {
     nphiesId?: string;
     facilityCode?: string;
@@ -27,19 +42,203 @@ interface VerificationRequest {
     ministryCode?: string;
     wilayaCode?: string;
   };
+  // Forwarded by API-key callers; their own connection describes the tenant's server, not the subject
+  end_user?: {
+    ip_address?: string;
+    user_agent?: string;
+  };
 }
 
 export async function onRequestPost(context: EventContext<Env, any, any>) {
-  const { request, env } = context;
+  const { request, env, data } = context;
+
+  try {
+    const { key, error } = readIdempotencyKey(request);
+    if (error) {
+      return new Response(JSON.stringify({ error: 'Invalid idempotency key', reason: error }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+    if (!key) {
+      return await createVerificationSession(context, null);
+    }
+
+    // Browser retries after a network blip must not create a second Stripe session
+    const claim = await claimIdempotencyKey(env.CACHE, data.apiKey?.tenant_id ?? null, key, await request.clone().text());
+    if (claim.outcome === 'replay') {
+      return await reissueAuditToken(env.DB, claim.response);
+    }
+    if (claim.outcome === 'conflict') {
+      return new Response(JSON.stringify({ error: 'Idempotency key conflict', reason: claim.reason }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const response = await createVerificationSession(context, claim);
+    await settleIdempotencyKey(env.CACHE, claim, response, ['audit_token']);
+    return response;
+
+  } catch (error) {
+    console.error('Idempotent session creation error:', error);
+    return new Response(JSON.stringify({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+}
+
+async function createVerificationSession(context: EventContext<Env, any, any>, idempotency: ClaimedIdempotencyKey | null): Promise<Response> {
+  const { request, env, data } = context;
 
   try {
+    // Server-to-server callers hold a tenant API key, authenticated by the API middleware;
+    // the browser flow has none
+    const apiKey: ApiKeyRecord | null = data.apiKey ?? null;
+    if (apiKey) {
+      const rateLimit = await consumeFixedWindow(env.CACHE, `apikey_rl_${apiKey.key_id}`, apiKey.rate_limit_per_minute, 60);
+      if (!rateLimit.allowed) {
+        return new Response(JSON.stringify({ error: 'API key rate limit exceeded' }), {
+          status: 429,
+          headers: { 'Content-Type': 'application/json', ...rateLimitHeaders(rateLimit) }
+        });
+      }
+    }
+
     // Parse request body
     const body: VerificationRequest = await request.json();
 
+    if (apiKey) {
+      const scopeError = !apiKey.allowed_countries.includes(body.country_code || 'US')
+        ? `API key is not authorized for country ${body.country_code || 'US'}`
+        : !apiKey.allowed_verification_types.includes(body.type)
+          ? `API key is not authorized for verification type ${body.type}`
+          : null;
+
+      if (scopeError) {
+        return new Response(JSON.stringify({ error: 'Forbidden', reason: scopeError }), {
+          status: 403,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+    }
+
+    const tenantId = apiKey?.tenant_id ?? null;
+
     // Generate BrainSAIT OID for this session
-    const timestamp = Date.now();
-    const countryOid = body.country_code === 'SA' ? '682' : body.country_code === 'SD' ? '729' : '840';
-    const sessionOID = `${env.BRAINSAIT_OID_ROOT}.1.${countryOid}.${timestamp}`;
+    const timestamp = idempotency?.timestamp ?? Date.now();
+    const sessionOID = `${env.BRAINSAIT_OID_ROOT}.1.${countryOidArc(body.country_code)}.${timestamp}`;
+
+    const ipAddress = apiKey ? body.end_user?.ip_address ?? null : request.headers.get('CF-Connecting-IP');
+    const userAgent = apiKey ? body.end_user?.user_agent ?? null : request.headers.get('User-Agent');
+    // Cloudflare metadata for a key-authenticated request is about the tenant's backend
+    const requestCf = apiKey ? undefined : request.cf;
+
+    // Every session created below is a billed Stripe call
+    const rateLimit = await enforceRateLimits(env, 'stripe_session_create', tenantId, {
+      ipAddress,
+      apiKeyId: apiKey?.key_id,
+      deviceFingerprint: body.device_fingerprint,
+      nationalId: body.national_context?.sudanNationalId || body.healthcare_context?.nphiesId
+    });
+    if (rateLimit && !rateLimit.allowed) {
+      return new Response(JSON.stringify({ error: 'Too many verification requests', limited_by: rateLimit.dimension }), {
+        status: 429,
+        headers: { 'Content-Type': 'application/json', ...rateLimitHeaders(rateLimit) }
+      });
+    }
+
+    // Analysts can block an IP or device from the incident triage API
+    const block = await findBlock(env.CACHE, tenantId, { ipAddress, deviceFingerprint: body.device_fingerprint });
+    if (block) {
+      return new Response(JSON.stringify({
+        error: 'Verification request blocked',
+        reason: {
+          code: block.code,
+          message: block.code === 'blocked_ip' ? 'Requests from this network are blocked' : 'Requests from this device are blocked'
+        },
+        incident_oid: block.incident_oid
+      }), {
+        status: 403,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Geolocation and hosting-network checks against Cloudflare request metadata
+    const network = assessNetwork(await loadAnonymizerList(env), {
+      ipAddress,
+      declaredCountry: body.country_code || 'US',
+      cf: requestCf
+    });
+
+    // Server-side risk scoring; the browser cannot skip or influence the counters
+    const risk = await assessVerificationRisk(env.CACHE, {
+      ipAddress,
+      deviceFingerprint: body.device_fingerprint,
+      userAgent,
+      cf: requestCf,
+      network
+    }, resolveRiskThreshold(env.RISK_BLOCK_THRESHOLD));
+
+    if (network.locationMismatch) {
+      await recordSecurityIncident(env.DB, env.BRAINSAIT_OID_ROOT, {
+        type: 'location_mismatch',
+        riskScore: risk.riskScore,
+        data: { session_oid: sessionOID, device_fingerprint: body.device_fingerprint, ...network.locationMismatch },
+        sourceIp: ipAddress,
+        userAgent,
+        blocked: risk.blocked,
+        tenantId
+      });
+    }
+
+    if (network.anonymizer) {
+      await recordSecurityIncident(env.DB, env.BRAINSAIT_OID_ROOT, {
+        type: 'anonymizer_detected',
+        riskScore: risk.riskScore,
+        data: { session_oid: sessionOID, ip_address: ipAddress, device_fingerprint: body.device_fingerprint, ...network.anonymizer },
+        sourceIp: ipAddress,
+        userAgent,
+        blocked: risk.blocked,
+        tenantId
+      });
+    }
+
+    if (risk.blocked) {
+      const incidentOid = await recordSecurityIncident(env.DB, env.BRAINSAIT_OID_ROOT, {
+        type: 'high_risk_verification',
+        riskScore: risk.riskScore,
+        data: {
+          session_oid: sessionOID,
+          country_code: body.country_code || 'US',
+          request_country: requestCf?.country,
+          asn: requestCf?.asn,
+          device_fingerprint: body.device_fingerprint,
+          signals: risk.signals,
+          tenant_id: tenantId
+        },
+        sourceIp: ipAddress,
+        userAgent,
+        blocked: true,
+        tenantId
+      });
+
+      return new Response(JSON.stringify({
+        error: 'Verification request blocked',
+        reason: risk.reason,
+        risk_score: risk.riskScore,
+        threshold: risk.threshold,
+        signals: risk.signals.map(signal => signal.code),
+        incident_oid: incidentOid
+      }), {
+        status: 403,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
 
     // Validate regional context if provided
     if (body.country_code === 'SA' && body.healthcare_context) {
@@ -62,22 +261,66 @@ export async function onRequestPost(context: EventContext<Env, any, any>) {
       }
     }
 
+    // Retries are limited per subject on the server; the browser's own counter is advisory only
+    const attempts = await checkSubjectAttempts(env.DB, {
+      tenantId,
+      countryCode: body.country_code || 'US',
+      nphiesId: body.healthcare_context?.nphiesId,
+      sudanNationalId: body.national_context?.sudanNationalId,
+      deviceFingerprint: body.device_fingerprint
+    });
+
+    if (attempts?.exceeded) {
+      const incidentOid = await recordSecurityIncident(env.DB, env.BRAINSAIT_OID_ROOT, {
+        type: 'verification_attempts_exceeded',
+        userId: attempts.lastUserId,
+        riskScore: risk.riskScore,
+        data: {
+          session_oid: sessionOID,
+          country_code: body.country_code || 'US',
+          subject: attempts.subject,
+          attempts: attempts.attempts,
+          max_attempts: attempts.maxAttempts,
+          device_fingerprint: body.device_fingerprint
+        },
+        sourceIp: ipAddress,
+        userAgent,
+        blocked: true,
+        tenantId
+      });
+
+      return new Response(JSON.stringify({
+        error: 'Verification attempt limit reached',
+        reason: {
+          code: 'max_attempts_exceeded',
+          message: `No more than ${attempts.maxAttempts} verification attempts are allowed in 24 hours`
+        },
+        attempts: attempts.attempts,
+        max_attempts: attempts.maxAttempts,
+        incident_oid: incidentOid
+      }), {
+        status: 429,
+        headers: { 'Content-Type': 'application/json', 'Retry-After': String(attempts.retryAfter) }
+      });
+    }
+
     // Create Stripe Identity verification session
     const stripeResponse = await fetch('https://api.stripe.com/v1/identity/verification_sessions', {
       method: 'POST',
       headers: {
         'Authorization': `Bearer ${env.VITE_STRIPE_SECRET_KEY}`,
         'Content-Type': 'application/x-www-form-urlencoded',
+        ...(idempotency && { 'Idempotency-Key': idempotency.stripeKey })
       },
       body: new URLSearchParams({
         'type': body.type,
         'return_url': body.return_url,
+        // Caller metadata goes first and cannot carry the keys set below
+        ...callerMetadataParams(body.metadata),
         'metadata[brainsait_oid]': sessionOID,
         'metadata[country_code]': body.country_code || 'US',
         'metadata[neural_integration]': 'enabled',
-        ...(body.metadata && Object.fromEntries(
-          Object.entries(body.metadata).map(([k, v]) => [`metadata[${k}]`, String(v)])
-        ))
+        ...(tenantId && { 'metadata[tenant_id]': tenantId })
       })
     });
 
@@ -91,13 +334,33 @@ export async function onRequestPost(context: EventContext<Env, any, any>) {
 
     const stripeSession = await stripeResponse.json();
 
+    // Each session gets its own users row; subjects are only merged once Stripe verifies them
+    const user = await createSessionUser(env.DB, {
+      oidRoot: env.BRAINSAIT_OID_ROOT,
+      stripeVerificationId: stripeSession.id,
+      countryCode: body.country_code || 'US',
+      verificationType: body.type,
+      ipAddress,
+      userAgent,
+      deviceFingerprint: body.device_fingerprint,
+      riskScore: risk.riskScore,
+      tenantId
+    });
+
+    await attachRegionalIdentity(env.DB, user.id, body);
+
+    // Lets the browser that created the session record audit events for it without an operator session
+    const auditToken = randomToken(32);
+
     // Store session in D1 database
     await env.DB.prepare(`
       INSERT INTO verification_sessions
-      (session_oid, stripe_session_id, session_status, country_context, session_data, expires_at)
-      VALUES (?, ?, ?, ?, ?, datetime('now', '+24 hours'))
+      (session_oid, user_id, stripe_session_id, session_status, country_context, session_data, tenant_id, attempt_count, max_attempts, audit_token_hash, expires_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now', '+24 hours'))
+      ON CONFLICT(session_oid) DO UPDATE SET audit_token_hash = excluded.audit_token_hash
     `).bind(
       sessionOID,
+      user.id,
       stripeSession.id,
       'created',
       body.country_code || 'US',
@@ -106,16 +369,23 @@ export async function onRequestPost(context: EventContext<Env, any, any>) {
         return_url: body.return_url,
         healthcare_context: body.healthcare_context,
         national_context: body.national_context,
-        metadata: body.metadata
-      })
+        metadata: body.metadata,
+        api_key_id: apiKey?.key_id
+      }),
+      tenantId,
+      (attempts?.attempts ?? 0) + 1,
+      attempts?.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+      await sha256Hex(auditToken)
     ).run();
 
     // Store session in KV for quick access
-    await env.SESSIONS.put(stripeSession.id, JSON.stringify({
+    await env.SESSIONS.put(tenantKey(tenantId, stripeSession.id), JSON.stringify({
       session_oid: sessionOID,
+      user_oid: user.oid,
       created_at: new Date().toISOString(),
       country_code: body.country_code,
-      type: body.type
+      type: body.type,
+      tenant_id: tenantId
     }), { expirationTtl: 86400 }); // 24 hours
 
     // Store neural context if enabled
@@ -133,23 +403,24 @@ export async function onRequestPost(context: EventContext<Env, any, any>) {
         created_at: new Date().toISOString()
       };
 
-      await env.NEURAL_CONTEXT.put(sessionOID, JSON.stringify(neuralContext), { expirationTtl: 86400 });
+      await env.NEURAL_CONTEXT.put(tenantKey(tenantId, sessionOID), JSON.stringify(neuralContext), { expirationTtl: 86400 });
     }
 
     // Return enhanced session with BrainSAIT OID
     return new Response(JSON.stringify({
       ...stripeSession,
       brainsait_oid: sessionOID,
+      user_oid: user.oid,
+      tenant_id: tenantId,
+      audit_token: auditToken,
+      risk_score: risk.riskScore,
+      attempt_count: (attempts?.attempts ?? 0) + 1,
+      max_attempts: attempts?.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
       neural_integration: body.metadata?.neural_integration === 'enabled',
       regional_context: body.country_code !== 'US'
     }), {
       status: 200,
-      headers: {
-        'Content-Type': 'application/json',
-        'Access-Control-Allow-Origin': '*',
-        'Access-Control-Allow-Methods': 'POST, OPTIONS',
-        'Access-Control-Allow-Headers': 'Content-Type'
-      }
+      headers: { 'Content-Type': 'application/json' }
     });
 
   } catch (error) {
@@ -164,17 +435,59 @@ export async function onRequestPost(context: EventContext<Env, any, any>) {
   }
 }
 
-export async function onRequestOptions(_context: EventContext<Env, any, any>) {
-  return new Response(null, {
-    status: 200,
-    headers: {
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'POST, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type'
-    }
+// The cached response carries no audit token; the replay gets a fresh one, which supersedes the first
+async function reissueAuditToken(db: D1Database, replay: Response): Promise<Response> {
+  const body = await replay.json() as { brainsait_oid: string };
+  const auditToken = randomToken(32);
+  await db.prepare(`
+    UPDATE verification_sessions SET audit_token_hash = ? WHERE session_oid = ?
+  `).bind(await sha256Hex(auditToken), body.brainsait_oid).run();
+
+  return new Response(JSON.stringify({ ...body, audit_token: auditToken }), {
+    status: replay.status,
+    headers: replay.headers
   });
 }
 
+// Records the declared regional identifier against the user, pending validation by the regional APIs
+async function attachRegionalIdentity(db: D1Database, userId: number, body: VerificationRequest) {
+  if (body.country_code === 'SA' && body.healthcare_context?.nphiesId) {
+    const existing = await db.prepare(`
+      SELECT id FROM saudi_healthcare WHERE user_id = ? AND nphies_id = ?
+    `).bind(userId, body.healthcare_context.nphiesId).first();
+
+    if (!existing) {
+      await db.prepare(`
+        INSERT INTO saudi_healthcare (user_id, nphies_id, facility_code, practitioner_id, insurance_status, is_valid)
+        VALUES (?, ?, ?, ?, 'pending', 0)
+      `).bind(
+        userId,
+        body.healthcare_context.nphiesId,
+        body.healthcare_context.facilityCode || null,
+        body.healthcare_context.practitionerId || null
+      ).run();
+    }
+  }
+
+  if (body.country_code === 'SD' && body.national_context?.sudanNationalId) {
+    const existing = await db.prepare(`
+      SELECT id FROM sudan_national_id WHERE user_id = ? AND national_id = ?
+    `).bind(userId, body.national_context.sudanNationalId).first();
+
+    if (!existing) {
+      await db.prepare(`
+        INSERT INTO sudan_national_id (user_id, national_id, wilaya_code, ministry_code, is_valid)
+        VALUES (?, ?, ?, ?, 0)
+      `).bind(
+        userId,
+        body.national_context.sudanNationalId,
+        body.national_context.wilayaCode || null,
+        body.national_context.ministryCode || null
+      ).run();
+    }
+  }
+}
+
 async function validateSaudiFacility(db: D1Database, facilityCode?: string): Promise<boolean> {
   if (!facilityCode) return true;
 
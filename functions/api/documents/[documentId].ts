@@ -1,26 +1,38 @@
 // BrainSAIT IOD API - Document Retrieval
 // OID: 1.3.6.1.4.1.61026.6.6.2 (Document Retrieval API)
 
-interface Env {
+import { TenantScope, tenantFilter } from '../../_shared/tenancy';
+import {
+  DOCUMENT_CIPHER,
+  DocumentKeyEnv,
+  decryptDocument,
+  envelopeFromMetadata,
+  envelopeFromRow,
+  loadDocumentKeyring
+} from '../../_shared/document-crypto';
+import { DownloadTokenEnv, verifyDownloadToken } from '../../_shared/download-tokens';
+
+interface Env extends DocumentKeyEnv, DownloadTokenEnv {
   DB: D1Database;
   DOCUMENTS: R2Bucket;
   CACHE: KVNamespace;
 }
 
 export async function onRequestGet(context: EventContext<Env, any, any>) {
-  const { request, env, params } = context;
+  const { request, env, params, data } = context;
   const documentId = params.documentId as string;
   const url = new URL(request.url);
   const metadata = url.searchParams.get('metadata') === 'true';
+  const tenant = tenantFilter(data.tenant as TenantScope, 'ds.tenant_id');
 
   try {
-    // Get document metadata from D1
+    // Get document metadata from D1; other tenants' documents read as not found
     const documentMeta = await env.DB.prepare(`
       SELECT ds.*, vs.session_status
       FROM document_storage ds
       LEFT JOIN verification_sessions vs ON ds.session_oid = vs.session_oid
-      WHERE ds.document_id = ?
-    `).bind(documentId).first();
+      WHERE ds.document_id = ? AND ${tenant.clause}
+    `).bind(documentId, ...tenant.params).first();
 
     if (!documentMeta) {
       return new Response(JSON.stringify({ error: 'Document not found' }), {
@@ -45,21 +57,58 @@ export async function onRequestGet(context: EventContext<Env, any, any>) {
           status: documentMeta.upload_status,
           country_code: documentMeta.country_code
         },
+        scan_info: {
+          status: documentMeta.scan_status,
+          scanned_at: documentMeta.scanned_at
+        },
+        sanitization: documentMeta.sanitization_status
+          ? { status: documentMeta.sanitization_status, ...JSON.parse(documentMeta.sanitization_report as string) }
+          : null,
+        encryption: documentMeta.encryption_key_id
+          ? { cipher: DOCUMENT_CIPHER, key_id: documentMeta.encryption_key_id }
+          : null,
         session_info: {
           status: documentMeta.session_status
         },
         brainsait_oid: '1.3.6.1.4.1.61026.6.6.2'
       }), {
         status: 200,
-        headers: {
-          'Content-Type': 'application/json',
-          'Access-Control-Allow-Origin': '*'
-        }
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Only files the malware scan passed are served, whatever their lifecycle state
+    if (documentMeta.scan_status !== 'clean') {
+      return new Response(JSON.stringify({
+        error: 'Document is not available',
+        reason: documentMeta.scan_status === 'infected' ? 'Document is quarantined' : 'Document has not finished malware scanning',
+        scan_status: documentMeta.scan_status
+      }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // The file itself needs a download token issued to this operator for this document
+    const token = url.searchParams.get('token');
+    if (!env.DOCUMENT_DOWNLOAD_SECRET) {
+      return new Response(JSON.stringify({ error: 'Document downloads are not configured' }), {
+        status: 503,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+    const tokenCheck = token
+      ? await verifyDownloadToken(env.DOCUMENT_DOWNLOAD_SECRET, token, documentId, data.operator?.operator_id)
+      : { valid: false as const, reason: 'Download token required; request one from POST /api/documents/{documentId}/download-token' };
+    if (!tokenCheck.valid) {
+      return new Response(JSON.stringify({ error: 'Forbidden', reason: tokenCheck.reason }), {
+        status: 403,
+        headers: { 'Content-Type': 'application/json' }
       });
     }
 
-    // Get document from R2
-    const document = await env.DOCUMENTS.get(documentId);
+    // Get document from R2; storage_path carries the tenant prefix
+    const document = await env.DOCUMENTS.get(documentMeta.storage_path);
 
     if (!document) {
       return new Response(JSON.stringify({ error: 'Document file not found in storage' }), {
@@ -68,18 +117,39 @@ export async function onRequestGet(context: EventContext<Env, any, any>) {
       });
     }
 
+    // The object's own metadata wins over D1, which a key rotation updates second
+    const envelope = envelopeFromMetadata(document.customMetadata)
+      || envelopeFromRow(documentMeta as { encryption_key_id: string | null; wrapped_key: string | null; encryption_iv: string | null });
+    let body: ReadableStream | ArrayBuffer | null = document.body;
+    if (envelope) {
+      const keyring = await loadDocumentKeyring(env);
+      if (!keyring) {
+        return new Response(JSON.stringify({ error: 'Document encryption is not configured' }), {
+          status: 503,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+      body = await decryptDocument(keyring, await document.arrayBuffer(), envelope, documentMeta.document_id as string);
+      if (!body) {
+        return new Response(JSON.stringify({ error: 'Document could not be decrypted' }), {
+          status: 500,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+    }
+
     const headers = new Headers();
     headers.set('Content-Type', documentMeta.file_type);
     headers.set('Content-Disposition', `inline; filename="${documentMeta.file_name}"`);
-    headers.set('Cache-Control', 'private, max-age=3600');
-    headers.set('Access-Control-Allow-Origin', '*');
+    // Each download is authorized by its own token, so nothing may be reused from a cache
+    headers.set('Cache-Control', 'private, no-store');
 
     // Add custom headers
     headers.set('X-Document-ID', documentId);
     headers.set('X-Session-OID', documentMeta.session_oid);
     headers.set('X-BrainSAIT-OID', '1.3.6.1.4.1.61026.6.6.2');
 
-    return new Response(document.body, {
+    return new Response(body, {
       status: 200,
       headers: headers
     });
@@ -97,14 +167,15 @@ export async function onRequestGet(context: EventContext<Env, any, any>) {
 }
 
 export async function onRequestDelete(context: EventContext<Env, any, any>) {
-  const { env, params } = context;
+  const { env, params, data } = context;
   const documentId = params.documentId as string;
+  const tenant = tenantFilter(data.tenant as TenantScope, 'tenant_id');
 
   try {
     // Get document metadata first
     const documentMeta = await env.DB.prepare(`
-      SELECT * FROM document_storage WHERE document_id = ?
-    `).bind(documentId).first();
+      SELECT * FROM document_storage WHERE document_id = ? AND ${tenant.clause}
+    `).bind(documentId, ...tenant.params).first();
 
     if (!documentMeta) {
       return new Response(JSON.stringify({ error: 'Document not found' }), {
@@ -114,7 +185,7 @@ export async function onRequestDelete(context: EventContext<Env, any, any>) {
     }
 
     // Delete from R2
-    await env.DOCUMENTS.delete(documentId);
+    await env.DOCUMENTS.delete(documentMeta.storage_path);
 
     // Update database record (soft delete)
     await env.DB.prepare(`
@@ -130,10 +201,7 @@ export async function onRequestDelete(context: EventContext<Env, any, any>) {
       message: 'Document successfully deleted'
     }), {
       status: 200,
-      headers: {
-        'Content-Type': 'application/json',
-        'Access-Control-Allow-Origin': '*'
-      }
+      headers: { 'Content-Type': 'application/json' }
     });
 
   } catch (error) {
@@ -146,15 +214,4 @@ export async function onRequestDelete(context: EventContext<Env, any, any>) {
       headers: { 'Content-Type': 'application/json' }
     });
   }
-}
-
-export async function onRequestOptions(_context: EventContext<Env, any, any>) {
-  return new Response(null, {
-    status: 200,
-    headers: {
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'GET, DELETE, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type'
-    }
-  });
 }
\ No newline at end of file
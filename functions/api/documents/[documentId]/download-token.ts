@@ -0,0 +1,99 @@
+// BrainSAIT IOD API - Document Download Tokens
+// OID: 1.3.6.1.4.1.61026.6.6.3 (Document Download Token API)
+
+import { TenantScope, tenantFilter } from '../../../_shared/tenancy';
+import {
+  DEFAULT_DOWNLOAD_TOKEN_TTL_SECONDS,
+  DownloadTokenEnv,
+  MAX_DOWNLOAD_TOKEN_TTL_SECONDS,
+  MIN_DOWNLOAD_TOKEN_TTL_SECONDS,
+  signDownloadToken
+} from '../../../_shared/download-tokens';
+
+interface Env extends DownloadTokenEnv {
+  DB: D1Database;
+}
+
+interface DownloadTokenRequest {
+  ttl_seconds?: number;
+}
+
+// Issues a short-lived link that only the requesting operator can use to download the file
+export async function onRequestPost(context: EventContext<Env, any, any>) {
+  const { request, env, params, data } = context;
+  const documentId = params.documentId as string;
+  const tenant = tenantFilter(data.tenant as TenantScope, 'tenant_id');
+
+  try {
+    if (!env.DOCUMENT_DOWNLOAD_SECRET) {
+      return new Response(JSON.stringify({ error: 'Document downloads are not configured' }), {
+        status: 503,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // The body is optional; an empty POST issues a token with the default lifetime
+    const body: DownloadTokenRequest = await request.json().catch(() => ({}));
+    const ttlSeconds = body.ttl_seconds ?? DEFAULT_DOWNLOAD_TOKEN_TTL_SECONDS;
+    if (!Number.isInteger(ttlSeconds) || ttlSeconds < MIN_DOWNLOAD_TOKEN_TTL_SECONDS || ttlSeconds > MAX_DOWNLOAD_TOKEN_TTL_SECONDS) {
+      return new Response(JSON.stringify({
+        error: 'Invalid download token request',
+        details: [`ttl_seconds must be an integer between ${MIN_DOWNLOAD_TOKEN_TTL_SECONDS} and ${MAX_DOWNLOAD_TOKEN_TTL_SECONDS}`]
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const document = await env.DB.prepare(`
+      SELECT document_id, upload_status, scan_status FROM document_storage
+      WHERE document_id = ? AND ${tenant.clause}
+    `).bind(documentId, ...tenant.params).first<{ document_id: string; upload_status: string; scan_status: string | null }>();
+
+    if (!document) {
+      return new Response(JSON.stringify({ error: 'Document not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (['deleted', 'anonymized', 'missing'].includes(document.upload_status)) {
+      return new Response(JSON.stringify({ error: 'Document is no longer available', status: document.upload_status }), {
+        status: 410,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // A token for a file retrieval would refuse is never issued
+    if (document.scan_status !== 'clean') {
+      return new Response(JSON.stringify({ error: 'Document has not passed malware scanning', scan_status: document.scan_status }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const expiresAt = Date.now() + ttlSeconds * 1000;
+    const token = await signDownloadToken(env.DOCUMENT_DOWNLOAD_SECRET, documentId, data.operator.operator_id, expiresAt);
+
+    return new Response(JSON.stringify({
+      document_id: documentId,
+      token,
+      expires_at: new Date(expiresAt).toISOString(),
+      download_url: `/api/documents/${encodeURIComponent(documentId)}?token=${encodeURIComponent(token)}`,
+      brainsait_oid: '1.3.6.1.4.1.61026.6.6.3'
+    }), {
+      status: 201,
+      headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' }
+    });
+
+  } catch (error) {
+    console.error('Document download token error:', error);
+    return new Response(JSON.stringify({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+}
@@ -1,16 +1,43 @@
 // BrainSAIT IOD API - Document Upload and Storage
 // OID: 1.3.6.1.4.1.61026.6.6 (Document Storage API)
 
-interface Env {
-  DB: D1Database;
-  DOCUMENTS: R2Bucket;
+import { TenantScope, tenantFilter } from '../../_shared/tenancy';
+import { enforceRateLimits, rateLimitHeaders } from '../../_shared/rate-limit';
+import { isSessionExpired, markSessionExpired } from '../../_shared/session-limits';
+import { DOCUMENT_CIPHER, loadDocumentKeyring } from '../../_shared/document-crypto';
+import { DocumentUploadEnv, generateDocumentId, MAX_DIRECT_UPLOAD_SIZE, storeDocument } from '../../_shared/document-uploads';
+import { scanDocument } from '../../_shared/malware-scan';
+
+interface Env extends DocumentUploadEnv {
   CACHE: KVNamespace;
 }
 
 export async function onRequestPost(context: EventContext<Env, any, any>) {
-  const { request, env } = context;
+  const { request, env, data } = context;
+  const scope: TenantScope = data.tenant;
 
   try {
+    // Checked before the body is read so rejected uploads cost nothing
+    const rateLimit = await enforceRateLimits(env, 'document_upload', scope.tenantId, {
+      ipAddress: request.headers.get('CF-Connecting-IP'),
+      operatorId: data.operator?.operator_id
+    });
+    if (rateLimit && !rateLimit.allowed) {
+      return new Response(JSON.stringify({ error: 'Too many document uploads', limited_by: rateLimit.dimension }), {
+        status: 429,
+        headers: { 'Content-Type': 'application/json', ...rateLimitHeaders(rateLimit) }
+      });
+    }
+
+    // Identity documents are never written to R2 in plaintext
+    const keyring = await loadDocumentKeyring(env);
+    if (!keyring) {
+      return new Response(JSON.stringify({ error: 'Document encryption is not configured' }), {
+        status: 503,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
     const formData = await request.formData();
     const file = formData.get('file') as File;
     const sessionOid = formData.get('session_oid') as string;
@@ -26,96 +53,101 @@ export async function onRequestPost(context: EventContext<Env, any, any>) {
       });
     }
 
-    // Validate file type
-    const allowedTypes = ['image/jpeg', 'image/png', 'image/webp', 'application/pdf'];
-    if (!allowedTypes.includes(file.type)) {
+    // Larger files go through the resumable upload endpoints
+    if (file.size > MAX_DIRECT_UPLOAD_SIZE) {
       return new Response(JSON.stringify({
-        error: 'Invalid file type. Allowed: JPEG, PNG, WebP, PDF'
+        error: 'File size exceeds 10MB limit',
+        resumable_upload: '/api/documents/uploads'
       }), {
         status: 400,
         headers: { 'Content-Type': 'application/json' }
       });
     }
 
-    // Validate file size (10MB max)
-    const maxSize = 10 * 1024 * 1024; // 10MB
-    if (file.size > maxSize) {
+    // Documents inherit the tenant of the session they belong to
+    const tenant = tenantFilter(scope, 'tenant_id');
+    const session = await env.DB.prepare(`
+      SELECT session_oid, tenant_id, session_status, expires_at FROM verification_sessions
+      WHERE session_oid = ? AND ${tenant.clause}
+    `).bind(sessionOid, ...tenant.params).first();
+
+    if (!session) {
+      return new Response(JSON.stringify({ error: 'Verification session not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (isSessionExpired(session as { expires_at: string | null; session_status: string | null })) {
+      await markSessionExpired(env.DB, sessionOid);
       return new Response(JSON.stringify({
-        error: 'File size exceeds 10MB limit'
+        error: 'Verification session expired',
+        expires_at: session.expires_at
       }), {
-        status: 400,
+        status: 410,
         headers: { 'Content-Type': 'application/json' }
       });
     }
 
-    // Generate unique document ID
-    const timestamp = Date.now();
-    const documentId = `${sessionOid}/${documentType}/${timestamp}_${file.name}`;
-
-    // Store file in R2
-    const fileBuffer = await file.arrayBuffer();
-    await env.DOCUMENTS.put(documentId, fileBuffer, {
-      httpMetadata: {
-        contentType: file.type,
-        contentDisposition: `attachment; filename="${file.name}"`,
-      },
-      customMetadata: {
-        sessionOid: sessionOid,
-        documentType: documentType,
-        countryCode: countryCode || 'US',
-        originalName: file.name,
-        uploadedAt: new Date().toISOString(),
-        brainsaitOid: '1.3.6.1.4.1.61026.6.6.1'
-      }
-    });
-
-    // Store document metadata in D1
-    await env.DB.prepare(`
-      INSERT INTO document_storage
-      (document_id, session_oid, document_type, file_name, file_size, file_type, country_code, storage_path, upload_status)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'uploaded')
-    `).bind(
+    // Document IDs are opaque; the R2 path stays internal and no longer carries the file name
+    const documentId = generateDocumentId();
+    const result = await storeDocument(env, keyring, {
       documentId,
+      bytes: new Uint8Array(await file.arrayBuffer()),
+      declaredType: file.type,
+      fileName: file.name,
       sessionOid,
       documentType,
-      file.name,
-      file.size,
-      file.type,
-      countryCode || 'US',
-      documentId
-  ).run();
-
-    // Update verification session with document reference
-    await env.DB.prepare(`
-      UPDATE verification_sessions
-      SET document_uploaded = 1, updated_at = datetime('now')
-      WHERE session_oid = ?
-    `).bind(sessionOid).run();
+      countryCode,
+      tenantId: session.tenant_id,
+      operatorId: data.operator?.operator_id,
+      sourceIp: request.headers.get('CF-Connecting-IP'),
+      userAgent: request.headers.get('User-Agent')
+    });
+
+    if (!result.stored) {
+      return new Response(JSON.stringify({
+        error: 'Document rejected',
+        reason: result.reason,
+        detected_type: result.detectedType
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Scanned after the response; the maintenance Worker retries scans that do not finish
+    context.waitUntil(scanDocument(env, documentId).catch(error => {
+      console.error('Document scan error:', error);
+    }));
 
     const response = {
       success: true,
       document_id: documentId,
       session_oid: sessionOid,
       document_type: documentType,
+      upload_status: 'processing',
       file_info: {
         name: file.name,
-        size: file.size,
-        type: file.type
+        size: result.size,
+        type: result.fileType
+      },
+      sanitization: {
+        status: result.sanitization.status,
+        declared_type: result.sanitization.report.declared_type,
+        detected_type: result.sanitization.report.detected_type,
+        removed: result.sanitization.report.removed
       },
       storage_info: {
-        bucket: 'brainsait-identity-documents',
-        path: documentId,
-        uploaded_at: new Date().toISOString()
+        uploaded_at: new Date().toISOString(),
+        encryption: { cipher: DOCUMENT_CIPHER, key_id: result.envelope.keyId }
       },
       brainsait_oid: '1.3.6.1.4.1.61026.6.6.1'
     };
 
     return new Response(JSON.stringify(response), {
       status: 201,
-      headers: {
-        'Content-Type': 'application/json',
-        'Access-Control-Allow-Origin': '*'
-      }
+      headers: { 'Content-Type': 'application/json' }
     });
 
   } catch (error) {
@@ -128,15 +160,4 @@ export async function onRequestPost(context: EventContext<Env, any, any>) {
       headers: { 'Content-Type': 'application/json' }
     });
   }
-}
-
-export async function onRequestOptions(_context: EventContext<Env, any, any>) {
-  return new Response(null, {
-    status: 200,
-    headers: {
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'POST, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type'
-    }
-  });
 }
\ No newline at end of file
@@ -0,0 +1,162 @@
+// BrainSAIT IOD API - Resumable Document Upload
+// OID: 1.3.6.1.4.1.61026.6.6.4 (Resumable Upload API)
+
+import { TenantScope, tenantFilter, tenantObjectKey } from '../../_shared/tenancy';
+import { enforceRateLimits, rateLimitHeaders } from '../../_shared/rate-limit';
+import { isSessionExpired, markSessionExpired } from '../../_shared/session-limits';
+import { generateDataKey, loadDocumentKeyring } from '../../_shared/document-crypto';
+import {
+  DocumentUploadEnv,
+  generateDocumentId,
+  generateUploadId,
+  MAX_RESUMABLE_UPLOAD_SIZE,
+  UPLOAD_PART_SIZE,
+  UPLOAD_TTL_HOURS
+} from '../../_shared/document-uploads';
+
+interface Env extends DocumentUploadEnv {
+  CACHE: KVNamespace;
+}
+
+interface CreateUploadRequest {
+  session_oid?: string;
+  document_type?: string;
+  country_code?: string;
+  file_name?: string;
+  file_size?: number;
+  content_type?: string;
+}
+
+export async function onRequestPost(context: EventContext<Env, any, any>) {
+  const { request, env, data } = context;
+  const scope: TenantScope = data.tenant;
+
+  try {
+    // One budget covers both upload paths, counted when an upload starts
+    const rateLimit = await enforceRateLimits(env, 'document_upload', scope.tenantId, {
+      ipAddress: request.headers.get('CF-Connecting-IP'),
+      operatorId: data.operator?.operator_id
+    });
+    if (rateLimit && !rateLimit.allowed) {
+      return new Response(JSON.stringify({ error: 'Too many document uploads', limited_by: rateLimit.dimension }), {
+        status: 429,
+        headers: { 'Content-Type': 'application/json', ...rateLimitHeaders(rateLimit) }
+      });
+    }
+
+    // Parts are encrypted as they arrive, so the key must exist before the first one
+    const keyring = await loadDocumentKeyring(env);
+    if (!keyring) {
+      return new Response(JSON.stringify({ error: 'Document encryption is not configured' }), {
+        status: 503,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const body = await request.json().catch(() => null) as CreateUploadRequest | null;
+    if (!body?.session_oid || !body.document_type || !body.file_name || body.file_size === undefined) {
+      return new Response(JSON.stringify({
+        error: 'Missing required fields: session_oid, document_type, file_name, file_size'
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (!Number.isInteger(body.file_size) || body.file_size <= 0 || body.file_size > MAX_RESUMABLE_UPLOAD_SIZE) {
+      return new Response(JSON.stringify({
+        error: `file_size must be between 1 and ${MAX_RESUMABLE_UPLOAD_SIZE} bytes`
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Documents inherit the tenant of the session they belong to
+    const tenant = tenantFilter(scope, 'tenant_id');
+    const session = await env.DB.prepare(`
+      SELECT session_oid, tenant_id, session_status, expires_at FROM verification_sessions
+      WHERE session_oid = ? AND ${tenant.clause}
+    `).bind(body.session_oid, ...tenant.params).first();
+
+    if (!session) {
+      return new Response(JSON.stringify({ error: 'Verification session not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (isSessionExpired(session as { expires_at: string | null; session_status: string | null })) {
+      await markSessionExpired(env.DB, body.session_oid);
+      return new Response(JSON.stringify({
+        error: 'Verification session expired',
+        expires_at: session.expires_at
+      }), {
+        status: 410,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const uploadId = generateUploadId();
+    const documentId = generateDocumentId();
+    const totalParts = Math.ceil(body.file_size / UPLOAD_PART_SIZE);
+    // Staged parts are ciphertext; the document only reaches its final path once completed
+    const stagingPath = tenantObjectKey(session.tenant_id, `uploads/${uploadId}`);
+
+    const { keyId, wrappedKey } = await generateDataKey(keyring);
+    const multipart = await env.DOCUMENTS.createMultipartUpload(stagingPath, {
+      httpMetadata: { contentType: 'application/octet-stream' },
+      customMetadata: { uploadId, documentId, sessionOid: body.session_oid }
+    });
+
+    await env.DB.prepare(`
+      INSERT INTO document_uploads
+      (upload_id, document_id, session_oid, document_type, country_code, file_name, declared_type, file_size,
+       part_size, total_parts, staging_path, r2_upload_id, encryption_key_id, wrapped_key, tenant_id, operator_id, expires_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now', ?))
+    `).bind(
+      uploadId,
+      documentId,
+      body.session_oid,
+      body.document_type,
+      body.country_code || 'US',
+      body.file_name,
+      body.content_type || null,
+      body.file_size,
+      UPLOAD_PART_SIZE,
+      totalParts,
+      stagingPath,
+      multipart.uploadId,
+      keyId,
+      wrappedKey,
+      session.tenant_id,
+      data.operator?.operator_id || null,
+      `+${UPLOAD_TTL_HOURS} hours`
+    ).run();
+
+    return new Response(JSON.stringify({
+      upload_id: uploadId,
+      document_id: documentId,
+      upload_status: 'uploading',
+      part_size: UPLOAD_PART_SIZE,
+      total_parts: totalParts,
+      expires_at: new Date(Date.now() + UPLOAD_TTL_HOURS * 60 * 60 * 1000).toISOString(),
+      parts_url: `/api/documents/uploads/${uploadId}/parts/{part_number}`,
+      complete_url: `/api/documents/uploads/${uploadId}/complete`,
+      brainsait_oid: '1.3.6.1.4.1.61026.6.6.4'
+    }), {
+      status: 201,
+      headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' }
+    });
+
+  } catch (error) {
+    console.error('Resumable upload creation error:', error);
+    return new Response(JSON.stringify({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+}
@@ -0,0 +1,133 @@
+// BrainSAIT IOD API - Resumable Upload Status and Abort
+// OID: 1.3.6.1.4.1.61026.6.6.4 (Resumable Upload API)
+
+import { TenantScope } from '../../../_shared/tenancy';
+import { loadUpload, loadUploadParts, releaseUpload } from '../../../_shared/document-uploads';
+
+interface Env {
+  DB: D1Database;
+  DOCUMENTS: R2Bucket;
+}
+
+// Clients resume by comparing the recorded parts with the ones they hold
+export async function onRequestGet(context: EventContext<Env, any, any>) {
+  const { env, params, data } = context;
+  const scope: TenantScope = data.tenant;
+  const uploadId = params.uploadId as string;
+
+  try {
+    const upload = await loadUpload(env.DB, scope, uploadId);
+    if (!upload) {
+      return new Response(JSON.stringify({ error: 'Upload not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const parts = await loadUploadParts(env.DB, uploadId);
+    const recorded = new Set(parts.map(part => part.part_number));
+    const missingParts: number[] = [];
+    for (let partNumber = 1; partNumber <= upload.total_parts; partNumber++) {
+      if (!recorded.has(partNumber)) {
+        missingParts.push(partNumber);
+      }
+    }
+
+    // The maintenance Worker only closes expired uploads hourly; clients see the expiry at once
+    const status = upload.expired && upload.upload_status === 'uploading' ? 'expired' : upload.upload_status;
+
+    return new Response(JSON.stringify({
+      upload_id: upload.upload_id,
+      document_id: upload.document_id,
+      session_oid: upload.session_oid,
+      document_type: upload.document_type,
+      file_name: upload.file_name,
+      file_size: upload.file_size,
+      upload_status: status,
+      part_size: upload.part_size,
+      total_parts: upload.total_parts,
+      parts: parts.map(part => ({ part_number: part.part_number, size: part.size })),
+      missing_parts: missingParts,
+      uploaded_bytes: parts.reduce((total, part) => total + part.size, 0),
+      expires_at: upload.expires_at,
+      completed_at: upload.completed_at,
+      brainsait_oid: '1.3.6.1.4.1.61026.6.6.4'
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' }
+    });
+
+  } catch (error) {
+    console.error('Upload status error:', error);
+    return new Response(JSON.stringify({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+}
+
+export async function onRequestDelete(context: EventContext<Env, any, any>) {
+  const { env, params, data } = context;
+  const scope: TenantScope = data.tenant;
+  const uploadId = params.uploadId as string;
+
+  try {
+    const upload = await loadUpload(env.DB, scope, uploadId);
+    if (!upload) {
+      return new Response(JSON.stringify({ error: 'Upload not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Aborting twice is harmless; a finished upload is a document and is deleted as one
+    if (['aborted', 'expired', 'rejected', 'failed'].includes(upload.upload_status)) {
+      return new Response(JSON.stringify({
+        upload_id: uploadId,
+        upload_status: upload.upload_status,
+        brainsait_oid: '1.3.6.1.4.1.61026.6.6.4'
+      }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+    if (upload.upload_status !== 'uploading') {
+      return new Response(JSON.stringify({
+        error: 'Upload can no longer be aborted',
+        upload_status: upload.upload_status,
+        ...(upload.upload_status === 'completed' && { document_id: upload.document_id })
+      }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    await releaseUpload(env, upload);
+    await env.DB.prepare(`
+      UPDATE document_uploads SET upload_status = 'aborted', updated_at = datetime('now')
+      WHERE upload_id = ? AND upload_status = 'uploading'
+    `).bind(uploadId).run();
+
+    return new Response(JSON.stringify({
+      upload_id: uploadId,
+      upload_status: 'aborted',
+      brainsait_oid: '1.3.6.1.4.1.61026.6.6.4'
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Upload abort error:', error);
+    return new Response(JSON.stringify({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+}
@@ -0,0 +1,227 @@
+// BrainSAIT IOD API - Resumable Upload Completion
+// OID: 1.3.6.1.4.1.61026.6.6.4 (Resumable Upload API)
+
+import { TenantScope } from '../../../../_shared/tenancy';
+import { isSessionExpired, markSessionExpired } from '../../../../_shared/session-limits';
+import { DOCUMENT_CIPHER, loadDocumentKeyring, unwrapDataKey } from '../../../../_shared/document-crypto';
+import {
+  assembleUploadParts,
+  DocumentUploadEnv,
+  DocumentUploadRow,
+  loadUpload,
+  loadUploadParts,
+  releaseUpload,
+  storeDocument
+} from '../../../../_shared/document-uploads';
+import { scanDocument } from '../../../../_shared/malware-scan';
+
+/**
+ * Joins the parts into one R2 object, decrypts and reassembles it, and hands the document to
+ * the same sanitization, encryption and scanning path as a direct upload. Completing again
+ * after a lost response returns the document that was created.
+ */
+export async function onRequestPost(context: EventContext<DocumentUploadEnv, any, any>) {
+  const { request, env, params, data } = context;
+  const scope: TenantScope = data.tenant;
+  const uploadId = params.uploadId as string;
+
+  try {
+    const upload = await loadUpload(env.DB, scope, uploadId);
+    if (!upload) {
+      return new Response(JSON.stringify({ error: 'Upload not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (upload.upload_status === 'completed') {
+      return new Response(JSON.stringify({
+        success: true,
+        upload_id: uploadId,
+        document_id: upload.document_id,
+        upload_status: 'completed',
+        completed_at: upload.completed_at,
+        brainsait_oid: '1.3.6.1.4.1.61026.6.6.4'
+      }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (upload.upload_status !== 'uploading') {
+      return new Response(JSON.stringify({ error: 'Upload cannot be completed', upload_status: upload.upload_status }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (upload.expired) {
+      return new Response(JSON.stringify({ error: 'Upload expired', expires_at: upload.expires_at }), {
+        status: 410,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const parts = await loadUploadParts(env.DB, uploadId);
+    if (parts.length !== upload.total_parts) {
+      const recorded = new Set(parts.map(part => part.part_number));
+      const missingParts = Array.from({ length: upload.total_parts }, (_, i) => i + 1).filter(n => !recorded.has(n));
+      return new Response(JSON.stringify({ error: 'Upload is missing parts', missing_parts: missingParts }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // The session may have expired while the parts were being sent
+    const session = await env.DB.prepare(`
+      SELECT session_status, expires_at FROM verification_sessions WHERE session_oid = ?
+    `).bind(upload.session_oid).first<{ session_status: string | null; expires_at: string | null }>();
+    if (!session || isSessionExpired(session)) {
+      if (session) {
+        await markSessionExpired(env.DB, upload.session_oid);
+      }
+      return new Response(JSON.stringify({
+        error: 'Verification session expired',
+        expires_at: session?.expires_at ?? null
+      }), {
+        status: 410,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const keyring = await loadDocumentKeyring(env);
+    const dataKey = keyring && await unwrapDataKey(keyring, upload.encryption_key_id, upload.wrapped_key);
+    if (!keyring || !dataKey) {
+      return new Response(JSON.stringify({ error: 'Upload encryption key is unavailable' }), {
+        status: 503,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Only one request may turn the upload into a document
+    const claim = await env.DB.prepare(`
+      UPDATE document_uploads SET upload_status = 'completing', updated_at = datetime('now')
+      WHERE upload_id = ? AND upload_status = 'uploading'
+    `).bind(uploadId).run();
+    if (!claim.meta?.changes) {
+      return new Response(JSON.stringify({ error: 'Upload is already being completed' }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    try {
+      // A retry after a failure past this point finds the parts already joined
+      let staged = await env.DOCUMENTS.get(upload.staging_path);
+      if (!staged) {
+        await env.DOCUMENTS
+          .resumeMultipartUpload(upload.staging_path, upload.r2_upload_id)
+          .complete(parts.map(part => ({ partNumber: part.part_number, etag: part.etag })));
+        staged = await env.DOCUMENTS.get(upload.staging_path);
+      }
+      if (!staged) {
+        throw new Error('Completed upload is missing from R2');
+      }
+
+      const bytes = await assembleUploadParts(dataKey, await staged.arrayBuffer(), upload, parts);
+      if (!bytes) {
+        await closeUpload(env, upload, 'failed');
+        return new Response(JSON.stringify({ error: 'Upload could not be reassembled; start a new upload' }), {
+          status: 422,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const result = await storeDocument(env, keyring, {
+        documentId: upload.document_id,
+        bytes,
+        declaredType: upload.declared_type || '',
+        fileName: upload.file_name,
+        sessionOid: upload.session_oid,
+        documentType: upload.document_type,
+        countryCode: upload.country_code,
+        tenantId: upload.tenant_id,
+        operatorId: data.operator?.operator_id,
+        sourceIp: request.headers.get('CF-Connecting-IP'),
+        userAgent: request.headers.get('User-Agent')
+      });
+
+      if (!result.stored) {
+        await closeUpload(env, upload, 'rejected');
+        return new Response(JSON.stringify({
+          error: 'Document rejected',
+          reason: result.reason,
+          detected_type: result.detectedType
+        }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      await closeUpload(env, upload, 'completed');
+
+      // Scanned after the response; the maintenance Worker retries scans that do not finish
+      context.waitUntil(scanDocument(env, upload.document_id).catch(error => {
+        console.error('Document scan error:', error);
+      }));
+
+      return new Response(JSON.stringify({
+        success: true,
+        upload_id: uploadId,
+        document_id: upload.document_id,
+        session_oid: upload.session_oid,
+        document_type: upload.document_type,
+        upload_status: 'processing',
+        file_info: {
+          name: upload.file_name,
+          size: result.size,
+          type: result.fileType
+        },
+        sanitization: {
+          status: result.sanitization.status,
+          declared_type: result.sanitization.report.declared_type,
+          detected_type: result.sanitization.report.detected_type,
+          removed: result.sanitization.report.removed
+        },
+        storage_info: {
+          uploaded_at: new Date().toISOString(),
+          encryption: { cipher: DOCUMENT_CIPHER, key_id: result.envelope.keyId }
+        },
+        brainsait_oid: '1.3.6.1.4.1.61026.6.6.4'
+      }), {
+        status: 201,
+        headers: { 'Content-Type': 'application/json' }
+      });
+
+    } catch (error) {
+      // Hand the upload back so the client can complete it again
+      await env.DB.prepare(`
+        UPDATE document_uploads SET upload_status = 'uploading', updated_at = datetime('now')
+        WHERE upload_id = ? AND upload_status = 'completing'
+      `).bind(uploadId).run();
+      throw error;
+    }
+
+  } catch (error) {
+    console.error('Upload completion error:', error);
+    return new Response(JSON.stringify({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+}
+
+// The status is settled first; a staging object left behind is removed by reconciliation
+async function closeUpload(env: DocumentUploadEnv, upload: DocumentUploadRow, status: 'completed' | 'rejected' | 'failed'): Promise<void> {
+  await env.DB.prepare(`
+    UPDATE document_uploads
+    SET upload_status = ?, completed_at = CASE WHEN ? = 'completed' THEN datetime('now') END, updated_at = datetime('now')
+    WHERE upload_id = ?
+  `).bind(status, status, upload.upload_id).run();
+  await releaseUpload(env, upload).catch(error => {
+    console.error(`Staged upload ${upload.upload_id} could not be released:`, error);
+  });
+}
@@ -0,0 +1,120 @@
+// BrainSAIT IOD API - Resumable Upload Parts
+// OID: 1.3.6.1.4.1.61026.6.6.4 (Resumable Upload API)
+
+import { TenantScope } from '../../../../../_shared/tenancy';
+import { DocumentKeyEnv, loadDocumentKeyring, unwrapDataKey } from '../../../../../_shared/document-crypto';
+import { encryptUploadPart, expectedPartSize, loadUpload } from '../../../../../_shared/document-uploads';
+
+interface Env extends DocumentKeyEnv {
+  DB: D1Database;
+  DOCUMENTS: R2Bucket;
+}
+
+/**
+ * Stores one part. Sending a part again replaces it, so a client that lost the response
+ * simply retries; R2 keeps only the latest upload of each part number.
+ */
+export async function onRequestPut(context: EventContext<Env, any, any>) {
+  const { request, env, params, data } = context;
+  const scope: TenantScope = data.tenant;
+  const uploadId = params.uploadId as string;
+  const partNumber = Number(params.partNumber);
+
+  try {
+    const upload = await loadUpload(env.DB, scope, uploadId);
+    if (!upload) {
+      return new Response(JSON.stringify({ error: 'Upload not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (upload.upload_status !== 'uploading') {
+      return new Response(JSON.stringify({ error: 'Upload is not accepting parts', upload_status: upload.upload_status }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (upload.expired) {
+      return new Response(JSON.stringify({ error: 'Upload expired', expires_at: upload.expires_at }), {
+        status: 410,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (!Number.isInteger(partNumber) || partNumber < 1 || partNumber > upload.total_parts) {
+      return new Response(JSON.stringify({ error: `part_number must be between 1 and ${upload.total_parts}` }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const expectedSize = expectedPartSize(upload, partNumber);
+    const declaredLength = Number(request.headers.get('Content-Length'));
+    if (declaredLength > expectedSize) {
+      return new Response(JSON.stringify({ error: 'Part is larger than expected', expected_size: expectedSize }), {
+        status: 413,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const plaintext = await request.arrayBuffer();
+    if (plaintext.byteLength !== expectedSize) {
+      return new Response(JSON.stringify({
+        error: 'Part size mismatch',
+        expected_size: expectedSize,
+        received_size: plaintext.byteLength
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const keyring = await loadDocumentKeyring(env);
+    const dataKey = keyring && await unwrapDataKey(keyring, upload.encryption_key_id, upload.wrapped_key);
+    if (!dataKey) {
+      return new Response(JSON.stringify({ error: 'Upload encryption key is unavailable' }), {
+        status: 503,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const { ciphertext, iv } = await encryptUploadPart(dataKey, plaintext, uploadId, partNumber);
+    const uploaded = await env.DOCUMENTS
+      .resumeMultipartUpload(upload.staging_path, upload.r2_upload_id)
+      .uploadPart(partNumber, ciphertext);
+
+    // Recorded only once R2 holds the part, so a listed part is always safe to skip on resume
+    await env.DB.prepare(`
+      INSERT INTO document_upload_parts (upload_id, part_number, size, etag, encryption_iv)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(upload_id, part_number) DO UPDATE SET
+        size = excluded.size, etag = excluded.etag, encryption_iv = excluded.encryption_iv, updated_at = datetime('now')
+    `).bind(uploadId, partNumber, plaintext.byteLength, uploaded.etag, iv).run();
+
+    await env.DB.prepare(`
+      UPDATE document_uploads SET updated_at = datetime('now') WHERE upload_id = ?
+    `).bind(uploadId).run();
+
+    return new Response(JSON.stringify({
+      upload_id: uploadId,
+      part_number: partNumber,
+      size: plaintext.byteLength,
+      brainsait_oid: '1.3.6.1.4.1.61026.6.6.4'
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Upload part error:', error);
+    return new Response(JSON.stringify({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+}
@@ -1,6 +1,8 @@
 // BrainSAIT IOD API - Neural Context Management
 // OID: 1.3.6.1.4.1.61026.6.4 (Neural Context API)
 
+import { TenantScope, tenantFilter, tenantKey, tenantObjectKey } from '../../_shared/tenancy';
+
 interface Env {
   DB: D1Database;
   NEURAL_CONTEXT: KVNamespace;
@@ -9,12 +11,20 @@ interface Env {
 }
 
 export async function onRequestGet(context: EventContext<Env, any, any>) {
-  const { env, params } = context;
+  const { env, params, data } = context;
   const sessionOid = params.sessionOid as string;
 
   try {
+    const session = await findScopedSession(env.DB, sessionOid, data.tenant);
+    if (!session) {
+      return new Response(JSON.stringify({ error: 'Neural context not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
     // Get neural context from KV
-    const neuralData = await env.NEURAL_CONTEXT.get(sessionOid);
+    const neuralData = await env.NEURAL_CONTEXT.get(tenantKey(session.tenant_id, sessionOid));
     if (!neuralData) {
       return new Response(JSON.stringify({ error: 'Neural context not found' }), {
         status: 404,
@@ -62,8 +72,7 @@ export async function onRequestGet(context: EventContext<Env, any, any>) {
       status: 200,
       headers: {
         'Content-Type': 'application/json',
-        'Access-Control-Allow-Origin': '*',
-        'Cache-Control': 'public, max-age=60'
+        'Cache-Control': 'private, max-age=60'
       }
     });
 
@@ -80,15 +89,24 @@ export async function onRequestGet(context: EventContext<Env, any, any>) {
 }
 
 export async function onRequestPost(context: EventContext<Env, any, any>) {
-  const { request, env, params } = context;
+  const { request, env, params, data } = context;
   const sessionOid = params.sessionOid as string;
 
   try {
+    const session = await findScopedSession(env.DB, sessionOid, data.tenant);
+    if (!session) {
+      return new Response(JSON.stringify({ error: 'Neural context not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
     const body = await request.json();
     const { sync_type, obsidian_data, neural_features } = body;
 
     // Update neural context in KV
-    const existingData = await env.NEURAL_CONTEXT.get(sessionOid);
+    const contextKey = tenantKey(session.tenant_id, sessionOid);
+    const existingData = await env.NEURAL_CONTEXT.get(contextKey);
     let neuralContext = existingData ? JSON.parse(existingData) : {};
 
     neuralContext = {
@@ -103,11 +121,11 @@ export async function onRequestPost(context: EventContext<Env, any, any>) {
       neuralContext.obsidian_data = obsidian_data;
     }
 
-    await env.NEURAL_CONTEXT.put(sessionOid, JSON.stringify(neuralContext), { expirationTtl: 86400 });
+    await env.NEURAL_CONTEXT.put(contextKey, JSON.stringify(neuralContext), { expirationTtl: 86400 });
 
     // Store neural data in R2 if provided
     if (obsidian_data && obsidian_data.content) {
-      const neuralDataKey = `${sessionOid}/obsidian-sync-${Date.now()}.json`;
+      const neuralDataKey = tenantObjectKey(session.tenant_id, `${sessionOid}/obsidian-sync-${Date.now()}.json`);
       await env.NEURAL_DATA.put(neuralDataKey, JSON.stringify(obsidian_data));
     }
 
@@ -131,10 +149,7 @@ export async function onRequestPost(context: EventContext<Env, any, any>) {
       obsidian_synced: !!obsidian_data
     }), {
       status: 200,
-      headers: {
-        'Content-Type': 'application/json',
-        'Access-Control-Allow-Origin': '*'
-      }
+      headers: { 'Content-Type': 'application/json' }
     });
 
   } catch (error) {
@@ -149,13 +164,11 @@ export async function onRequestPost(context: EventContext<Env, any, any>) {
   }
 }
 
-export async function onRequestOptions(_context: EventContext<Env, any, any>) {
-  return new Response(null, {
-    status: 200,
-    headers: {
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type'
-    }
-  });
-}
\ No newline at end of file
+// Neural context is keyed by session OID; the session row decides which tenant owns it
+async function findScopedSession(db: D1Database, sessionOid: string, scope: TenantScope) {
+  const tenant = tenantFilter(scope, 'tenant_id');
+  return db.prepare(`
+    SELECT session_oid, tenant_id FROM verification_sessions
+    WHERE session_oid = ? AND ${tenant.clause}
+  `).bind(sessionOid, ...tenant.params).first();
+}
@@ -1,14 +1,17 @@
 // BrainSAIT IOD API - Saudi Healthcare Regional Data
 // OID: 1.3.6.1.4.1.61026.6.5.1 (Saudi Healthcare API)
 
+import { scopeCacheKey, TenantScope, tenantFilter } from '../../_shared/tenancy';
+
 interface Env {
   DB: D1Database;
   CACHE: KVNamespace;
 }
 
 export async function onRequestGet(context: EventContext<Env, any, any>) {
-  const { request, env } = context;
+  const { request, env, data } = context;
   const url = new URL(request.url);
+  const scope: TenantScope = data.tenant;
 
   const facilityCode = url.searchParams.get('facility_code');
   const nphiesId = url.searchParams.get('nphies_id');
@@ -17,28 +20,30 @@ export async function onRequestGet(context: EventContext<Env, any, any>) {
 
   try {
     // Check cache first
-    const cacheKey = `saudi_healthcare_${facilityCode || 'all'}_${wilaya || 'all'}_${facilityType || 'all'}`;
+    const cacheKey = scopeCacheKey(scope, `saudi_healthcare_${facilityCode || 'all'}_${wilaya || 'all'}_${facilityType || 'all'}`);
     const cached = await env.CACHE.get(cacheKey);
     if (cached) {
       return new Response(cached, {
         status: 200,
         headers: {
           'Content-Type': 'application/json',
-          'Access-Control-Allow-Origin': '*',
-          'Cache-Control': 'public, max-age=3600'
+          'Cache-Control': 'private, max-age=3600'
         }
       });
     }
 
+    // Facilities are shared reference data; practitioner counts only cover the caller's tenant
+    const tenant = tenantFilter(scope, 'tenant_id');
     let query = `
       SELECT hf.*, COUNT(sh.id) as registered_practitioners,
              COUNT(CASE WHEN sh.is_valid = 1 THEN 1 END) as validated_practitioners
       FROM healthcare_facilities hf
       LEFT JOIN saudi_healthcare sh ON hf.facility_code = sh.facility_code
+        AND sh.user_id IN (SELECT id FROM users WHERE ${tenant.clause})
       WHERE hf.is_active = 1 AND hf.nphies_certified = 1
     `;
 
-    const params: any[] = [];
+    const params: any[] = [...tenant.params];
 
     if (facilityCode) {
       query += ' AND hf.facility_code = ?';
@@ -100,8 +105,7 @@ export async function onRequestGet(context: EventContext<Env, any, any>) {
       status: 200,
       headers: {
         'Content-Type': 'application/json',
-        'Access-Control-Allow-Origin': '*',
-        'Cache-Control': 'public, max-age=3600'
+        'Cache-Control': 'private, max-age=3600'
       }
     });
 
@@ -118,12 +122,25 @@ export async function onRequestGet(context: EventContext<Env, any, any>) {
 }
 
 export async function onRequestPost(context: EventContext<Env, any, any>) {
-  const { request, env } = context;
+  const { request, env, data } = context;
 
   try {
     const body = await request.json();
     const { user_id, nphies_id, facility_code, practitioner_id, practitioner_name_ar, practitioner_name_en, insurance_status } = body;
 
+    // Regional records attach to a users row, which must belong to the caller's tenant
+    const tenant = tenantFilter(data.tenant as TenantScope, 'tenant_id');
+    const user = await env.DB.prepare(`
+      SELECT id FROM users WHERE id = ? AND ${tenant.clause}
+    `).bind(user_id, ...tenant.params).first();
+
+    if (!user) {
+      return new Response(JSON.stringify({ error: 'User not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
     // Validate facility exists
     const facility = await env.DB.prepare(`
       SELECT id FROM healthcare_facilities
@@ -153,10 +170,7 @@ export async function onRequestPost(context: EventContext<Env, any, any>) {
       validation_status: 'validated'
     }), {
       status: 201,
-      headers: {
-        'Content-Type': 'application/json',
-        'Access-Control-Allow-Origin': '*'
-      }
+      headers: { 'Content-Type': 'application/json' }
     });
 
   } catch (error) {
@@ -169,15 +183,4 @@ export async function onRequestPost(context: EventContext<Env, any, any>) {
       headers: { 'Content-Type': 'application/json' }
     });
   }
-}
-
-export async function onRequestOptions(_context: EventContext<Env, any, any>) {
-  return new Response(null, {
-    status: 200,
-    headers: {
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type'
-    }
-  });
 }
\ No newline at end of file
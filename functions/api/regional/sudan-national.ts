@@ -1,44 +1,64 @@
 // BrainSAIT IOD API - Sudan National ID Regional Data
 // OID: 1.3.6.1.4.1.61026.6.5.2 (Sudan National API)
 
+import { scopeCacheKey, TenantScope, tenantFilter } from '../../_shared/tenancy';
+import { enforceRateLimits, rateLimitHeaders } from '../../_shared/rate-limit';
+
 interface Env {
   DB: D1Database;
   CACHE: KVNamespace;
 }
 
 export async function onRequestGet(context: EventContext<Env, any, any>) {
-  const { request, env } = context;
+  const { request, env, data } = context;
   const url = new URL(request.url);
+  const scope: TenantScope = data.tenant;
 
   const wilayaCode = url.searchParams.get('wilaya_code');
   const ministryCode = url.searchParams.get('ministry_code');
   const nationalId = url.searchParams.get('national_id');
 
   try {
+    // Applied before the cache so cached answers cannot be used to enumerate national IDs
+    const rateLimit = await enforceRateLimits(env, 'sudan_national_lookup', scope.tenantId, {
+      ipAddress: request.headers.get('CF-Connecting-IP'),
+      operatorId: data.operator?.operator_id,
+      nationalId
+    });
+    if (rateLimit && !rateLimit.allowed) {
+      return new Response(JSON.stringify({ error: 'Too many national ID lookups', limited_by: rateLimit.dimension }), {
+        status: 429,
+        headers: { 'Content-Type': 'application/json', ...rateLimitHeaders(rateLimit) }
+      });
+    }
+
     // Check cache first
-    const cacheKey = `sudan_national_${wilayaCode || 'all'}_${ministryCode || 'all'}_${nationalId || 'query'}`;
+    const cacheKey = scopeCacheKey(scope, `sudan_national_${wilayaCode || 'all'}_${ministryCode || 'all'}_${nationalId || 'query'}`);
     const cached = await env.CACHE.get(cacheKey);
     if (cached) {
       return new Response(cached, {
         status: 200,
         headers: {
           'Content-Type': 'application/json',
-          'Access-Control-Allow-Origin': '*',
-          'Cache-Control': 'public, max-age=3600'
+          'Cache-Control': 'private, max-age=3600'
         }
       });
     }
 
+    // Wilayas and ministries are shared reference data; citizen records only count within the caller's tenant
+    const tenant = tenantFilter(scope, 'tenant_id');
+    const tenantUsers = `SELECT id FROM users WHERE ${tenant.clause}`;
+
     // Get wilayas data
     let wilayasQuery = `
       SELECT sw.*, COUNT(sn.id) as registered_citizens,
              COUNT(CASE WHEN sn.is_valid = 1 THEN 1 END) as validated_citizens
       FROM sudan_wilayas sw
-      LEFT JOIN sudan_national_id sn ON sw.wilaya_code = sn.wilaya_code
+      LEFT JOIN sudan_national_id sn ON sw.wilaya_code = sn.wilaya_code AND sn.user_id IN (${tenantUsers})
       WHERE sw.is_active = 1
     `;
 
-    const wilayasParams: any[] = [];
+    const wilayasParams: any[] = [...tenant.params];
 
     if (wilayaCode) {
       wilayasQuery += ' AND sw.wilaya_code = ?';
@@ -53,11 +73,11 @@ export async function onRequestGet(context: EventContext<Env, any, any>) {
     let ministriesQuery = `
       SELECT sm.*, COUNT(sn.id) as registered_citizens
       FROM sudan_ministries sm
-      LEFT JOIN sudan_national_id sn ON sm.ministry_code = sn.ministry_code
+      LEFT JOIN sudan_national_id sn ON sm.ministry_code = sn.ministry_code AND sn.user_id IN (${tenantUsers})
       WHERE sm.is_active = 1
     `;
 
-    const ministriesParams: any[] = [];
+    const ministriesParams: any[] = [...tenant.params];
 
     if (ministryCode) {
       ministriesQuery += ' AND sm.ministry_code = ?';
@@ -77,8 +97,8 @@ export async function onRequestGet(context: EventContext<Env, any, any>) {
         FROM sudan_national_id sn
         LEFT JOIN sudan_wilayas sw ON sn.wilaya_code = sw.wilaya_code
         LEFT JOIN sudan_ministries sm ON sn.ministry_code = sm.ministry_code
-        WHERE sn.national_id = ?
-      `).bind(nationalId).first();
+        WHERE sn.national_id = ? AND sn.user_id IN (${tenantUsers})
+      `).bind(nationalId, ...tenant.params).first();
     }
 
     // Get summary statistics
@@ -91,11 +111,11 @@ export async function onRequestGet(context: EventContext<Env, any, any>) {
         COUNT(CASE WHEN sn.is_valid = 1 THEN 1 END) as validated_citizens
       FROM sudan_wilayas sw
       CROSS JOIN sudan_ministries sm
-      LEFT JOIN sudan_national_id sn ON 1=1
+      LEFT JOIN sudan_national_id sn ON sn.user_id IN (${tenantUsers})
       WHERE sw.is_active = 1 AND sm.is_active = 1
     `;
 
-    const stats = await env.DB.prepare(statsQuery).first();
+    const stats = await env.DB.prepare(statsQuery).bind(...tenant.params).first();
 
     const response = {
       query_parameters: {
@@ -131,8 +151,7 @@ export async function onRequestGet(context: EventContext<Env, any, any>) {
       status: 200,
       headers: {
         'Content-Type': 'application/json',
-        'Access-Control-Allow-Origin': '*',
-        'Cache-Control': 'public, max-age=3600'
+        'Cache-Control': 'private, max-age=3600'
       }
     });
 
@@ -149,7 +168,7 @@ export async function onRequestGet(context: EventContext<Env, any, any>) {
 }
 
 export async function onRequestPost(context: EventContext<Env, any, any>) {
-  const { request, env } = context;
+  const { request, env, data } = context;
 
   try {
     const body = await request.json();
@@ -164,6 +183,19 @@ export async function onRequestPost(context: EventContext<Env, any, any>) {
       citizenship_status
     } = body;
 
+    // Regional records attach to a users row, which must belong to the caller's tenant
+    const tenant = tenantFilter(data.tenant as TenantScope, 'tenant_id');
+    const user = await env.DB.prepare(`
+      SELECT id FROM users WHERE id = ? AND ${tenant.clause}
+    `).bind(user_id, ...tenant.params).first();
+
+    if (!user) {
+      return new Response(JSON.stringify({ error: 'User not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
     // Validate wilaya exists
     const wilaya = await env.DB.prepare(`
       SELECT id FROM sudan_wilayas
@@ -218,10 +250,7 @@ export async function onRequestPost(context: EventContext<Env, any, any>) {
       validation_status: 'validated'
     }), {
       status: 201,
-      headers: {
-        'Content-Type': 'application/json',
-        'Access-Control-Allow-Origin': '*'
-      }
+      headers: { 'Content-Type': 'application/json' }
     });
 
   } catch (error) {
@@ -234,15 +263,4 @@ export async function onRequestPost(context: EventContext<Env, any, any>) {
       headers: { 'Content-Type': 'application/json' }
     });
   }
-}
-
-export async function onRequestOptions(_context: EventContext<Env, any, any>) {
-  return new Response(null, {
-    status: 200,
-    headers: {
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type'
-    }
-  });
 }
\ No newline at end of file
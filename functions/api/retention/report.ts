@@ -0,0 +1,53 @@
+// BrainSAIT IOD API - Retention Dry-Run Report
+// OID: 1.3.6.1.4.1.61026.6.11 (Retention API)
+
+import { runRetention } from '../../_shared/retention';
+import { TenantScope } from '../../_shared/tenancy';
+
+interface Env {
+  DB: D1Database;
+  CACHE: KVNamespace;
+  DOCUMENTS: R2Bucket;
+  NEURAL_DATA: R2Bucket;
+}
+
+// Lists what the next maintenance runs would delete, anonymize or archive; nothing is changed
+export async function onRequestGet(context: EventContext<Env, any, any>) {
+  const { request, env, data } = context;
+  const url = new URL(request.url);
+  const sampleLimit = Math.min(Math.max(parseInt(url.searchParams.get('sample_limit') || '20', 10) || 20, 1), 100);
+
+  // Policies are platform-wide and the report samples every tenant's records
+  if (!(data.tenant as TenantScope).allTenants) {
+    return new Response(JSON.stringify({
+      error: 'Forbidden',
+      reason: 'Retention reports span all tenants and require a platform operator'
+    }), {
+      status: 403,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  try {
+    const report = await runRetention(env, { dryRun: true, sampleLimit });
+
+    return new Response(JSON.stringify({
+      ...report,
+      generated_at: new Date().toISOString(),
+      brainsait_oid: '1.3.6.1.4.1.61026.6.11'
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Retention report error:', error);
+    return new Response(JSON.stringify({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+}
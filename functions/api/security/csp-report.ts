@@ -0,0 +1,163 @@
+// BrainSAIT IOD API - CSP Violation Reports
+// OID: 1.3.6.1.4.1.61026.6.8.3 (CSP Report API)
+
+import { recordSecurityIncident } from '../../_shared/incidents';
+import { consumeFixedWindow, rateLimitHeaders } from '../../_shared/rate-limit';
+import { sha256Hex } from '../../_shared/encoding';
+
+interface Env {
+  DB: D1Database;
+  CACHE: KVNamespace;
+  BRAINSAIT_OID_ROOT: string;
+}
+
+interface NormalizedViolation {
+  document_uri: string;
+  blocked_uri: string;
+  effective_directive: string;
+  disposition: string;
+  source_file?: string;
+  line_number?: number;
+  column_number?: number;
+  status_code?: number;
+  sample?: string;
+  referrer?: string;
+  original_policy?: string;
+}
+
+const MAX_REPORTS_PER_REQUEST = 50;
+const REQUESTS_PER_MINUTE = 60;
+const DEDUP_WINDOW_SECONDS = 3600;
+
+export async function onRequestPost(context: EventContext<Env, any, any>) {
+  const { request, env } = context;
+  const sourceIp = request.headers.get('CF-Connecting-IP');
+  const userAgent = request.headers.get('User-Agent');
+  const contentType = (request.headers.get('Content-Type') || '').split(';')[0].trim().toLowerCase();
+
+  try {
+    if (!['application/csp-report', 'application/reports+json', 'application/json'].includes(contentType)) {
+      return new Response(JSON.stringify({ error: 'Unsupported report content type' }), {
+        status: 415,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const rateLimit = await consumeFixedWindow(env.CACHE, `csp_rl_${sourceIp || 'unknown'}`, REQUESTS_PER_MINUTE, 60);
+    if (!rateLimit.allowed) {
+      return new Response(null, { status: 429, headers: rateLimitHeaders(rateLimit) });
+    }
+
+    const payload = await request.json().catch(() => null);
+    const violations = normalizeReports(payload).slice(0, MAX_REPORTS_PER_REQUEST);
+
+    if (violations.length === 0) {
+      return new Response(JSON.stringify({ error: 'No CSP violation reports found' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    for (const violation of violations) {
+      // Browsers resend the same violation on every page view; keep one incident per hour
+      const dedupKey = `csp_dedup_${await fingerprintViolation(violation)}`;
+      if (await env.CACHE.get(dedupKey)) {
+        continue;
+      }
+      await env.CACHE.put(dedupKey, '1', { expirationTtl: DEDUP_WINDOW_SECONDS });
+
+      await recordSecurityIncident(env.DB, env.BRAINSAIT_OID_ROOT, {
+        type: 'csp_violation',
+        data: { source: 'report', content_type: contentType, ...violation },
+        sourceIp,
+        userAgent
+      });
+    }
+
+    // Reporting clients ignore the body; 204 keeps the response cheap
+    return new Response(null, { status: 204 });
+
+  } catch (error) {
+    console.error('CSP report ingestion error:', error);
+    return new Response(JSON.stringify({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+}
+
+// Accepts the legacy report-uri body ({ "csp-report": {...} }) and the Reporting API
+// array ([{ type: "csp-violation", body: {...} }]), which use different field names.
+function normalizeReports(payload: any): NormalizedViolation[] {
+  if (!payload) {
+    return [];
+  }
+
+  if (payload['csp-report']) {
+    const report = payload['csp-report'];
+    return [{
+      document_uri: stripQuery(report['document-uri']),
+      blocked_uri: stripQuery(report['blocked-uri']),
+      effective_directive: report['effective-directive'] || report['violated-directive'] || 'unknown',
+      disposition: report.disposition || 'enforce',
+      source_file: stripQuery(report['source-file']) || undefined,
+      line_number: toNumber(report['line-number']),
+      column_number: toNumber(report['column-number']),
+      status_code: toNumber(report['status-code']),
+      sample: truncate(report['script-sample'], 256),
+      referrer: stripQuery(report.referrer) || undefined,
+      original_policy: truncate(report['original-policy'], 1024)
+    }];
+  }
+
+  if (Array.isArray(payload)) {
+    return payload
+      .filter(report => report?.type === 'csp-violation' && report.body)
+      .map(({ body }) => ({
+        document_uri: stripQuery(body.documentURL),
+        blocked_uri: stripQuery(body.blockedURL),
+        effective_directive: body.effectiveDirective || 'unknown',
+        disposition: body.disposition || 'enforce',
+        source_file: stripQuery(body.sourceFile) || undefined,
+        line_number: toNumber(body.lineNumber),
+        column_number: toNumber(body.columnNumber),
+        status_code: toNumber(body.statusCode),
+        sample: truncate(body.sample, 256),
+        referrer: stripQuery(body.referrer) || undefined,
+        original_policy: truncate(body.originalPolicy, 1024)
+      }));
+  }
+
+  return [];
+}
+
+async function fingerprintViolation(violation: NormalizedViolation): Promise<string> {
+  const identity = [
+    violation.document_uri,
+    violation.blocked_uri,
+    violation.effective_directive,
+    violation.source_file,
+    violation.line_number
+  ].join('|');
+  return sha256Hex(identity);
+}
+
+// Query strings can carry session identifiers; keep only origin and path
+function stripQuery(value: unknown): string {
+  if (typeof value !== 'string') {
+    return '';
+  }
+  return value.split(/[?#]/)[0].slice(0, 512);
+}
+
+function truncate(value: unknown, length: number): string | undefined {
+  return typeof value === 'string' && value ? value.slice(0, length) : undefined;
+}
+
+function toNumber(value: unknown): number | undefined {
+  const number = Number(value);
+  return value !== undefined && value !== null && Number.isFinite(number) ? number : undefined;
+}
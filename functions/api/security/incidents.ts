@@ -0,0 +1,260 @@
+// BrainSAIT IOD API - Security Incident Ingestion and Listing
+// OID: 1.3.6.1.4.1.61026.6.8 (Security Incidents API)
+
+import { decodeCursor, encodeCursor, formatIncident, recordSecurityIncident } from '../../_shared/incidents';
+import { consumeFixedWindow, rateLimitHeaders } from '../../_shared/rate-limit';
+import { TenantScope, tenantFilter } from '../../_shared/tenancy';
+
+interface Env {
+  DB: D1Database;
+  CACHE: KVNamespace;
+  BRAINSAIT_OID_ROOT: string;
+}
+
+interface IncidentReport {
+  type: string;
+  session_id?: string;
+  session_oid?: string;
+  details: Record<string, any>;
+  reported_at?: string;
+}
+
+// Incident types the browser is allowed to report; server-detected types are written directly
+const REPORTABLE_TYPES = ['csp_violation', 'script_injection'];
+
+const MAX_BATCH_SIZE = 25;
+const MAX_DETAILS_BYTES = 8 * 1024;
+const REQUESTS_PER_MINUTE = 20;
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+export async function onRequestGet(context: EventContext<Env, any, any>) {
+  const { request, env, data } = context;
+  const url = new URL(request.url);
+
+  try {
+    const tenant = tenantFilter(data.tenant as TenantScope, 'si.tenant_id');
+    const conditions: string[] = [tenant.clause];
+    const params: any[] = [...tenant.params];
+
+    const type = url.searchParams.get('type');
+    if (type) {
+      conditions.push('si.incident_type = ?');
+      params.push(type);
+    }
+
+    const minRisk = url.searchParams.get('min_risk');
+    if (minRisk !== null) {
+      conditions.push('si.risk_score >= ?');
+      params.push(Number(minRisk));
+    }
+
+    const maxRisk = url.searchParams.get('max_risk');
+    if (maxRisk !== null) {
+      conditions.push('si.risk_score <= ?');
+      params.push(Number(maxRisk));
+    }
+
+    const resolved = url.searchParams.get('resolved');
+    if (resolved === 'true' || resolved === 'false') {
+      conditions.push('si.resolved = ?');
+      params.push(resolved === 'true' ? 1 : 0);
+    }
+
+    const startDate = url.searchParams.get('start_date');
+    if (startDate) {
+      conditions.push('DATE(si.created_at) >= ?');
+      params.push(startDate);
+    }
+
+    const endDate = url.searchParams.get('end_date');
+    if (endDate) {
+      conditions.push('DATE(si.created_at) <= ?');
+      params.push(endDate);
+    }
+
+    const userOid = url.searchParams.get('user_oid');
+    if (userOid) {
+      conditions.push('u.oid = ?');
+      params.push(userOid);
+    }
+
+    // Cursor is the opaque encoding of the last row id seen; rows are returned newest first
+    const cursor = url.searchParams.get('cursor');
+    if (cursor) {
+      const lastId = decodeCursor(cursor);
+      if (lastId === null) {
+        return new Response(JSON.stringify({ error: 'Invalid cursor' }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+      conditions.push('si.id < ?');
+      params.push(lastId);
+    }
+
+    const requestedLimit = Number(url.searchParams.get('limit')) || DEFAULT_PAGE_SIZE;
+    const limit = Math.min(Math.max(requestedLimit, 1), MAX_PAGE_SIZE);
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const incidents = await env.DB.prepare(`
+      SELECT si.*, u.oid as user_oid
+      FROM security_incidents si
+      LEFT JOIN users u ON si.user_id = u.id
+      ${whereClause}
+      ORDER BY si.id DESC
+      LIMIT ?
+    `).bind(...params, limit + 1).all();
+
+    const rows = incidents.results || [];
+    const page = rows.slice(0, limit);
+    const hasMore = rows.length > limit;
+
+    return new Response(JSON.stringify({
+      incidents: page.map(formatIncident),
+      next_cursor: hasMore ? encodeCursor(page[page.length - 1].id) : null,
+      has_more: hasMore,
+      brainsait_oid: '1.3.6.1.4.1.61026.6.8.1'
+    }), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'no-store'
+      }
+    });
+
+  } catch (error) {
+    console.error('Security incident listing error:', error);
+    return new Response(JSON.stringify({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+}
+
+export async function onRequestPost(context: EventContext<Env, any, any>) {
+  const { request, env } = context;
+  const sourceIp = request.headers.get('CF-Connecting-IP');
+  const userAgent = request.headers.get('User-Agent');
+
+  try {
+    const rateLimit = await consumeFixedWindow(env.CACHE, `incident_rl_${sourceIp || 'unknown'}`, REQUESTS_PER_MINUTE, 60);
+    if (!rateLimit.allowed) {
+      return new Response(JSON.stringify({ error: 'Too many incident reports' }), {
+        status: 429,
+        headers: { 'Content-Type': 'application/json', ...rateLimitHeaders(rateLimit) }
+      });
+    }
+
+    const body = await request.json().catch(() => null);
+    const reports: unknown[] | null = Array.isArray(body?.incidents) ? body.incidents : null;
+
+    if (!reports || reports.length === 0 || reports.length > MAX_BATCH_SIZE) {
+      return new Response(JSON.stringify({
+        error: `Body must contain an incidents array with 1 to ${MAX_BATCH_SIZE} entries`
+      }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const accepted: Array<{ index: number; incident_oid: string }> = [];
+    const rejected: Array<{ index: number; errors: string[] }> = [];
+
+    for (const [index, report] of reports.entries()) {
+      const errors = validateIncidentReport(report);
+      if (errors.length > 0) {
+        rejected.push({ index, errors });
+        continue;
+      }
+
+      const incident = report as IncidentReport;
+      const session = await findSession(env.DB, incident);
+
+      const incidentOid = await recordSecurityIncident(env.DB, env.BRAINSAIT_OID_ROOT, {
+        type: incident.type,
+        userId: session?.user_id ?? null,
+        // Risk is scored server-side; a browser report cannot raise or lower it
+        riskScore: null,
+        data: {
+          source: 'client',
+          session_id: incident.session_id,
+          session_oid: incident.session_oid || session?.session_oid,
+          reported_at: incident.reported_at,
+          details: incident.details
+        },
+        sourceIp,
+        userAgent,
+        // Filed under the session's tenant so its analysts see it and its blocks stay tenant-scoped
+        tenantId: session?.tenant_id ?? null
+      });
+
+      accepted.push({ index, incident_oid: incidentOid });
+    }
+
+    return new Response(JSON.stringify({
+      accepted,
+      rejected,
+      brainsait_oid: '1.3.6.1.4.1.61026.4.2'
+    }), {
+      status: accepted.length > 0 ? 202 : 400,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Security incident ingestion error:', error);
+    return new Response(JSON.stringify({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+}
+
+function validateIncidentReport(report: any): string[] {
+  const errors: string[] = [];
+
+  if (!report || typeof report !== 'object' || Array.isArray(report)) {
+    return ['Incident must be an object'];
+  }
+
+  if (!REPORTABLE_TYPES.includes(report.type)) {
+    errors.push(`type must be one of: ${REPORTABLE_TYPES.join(', ')}`);
+  }
+
+  if (!report.details || typeof report.details !== 'object' || Array.isArray(report.details)) {
+    errors.push('details must be an object');
+  } else if (new TextEncoder().encode(JSON.stringify(report.details)).length > MAX_DETAILS_BYTES) {
+    errors.push(`details must not exceed ${MAX_DETAILS_BYTES} bytes`);
+  }
+
+  for (const field of ['session_id', 'session_oid', 'reported_at']) {
+    if (report[field] !== undefined && (typeof report[field] !== 'string' || report[field].length > 256)) {
+      errors.push(`${field} must be a string of at most 256 characters`);
+    }
+  }
+
+  if (report.reported_at && Number.isNaN(Date.parse(report.reported_at))) {
+    errors.push('reported_at must be an ISO 8601 timestamp');
+  }
+
+  return errors;
+}
+
+async function findSession(db: D1Database, incident: IncidentReport): Promise<{ user_id: number | null; session_oid: string; tenant_id: string | null } | null> {
+  if (!incident.session_id && !incident.session_oid) {
+    return null;
+  }
+
+  return db.prepare(`
+    SELECT user_id, session_oid, tenant_id FROM verification_sessions
+    WHERE stripe_session_id = ? OR session_oid = ?
+    LIMIT 1
+  `).bind(incident.session_id || null, incident.session_oid || null).first();
+}
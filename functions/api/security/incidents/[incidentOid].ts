@@ -0,0 +1,146 @@
+// BrainSAIT IOD API - Security Incident Triage
+// OID: 1.3.6.1.4.1.61026.6.8.2 (Incident Triage API)
+
+import { formatIncident } from '../../../_shared/incidents';
+import { applyBlock } from '../../../_shared/blocklist';
+import { TenantScope, tenantFilter } from '../../../_shared/tenancy';
+
+interface Env {
+  DB: D1Database;
+  CACHE: KVNamespace;
+}
+
+interface TriageRequest {
+  resolved?: boolean;
+  blocked?: boolean;
+  note?: string;
+  analyst?: string;
+}
+
+const MAX_NOTE_LENGTH = 2000;
+
+export async function onRequestGet(context: EventContext<Env, any, any>) {
+  const { env, params, data } = context;
+  const incidentOid = params.incidentOid as string;
+
+  try {
+    const incident = await findIncident(env.DB, incidentOid, data.tenant);
+
+    if (!incident) {
+      return new Response(JSON.stringify({ error: 'Incident not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    return new Response(JSON.stringify(formatIncident(incident)), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'no-store'
+      }
+    });
+
+  } catch (error) {
+    console.error('Security incident retrieval error:', error);
+    return new Response(JSON.stringify({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+}
+
+export async function onRequestPatch(context: EventContext<Env, any, any>) {
+  const { request, env, params, data } = context;
+  const incidentOid = params.incidentOid as string;
+
+  try {
+    const body: TriageRequest = await request.json();
+
+    const errors: string[] = [];
+    if (body.resolved !== undefined && typeof body.resolved !== 'boolean') errors.push('resolved must be a boolean');
+    if (body.blocked !== undefined && typeof body.blocked !== 'boolean') errors.push('blocked must be a boolean');
+    if (body.note !== undefined && (typeof body.note !== 'string' || !body.note.trim() || body.note.length > MAX_NOTE_LENGTH)) {
+      errors.push(`note must be a non-empty string of at most ${MAX_NOTE_LENGTH} characters`);
+    }
+    if (body.resolved === undefined && body.blocked === undefined && body.note === undefined) {
+      errors.push('Provide at least one of resolved, blocked or note');
+    }
+
+    if (errors.length > 0) {
+      return new Response(JSON.stringify({ error: 'Invalid triage request', details: errors }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const incident = await findIncident(env.DB, incidentOid, data.tenant);
+    if (!incident) {
+      return new Response(JSON.stringify({ error: 'Incident not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const notes = incident.analyst_notes ? JSON.parse(incident.analyst_notes) : [];
+    if (body.note) {
+      notes.push({
+        // The authenticated operator is authoritative; the body field predates operator sessions
+        analyst: data.operator?.operator_id || body.analyst || 'unknown',
+        note: body.note.trim(),
+        created_at: new Date().toISOString()
+      });
+    }
+
+    const resolved = body.resolved ?? !!incident.resolved;
+    const blocked = body.blocked ?? !!incident.blocked;
+
+    await env.DB.prepare(`
+      UPDATE security_incidents
+      SET resolved = ?,
+          resolved_at = CASE WHEN ? = 1 THEN COALESCE(resolved_at, datetime('now')) ELSE NULL END,
+          blocked = ?,
+          analyst_notes = ?
+      WHERE incident_oid = ?
+    `).bind(resolved ? 1 : 0, resolved ? 1 : 0, blocked ? 1 : 0, JSON.stringify(notes), incidentOid).run();
+
+    // Blocking covers the reporting IP and the subject's device, whichever are known
+    if (body.blocked !== undefined) {
+      const incidentData = incident.incident_data ? JSON.parse(incident.incident_data) : {};
+      await applyBlock(env.CACHE, incident.tenant_id ?? null, {
+        ipAddress: incident.source_ip,
+        deviceFingerprint: incidentData.device_fingerprint || incident.user_device_fingerprint
+      }, incidentOid, body.blocked);
+    }
+
+    const updated = await findIncident(env.DB, incidentOid, data.tenant);
+
+    return new Response(JSON.stringify(formatIncident(updated)), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Security incident triage error:', error);
+    return new Response(JSON.stringify({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+}
+
+async function findIncident(db: D1Database, incidentOid: string, scope: TenantScope) {
+  const tenant = tenantFilter(scope, 'si.tenant_id');
+  return db.prepare(`
+    SELECT si.*, u.oid as user_oid, u.device_fingerprint as user_device_fingerprint
+    FROM security_incidents si
+    LEFT JOIN users u ON si.user_id = u.id
+    WHERE si.incident_oid = ? AND ${tenant.clause}
+  `).bind(incidentOid, ...tenant.params).first();
+}
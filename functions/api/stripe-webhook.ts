@@ -0,0 +1,212 @@
+// BrainSAIT IOD API - Stripe Identity Webhook
+// OID: 1.3.6.1.4.1.61026.6.7 (Stripe Webhook API)
+
+import { mergeVerifiedUser, toUserVerificationStatus, upsertVerificationUser } from '../_shared/users';
+import { redactSession, refreshSessionCaches } from '../_shared/session-lifecycle';
+import { timingSafeEqual, toHex } from '../_shared/encoding';
+
+interface Env {
+  DB: D1Database;
+  SESSIONS: KVNamespace;
+  CACHE: KVNamespace;
+  NEURAL_CONTEXT: KVNamespace;
+  DOCUMENTS: R2Bucket;
+  NEURAL_DATA: R2Bucket;
+  VITE_STRIPE_WEBHOOK_SECRET: string;
+  BRAINSAIT_OID_ROOT: string;
+}
+
+interface StripeEvent {
+  id: string;
+  type: string;
+  created: number;
+  data: {
+    object: any;
+  };
+}
+
+// Breaks ties between events Stripe created in the same second; redaction outranks everything
+const STATUS_PRECEDENCE: Record<string, number> = {
+  created: 0,
+  processing: 1,
+  requires_input: 2,
+  expired: 2,
+  canceled: 3,
+  verified: 3,
+  redacted: 4
+};
+
+const HANDLED_EVENTS = [
+  'identity.verification_session.verified',
+  'identity.verification_session.requires_input',
+  'identity.verification_session.processing',
+  'identity.verification_session.canceled',
+  'identity.verification_session.redacted'
+];
+
+// Signed payloads older than this are treated as replays
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+export async function onRequestPost(context: EventContext<Env, any, any>) {
+  const { request, env } = context;
+
+  try {
+    // Signature must be checked against the raw body, before any JSON parsing
+    const payload = await request.text();
+    const signatureHeader = request.headers.get('Stripe-Signature');
+
+    if (!env.VITE_STRIPE_WEBHOOK_SECRET || !signatureHeader) {
+      return new Response(JSON.stringify({ error: 'Missing Stripe signature' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const signatureValid = await verifyStripeSignature(payload, signatureHeader, env.VITE_STRIPE_WEBHOOK_SECRET);
+    if (!signatureValid) {
+      return new Response(JSON.stringify({ error: 'Invalid Stripe signature' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const event: StripeEvent = JSON.parse(payload);
+
+    if (!HANDLED_EVENTS.includes(event.type)) {
+      return new Response(JSON.stringify({ received: true, handled: false }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Stripe delivers at-least-once; skip events we have already applied
+    const eventKey = `stripe_event_${event.id}`;
+    if (await env.CACHE.get(eventKey)) {
+      return new Response(JSON.stringify({ received: true, duplicate: true }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const stripeSession = event.data.object;
+    const sessionStatus = event.type === 'identity.verification_session.redacted' ? 'redacted' : stripeSession.status;
+
+    const dbSession = await env.DB.prepare(`
+      SELECT session_oid, stripe_session_id, user_id, country_context, session_status, tenant_id, last_event_at FROM verification_sessions
+      WHERE stripe_session_id = ?
+    `).bind(stripeSession.id).first();
+
+    // Stripe does not deliver events in order; one older than the status already applied, or
+    // one that would take a session out of redaction, is acknowledged but not applied
+    if (dbSession && !supersedesSessionStatus(dbSession as { session_status: string; last_event_at: number | null }, event.created, sessionStatus)) {
+      await env.CACHE.put(eventKey, new Date().toISOString(), { expirationTtl: 86400 });
+      return new Response(JSON.stringify({
+        received: true,
+        handled: false,
+        stale: true,
+        session_oid: dbSession.session_oid,
+        session_status: dbSession.session_status
+      }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const tenantId: string | null = dbSession ? dbSession.tenant_id : stripeSession.metadata?.tenant_id ?? null;
+
+    let user: { id: number; oid: string } | null = null;
+    if (sessionStatus === 'redacted') {
+      // Erases what the session collected; a users row other sessions still share is kept
+      if (dbSession) {
+        await redactSession(env, dbSession as { session_oid: string; stripe_session_id: string; user_id: number | null; tenant_id: string | null });
+      }
+    } else {
+      // Create or update the verified subject, then link it to the session
+      user = await upsertVerificationUser(env.DB, {
+        oidRoot: env.BRAINSAIT_OID_ROOT,
+        stripeVerificationId: stripeSession.id,
+        countryCode: dbSession?.country_context || stripeSession.metadata?.country_code,
+        verificationType: stripeSession.type,
+        verificationStatus: toUserVerificationStatus(sessionStatus),
+        tenantId
+      });
+
+      if (sessionStatus === 'verified') {
+        user = await mergeVerifiedUser(env.DB, user, stripeSession.id, tenantId);
+      }
+    }
+
+    await env.DB.prepare(`
+      UPDATE verification_sessions
+      SET session_status = ?,
+          user_id = COALESCE(user_id, ?),
+          last_event_at = MAX(COALESCE(last_event_at, 0), ?),
+          completed_at = CASE WHEN ? IN ('verified', 'requires_input', 'canceled') THEN datetime('now') ELSE completed_at END
+      WHERE stripe_session_id = ? AND (session_status IS NOT 'redacted' OR ? = 'redacted')
+    `).bind(sessionStatus, user?.id ?? null, event.created, sessionStatus, stripeSession.id, sessionStatus).run();
+
+    await refreshSessionCaches(env, stripeSession, sessionStatus, tenantId);
+
+    await env.CACHE.put(eventKey, new Date().toISOString(), { expirationTtl: 86400 });
+
+    return new Response(JSON.stringify({
+      received: true,
+      handled: true,
+      event_type: event.type,
+      session_oid: dbSession?.session_oid || stripeSession.metadata?.brainsait_oid,
+      session_status: sessionStatus,
+      user_oid: user?.oid ?? null
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Stripe webhook processing error:', error);
+    return new Response(JSON.stringify({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+}
+
+function supersedesSessionStatus(current: { session_status: string; last_event_at: number | null }, created: number, status: string): boolean {
+  if (current.session_status === 'redacted') {
+    return false;
+  }
+  if (status === 'redacted' || current.last_event_at === null || created > current.last_event_at) {
+    return true;
+  }
+  return created === current.last_event_at
+    && (STATUS_PRECEDENCE[status] ?? 0) >= (STATUS_PRECEDENCE[current.session_status] ?? 0);
+}
+
+async function verifyStripeSignature(payload: string, header: string, secret: string): Promise<boolean> {
+  const parts = header.split(',').map(part => part.trim().split('='));
+  const timestamp = parts.find(([key]) => key === 't')?.[1];
+  const signatures = parts.filter(([key]) => key === 'v1').map(([, value]) => value);
+
+  if (!timestamp || signatures.length === 0) {
+    return false;
+  }
+
+  const age = Math.floor(Date.now() / 1000) - Number(timestamp);
+  if (!Number.isFinite(age) || Math.abs(age) > SIGNATURE_TOLERANCE_SECONDS) {
+    return false;
+  }
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const digest = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`${timestamp}.${payload}`));
+  const expected = toHex(digest);
+
+  return signatures.some(signature => timingSafeEqual(signature, expected));
+}
@@ -1,6 +1,10 @@
 // BrainSAIT IOD API - Get Verification Session Status
 // OID: 1.3.6.1.4.1.61026.6.2 (Session Status API)
 
+import { canAccessTenant, TenantScope, tenantKey } from '../../_shared/tenancy';
+import { enforceRateLimits, rateLimitHeaders } from '../../_shared/rate-limit';
+import { isSessionExpired, markSessionExpired } from '../../_shared/session-limits';
+
 interface Env {
   DB: D1Database;
   SESSIONS: KVNamespace;
@@ -10,16 +14,50 @@ interface Env {
 }
 
 export async function onRequestGet(context: EventContext<Env, any, any>) {
-  const { env, params } = context;
+  const { request, env, params, data } = context;
   const sessionId = params.sessionId as string;
+  const scope: TenantScope = data.tenant;
 
   try {
-    // First check KV cache for quick access
-    const cachedSession = await env.SESSIONS.get(sessionId);
-    let sessionData: any = null;
+    // Each status check is a call against Stripe's API quota
+    const rateLimit = await enforceRateLimits(env, 'stripe_session_status', scope.tenantId, {
+      ipAddress: request.headers.get('CF-Connecting-IP'),
+      apiKeyId: data.apiKey?.key_id
+    });
+    if (rateLimit && !rateLimit.allowed) {
+      return new Response(JSON.stringify({ error: 'Too many status requests', limited_by: rateLimit.dimension }), {
+        status: 429,
+        headers: { 'Content-Type': 'application/json', ...rateLimitHeaders(rateLimit) }
+      });
+    }
 
-    if (cachedSession) {
-      sessionData = JSON.parse(cachedSession);
+    // Get session from database for additional context
+    const dbSession = await env.DB.prepare(`
+      SELECT vs.*, u.oid as user_oid, u.risk_score, u.verification_status
+      FROM verification_sessions vs
+      LEFT JOIN users u ON vs.user_id = u.id
+      WHERE vs.stripe_session_id = ?
+    `).bind(sessionId).first();
+
+    // Another tenant's session is indistinguishable from one that does not exist
+    if (dbSession && !canAccessTenant(scope, dbSession.tenant_id)) {
+      return new Response(JSON.stringify({ error: 'Session not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Expired sessions are answered from D1 without spending a Stripe call
+    if (dbSession && isSessionExpired(dbSession as { expires_at: string | null; session_status: string | null })) {
+      await markSessionExpired(env.DB, dbSession.session_oid as string);
+      return new Response(JSON.stringify({
+        error: 'Verification session expired',
+        session_oid: dbSession.session_oid,
+        expires_at: dbSession.expires_at
+      }), {
+        status: 410,
+        headers: { 'Content-Type': 'application/json' }
+      });
     }
 
     // Get latest status from Stripe
@@ -38,18 +76,30 @@ export async function onRequestGet(context: EventContext<Env, any, any>) {
 
     const stripeSession = await stripeResponse.json();
 
-    // Get session from database for additional context
-    const dbSession = await env.DB.prepare(`
-      SELECT vs.*, u.oid as user_oid, u.risk_score, u.verification_status
-      FROM verification_sessions vs
-      LEFT JOIN users u ON vs.stripe_session_id = u.stripe_verification_id
-      WHERE vs.stripe_session_id = ?
-    `).bind(sessionId).first();
+    // Sessions missing from D1 fall back to the tenant stamped on the Stripe metadata
+    const sessionTenant = dbSession ? dbSession.tenant_id : stripeSession.metadata?.tenant_id ?? null;
+    if (!dbSession && !canAccessTenant(scope, sessionTenant)) {
+      return new Response(JSON.stringify({ error: 'Session not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Check KV cache for the session record written at creation
+    const cachedSession = await env.SESSIONS.get(tenantKey(sessionTenant, sessionId));
+    let sessionData: any = null;
+
+    if (cachedSession) {
+      sessionData = JSON.parse(cachedSession);
+    }
+
+    // Nothing collected for a redacted session is served again, even if a copy was left behind
+    const redacted = dbSession?.session_status === 'redacted' || stripeSession.status === 'redacted';
 
     // Get neural context if available
     let neuralContext = null;
-    if (sessionData?.session_oid) {
-      const neuralData = await env.NEURAL_CONTEXT.get(sessionData.session_oid);
+    if (sessionData?.session_oid && !redacted) {
+      const neuralData = await env.NEURAL_CONTEXT.get(tenantKey(sessionTenant, sessionData.session_oid));
       if (neuralData) {
         neuralContext = JSON.parse(neuralData);
       }
@@ -57,19 +107,22 @@ export async function onRequestGet(context: EventContext<Env, any, any>) {
 
     // Get regional context based on country
     let regionalData = null;
-    if (dbSession?.country_context === 'SA') {
+    if (!redacted && dbSession?.country_context === 'SA') {
       regionalData = await getSaudiHealthcareContext(env.DB, sessionId);
-    } else if (dbSession?.country_context === 'SD') {
+    } else if (!redacted && dbSession?.country_context === 'SD') {
       regionalData = await getSudanNationalContext(env.DB, sessionId);
     }
 
-    // Update session status in database if changed
-    if (dbSession && dbSession.session_status !== stripeSession.status) {
+    // Update session status in database if changed (redaction is terminal and set by the webhook);
+    // the read counts as an event so webhooks created before it are not applied over it
+    if (dbSession && dbSession.session_status !== 'redacted' && dbSession.session_status !== stripeSession.status) {
       await env.DB.prepare(`
         UPDATE verification_sessions
-        SET session_status = ?, completed_at = CASE WHEN ? IN ('verified', 'requires_input') THEN datetime('now') ELSE completed_at END
-        WHERE stripe_session_id = ?
-      `).bind(stripeSession.status, stripeSession.status, sessionId).run();
+        SET session_status = ?,
+            last_event_at = MAX(COALESCE(last_event_at, 0), ?),
+            completed_at = CASE WHEN ? IN ('verified', 'requires_input') THEN datetime('now') ELSE completed_at END
+        WHERE stripe_session_id = ? AND session_status IS NOT 'redacted'
+      `).bind(stripeSession.status, Math.floor(Date.now() / 1000), stripeSession.status, sessionId).run();
     }
 
     // Build comprehensive response
@@ -77,8 +130,14 @@ export async function onRequestGet(context: EventContext<Env, any, any>) {
       stripe_session: stripeSession,
       brainsait_context: {
         session_oid: sessionData?.session_oid || dbSession?.session_oid,
+        user_oid: redacted ? null : dbSession?.user_oid || sessionData?.user_oid,
         country_code: dbSession?.country_context || sessionData?.country_code,
-        risk_score: dbSession?.risk_score || 0,
+        tenant_id: sessionTenant,
+        risk_score: redacted ? 0 : dbSession?.risk_score || 0,
+        attempt_count: dbSession?.attempt_count ?? null,
+        max_attempts: dbSession?.max_attempts ?? null,
+        expires_at: dbSession?.expires_at ?? null,
+        parent_session_oid: dbSession?.parent_session_oid ?? null,
         neural_integration: !!neuralContext,
         regional_integration: !!regionalData
       },
@@ -95,14 +154,13 @@ export async function onRequestGet(context: EventContext<Env, any, any>) {
     };
 
     // Cache the response for 5 minutes
-    await env.CACHE.put(`session_${sessionId}`, JSON.stringify(response), { expirationTtl: 300 });
+    await env.CACHE.put(tenantKey(sessionTenant, `session_${sessionId}`), JSON.stringify(response), { expirationTtl: 300 });
 
     return new Response(JSON.stringify(response), {
       status: 200,
       headers: {
         'Content-Type': 'application/json',
-        'Access-Control-Allow-Origin': '*',
-        'Cache-Control': 'public, max-age=60'
+        'Cache-Control': 'private, max-age=60'
       }
     });
 
@@ -122,9 +180,10 @@ async function getSaudiHealthcareContext(db: D1Database, sessionId: string) {
   const result = await db.prepare(`
     SELECT sh.*, hf.name_ar as facility_name_ar, hf.name_en as facility_name_en
     FROM saudi_healthcare sh
-    JOIN users u ON sh.user_id = u.id
+    JOIN verification_sessions vs ON sh.user_id = vs.user_id
     JOIN healthcare_facilities hf ON sh.facility_code = hf.facility_code
-    WHERE u.stripe_verification_id = ?
+    WHERE vs.stripe_session_id = ?
+    ORDER BY sh.validation_timestamp DESC
   `).bind(sessionId).first();
 
   return result ? {
@@ -150,10 +209,11 @@ async function getSudanNationalContext(db: D1Database, sessionId: string) {
     SELECT sn.*, sw.name_ar as wilaya_name_ar, sw.name_en as wilaya_name_en,
            sm.name_ar as ministry_name_ar, sm.name_en as ministry_name_en
     FROM sudan_national_id sn
-    JOIN users u ON sn.user_id = u.id
+    JOIN verification_sessions vs ON sn.user_id = vs.user_id
     LEFT JOIN sudan_wilayas sw ON sn.wilaya_code = sw.wilaya_code
     LEFT JOIN sudan_ministries sm ON sn.ministry_code = sm.ministry_code
-    WHERE u.stripe_verification_id = ?
+    WHERE vs.stripe_session_id = ?
+    ORDER BY sn.validation_timestamp DESC
   `).bind(sessionId).first();
 
   return result ? {
@@ -0,0 +1,87 @@
+// BrainSAIT IOD API - Cancel Verification Session
+// OID: 1.3.6.1.4.1.61026.6.2.1 (Session Cancellation)
+
+import { findScopedSession, refreshSessionCaches, stripeIdentityRequest } from '../../../_shared/session-lifecycle';
+
+interface Env {
+  DB: D1Database;
+  SESSIONS: KVNamespace;
+  CACHE: KVNamespace;
+  VITE_STRIPE_SECRET_KEY: string;
+}
+
+// Stripe only cancels sessions that are still waiting on the subject
+const CANCELABLE_STATUSES = ['created', 'requires_input', 'expired'];
+
+export async function onRequestPost(context: EventContext<Env, any, any>) {
+  const { env, params, data } = context;
+  const sessionId = params.sessionId as string;
+
+  try {
+    const session = await findScopedSession(env.DB, sessionId, data.tenant);
+    if (!session) {
+      return new Response(JSON.stringify({ error: 'Session not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const operatorCountries: string[] | null = data.operator?.countries ?? null;
+    if (operatorCountries && session.country_context && !operatorCountries.includes(session.country_context)) {
+      return new Response(JSON.stringify({ error: `Operator is not authorized for country ${session.country_context}` }), {
+        status: 403,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (!CANCELABLE_STATUSES.includes(session.session_status)) {
+      return new Response(JSON.stringify({
+        error: 'Session cannot be canceled',
+        reason: `Session status is ${session.session_status}`
+      }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const stripeResponse = await stripeIdentityRequest(env.VITE_STRIPE_SECRET_KEY, `/${sessionId}/cancel`);
+    if (!stripeResponse.ok) {
+      const error = await stripeResponse.text();
+      return new Response(JSON.stringify({ error: 'Stripe API error', details: error }), {
+        status: stripeResponse.status,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const stripeSession = await stripeResponse.json();
+
+    await env.DB.prepare(`
+      UPDATE verification_sessions
+      SET session_status = 'canceled', completed_at = datetime('now'), last_event_at = MAX(COALESCE(last_event_at, 0), ?)
+      WHERE stripe_session_id = ?
+    `).bind(Math.floor(Date.now() / 1000), sessionId).run();
+
+    await refreshSessionCaches(env, stripeSession, 'canceled', session.tenant_id);
+
+    return new Response(JSON.stringify({
+      stripe_session_id: sessionId,
+      session_oid: session.session_oid,
+      session_status: 'canceled',
+      canceled_by: data.operator?.operator_id ?? null,
+      brainsait_oid: '1.3.6.1.4.1.61026.6.2.1'
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Session cancellation error:', error);
+    return new Response(JSON.stringify({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+}
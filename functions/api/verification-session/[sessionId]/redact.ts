@@ -0,0 +1,98 @@
+// BrainSAIT IOD API - Redact Verification Session
+// OID: 1.3.6.1.4.1.61026.6.2.2 (Session Redaction)
+
+import { findScopedSession, redactSession, refreshSessionCaches, stripeIdentityRequest } from '../../../_shared/session-lifecycle';
+
+interface Env {
+  DB: D1Database;
+  SESSIONS: KVNamespace;
+  CACHE: KVNamespace;
+  NEURAL_CONTEXT: KVNamespace;
+  DOCUMENTS: R2Bucket;
+  NEURAL_DATA: R2Bucket;
+  VITE_STRIPE_SECRET_KEY: string;
+}
+
+export async function onRequestPost(context: EventContext<Env, any, any>) {
+  const { env, params, data } = context;
+  const sessionId = params.sessionId as string;
+
+  try {
+    const session = await findScopedSession(env.DB, sessionId, data.tenant);
+    if (!session) {
+      return new Response(JSON.stringify({ error: 'Session not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const operatorCountries: string[] | null = data.operator?.countries ?? null;
+    if (operatorCountries && session.country_context && !operatorCountries.includes(session.country_context)) {
+      return new Response(JSON.stringify({ error: `Operator is not authorized for country ${session.country_context}` }), {
+        status: 403,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Stripe refuses to redact while a verification is being processed
+    if (session.session_status === 'processing' || session.session_status === 'redacted') {
+      return new Response(JSON.stringify({
+        error: 'Session cannot be redacted',
+        reason: `Session status is ${session.session_status}`
+      }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const stripeResponse = await stripeIdentityRequest(env.VITE_STRIPE_SECRET_KEY, `/${sessionId}/redact`);
+    if (!stripeResponse.ok) {
+      const error = await stripeResponse.text();
+      return new Response(JSON.stringify({ error: 'Stripe API error', details: error }), {
+        status: stripeResponse.status,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const stripeSession = await stripeResponse.json();
+
+    // Stripe finishes asynchronously and confirms with a redacted webhook; our copies go now
+    await redactSession(env, session);
+
+    const sessionData = session.session_data ? JSON.parse(session.session_data) : {};
+    await env.DB.prepare(`
+      UPDATE verification_sessions
+      SET session_status = 'redacted', session_data = ?
+      WHERE stripe_session_id = ?
+    `).bind(JSON.stringify({
+      type: sessionData.type,
+      api_key_id: sessionData.api_key_id,
+      redacted_at: new Date().toISOString(),
+      redacted_by: data.operator?.operator_id ?? null
+    }), sessionId).run();
+
+    await refreshSessionCaches(env, stripeSession, 'redacted', session.tenant_id);
+
+    return new Response(JSON.stringify({
+      stripe_session_id: sessionId,
+      session_oid: session.session_oid,
+      session_status: 'redacted',
+      stripe_redaction_status: stripeSession.redaction?.status ?? null,
+      redacted_by: data.operator?.operator_id ?? null,
+      brainsait_oid: '1.3.6.1.4.1.61026.6.2.2'
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Session redaction error:', error);
+    return new Response(JSON.stringify({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+}
@@ -0,0 +1,317 @@
+// BrainSAIT IOD API - Re-issue Verification Session
+// OID: 1.3.6.1.4.1.61026.6.2.3 (Session Re-issue)
+
+import { recordSecurityIncident } from '../../../_shared/incidents';
+import { enforceRateLimits, rateLimitHeaders } from '../../../_shared/rate-limit';
+import { DEFAULT_MAX_ATTEMPTS, isSessionExpired } from '../../../_shared/session-limits';
+import {
+  AUDIT_TOKEN_HEADER,
+  callerMetadataParams,
+  findScopedSession,
+  findSessionByAuditToken,
+  refreshSessionCaches,
+  stripeIdentityRequest
+} from '../../../_shared/session-lifecycle';
+import { tenantKey } from '../../../_shared/tenancy';
+import { findBlock } from '../../../_shared/blocklist';
+import { assessNetwork, loadAnonymizerList } from '../../../_shared/network';
+import { assessVerificationRisk, resolveRiskThreshold } from '../../../_shared/risk';
+import { randomToken, sha256Hex } from '../../../_shared/encoding';
+
+interface Env {
+  DB: D1Database;
+  SESSIONS: KVNamespace;
+  CACHE: KVNamespace;
+  NEURAL_DATA: R2Bucket;
+  VITE_STRIPE_SECRET_KEY: string;
+  BRAINSAIT_OID_ROOT: string;
+  RISK_BLOCK_THRESHOLD?: string;
+}
+
+// A session the subject can still complete is resumed, not replaced
+const RETRYABLE_STATUSES = ['requires_input', 'canceled', 'expired'];
+
+export async function onRequestPost(context: EventContext<Env, any, any>) {
+  const { request, env, params, data } = context;
+  const sessionId = params.sessionId as string;
+
+  try {
+    // Operators and tenant backends are tenant-scoped as usual; the subject's browser has neither
+    // and proves the session with the audit token it was issued at creation
+    const subjectCaller = !data.operator && !data.apiKey;
+    const session = subjectCaller
+      ? await findSessionByAuditToken(env.DB, sessionId, request.headers.get(AUDIT_TOKEN_HEADER))
+      : await findScopedSession(env.DB, sessionId, data.tenant);
+    if (!session) {
+      return new Response(JSON.stringify({ error: 'Session not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const operatorCountries: string[] | null = data.operator?.countries ?? null;
+    if (operatorCountries && session.country_context && !operatorCountries.includes(session.country_context)) {
+      return new Response(JSON.stringify({ error: `Operator is not authorized for country ${session.country_context}` }), {
+        status: 403,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const keyCountries: string[] | null = data.apiKey?.allowed_countries ?? null;
+    if (keyCountries && !keyCountries.includes(session.country_context || 'US')) {
+      return new Response(JSON.stringify({ error: `API key is not authorized for country ${session.country_context || 'US'}` }), {
+        status: 403,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Re-issuing creates a Stripe session, so it spends the creation budget
+    const ipAddress = request.headers.get('CF-Connecting-IP');
+    const rateLimit = await enforceRateLimits(env, 'stripe_session_create', session.tenant_id, {
+      ipAddress,
+      apiKeyId: data.apiKey?.key_id
+    });
+    if (rateLimit && !rateLimit.allowed) {
+      return new Response(JSON.stringify({ error: 'Too many verification requests', limited_by: rateLimit.dimension }), {
+        status: 429,
+        headers: { 'Content-Type': 'application/json', ...rateLimitHeaders(rateLimit) }
+      });
+    }
+
+    const status = isSessionExpired(session) ? 'expired' : session.session_status;
+    if (!RETRYABLE_STATUSES.includes(status)) {
+      return new Response(JSON.stringify({
+        error: 'Session cannot be retried',
+        reason: `Session status is ${status}`
+      }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const child = await env.DB.prepare(`
+      SELECT session_oid, stripe_session_id FROM verification_sessions WHERE parent_session_oid = ?
+    `).bind(session.session_oid).first<{ session_oid: string; stripe_session_id: string }>();
+    if (child) {
+      return new Response(JSON.stringify({
+        error: 'Session was already re-issued',
+        retry_session_oid: child.session_oid,
+        retry_stripe_session_id: child.stripe_session_id
+      }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const attemptCount = (session.attempt_count ?? 1) + 1;
+    const maxAttempts = session.max_attempts ?? DEFAULT_MAX_ATTEMPTS;
+    if (attemptCount > maxAttempts) {
+      const incidentOid = await recordSecurityIncident(env.DB, env.BRAINSAIT_OID_ROOT, {
+        type: 'verification_attempts_exceeded',
+        userId: session.user_id,
+        data: {
+          session_oid: session.session_oid,
+          country_code: session.country_context,
+          subject: 'session_lineage',
+          attempts: session.attempt_count ?? 1,
+          max_attempts: maxAttempts
+        },
+        sourceIp: ipAddress,
+        userAgent: request.headers.get('User-Agent'),
+        blocked: true,
+        tenantId: session.tenant_id
+      });
+
+      return new Response(JSON.stringify({
+        error: 'Verification attempt limit reached',
+        reason: {
+          code: 'max_attempts_exceeded',
+          message: `This verification has used all ${maxAttempts} attempts`
+        },
+        attempts: session.attempt_count ?? 1,
+        max_attempts: maxAttempts,
+        incident_oid: incidentOid
+      }), {
+        status: 429,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // The subject's own request describes the subject; an operator's or tenant backend's does not,
+    // so their retries run the gates on what creation recorded
+    const subject = session.user_id
+      ? await env.DB.prepare(`
+          SELECT ip_address, user_agent, device_fingerprint FROM users WHERE id = ?
+        `).bind(session.user_id).first<{ ip_address: string | null; user_agent: string | null; device_fingerprint: string | null }>()
+      : null;
+    const gateIp = subjectCaller ? ipAddress : subject?.ip_address;
+    const gateUserAgent = subjectCaller ? request.headers.get('User-Agent') : subject?.user_agent;
+    const gateCf = subjectCaller ? request.cf : undefined;
+
+    const block = await findBlock(env.CACHE, session.tenant_id, {
+      ipAddress: gateIp,
+      deviceFingerprint: subject?.device_fingerprint
+    });
+    if (block) {
+      return new Response(JSON.stringify({
+        error: 'Verification request blocked',
+        reason: {
+          code: block.code,
+          message: block.code === 'blocked_ip' ? 'Requests from this network are blocked' : 'Requests from this device are blocked'
+        },
+        incident_oid: block.incident_oid
+      }), {
+        status: 403,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const network = assessNetwork(await loadAnonymizerList(env), {
+      ipAddress: gateIp,
+      declaredCountry: session.country_context || 'US',
+      cf: gateCf
+    });
+    const risk = await assessVerificationRisk(env.CACHE, {
+      ipAddress: gateIp,
+      deviceFingerprint: subject?.device_fingerprint,
+      userAgent: gateUserAgent,
+      cf: gateCf,
+      network
+    }, resolveRiskThreshold(env.RISK_BLOCK_THRESHOLD));
+
+    if (risk.blocked) {
+      const incidentOid = await recordSecurityIncident(env.DB, env.BRAINSAIT_OID_ROOT, {
+        type: 'high_risk_verification',
+        userId: session.user_id,
+        riskScore: risk.riskScore,
+        data: {
+          session_oid: session.session_oid,
+          country_code: session.country_context,
+          subject: 'session_retry',
+          device_fingerprint: subject?.device_fingerprint,
+          signals: risk.signals,
+          tenant_id: session.tenant_id
+        },
+        sourceIp: gateIp,
+        userAgent: gateUserAgent,
+        blocked: true,
+        tenantId: session.tenant_id
+      });
+
+      return new Response(JSON.stringify({
+        error: 'Verification request blocked',
+        reason: risk.reason,
+        risk_score: risk.riskScore,
+        threshold: risk.threshold,
+        signals: risk.signals.map(signal => signal.code),
+        incident_oid: incidentOid
+      }), {
+        status: 403,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Close the original first so the subject cannot finish both
+    if (status === 'requires_input') {
+      const cancelResponse = await stripeIdentityRequest(
+        env.VITE_STRIPE_SECRET_KEY,
+        `/${sessionId}/cancel`,
+        undefined,
+        `cancel_${session.session_oid}`
+      );
+      if (!cancelResponse.ok) {
+        const error = await cancelResponse.text();
+        return new Response(JSON.stringify({ error: 'Stripe API error', details: error }), {
+          status: cancelResponse.status,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      await env.DB.prepare(`
+        UPDATE verification_sessions
+        SET session_status = 'canceled', completed_at = datetime('now'), last_event_at = MAX(COALESCE(last_event_at, 0), ?)
+        WHERE stripe_session_id = ?
+      `).bind(Math.floor(Date.now() / 1000), sessionId).run();
+
+      await refreshSessionCaches(env, await cancelResponse.json(), 'canceled', session.tenant_id);
+    }
+
+    const sessionData = session.session_data ? JSON.parse(session.session_data) : {};
+    const countryCode = session.country_context || 'US';
+    // Derived from the parent so a repeated call sends Stripe the same parameters under the same idempotency key
+    const sessionOID = `${session.session_oid}.${attemptCount}`;
+
+    const stripeResponse = await stripeIdentityRequest(env.VITE_STRIPE_SECRET_KEY, '', {
+      'type': sessionData.type || 'document',
+      ...(sessionData.return_url && { 'return_url': sessionData.return_url }),
+      ...callerMetadataParams(sessionData.metadata),
+      'metadata[brainsait_oid]': sessionOID,
+      'metadata[country_code]': countryCode,
+      'metadata[neural_integration]': 'enabled',
+      'metadata[parent_session_oid]': session.session_oid,
+      ...(session.tenant_id && { 'metadata[tenant_id]': session.tenant_id })
+    }, `retry_${session.session_oid}`);
+
+    if (!stripeResponse.ok) {
+      const error = await stripeResponse.text();
+      return new Response(JSON.stringify({ error: 'Stripe API error', details: error }), {
+        status: stripeResponse.status,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const stripeSession = await stripeResponse.json();
+    // The re-issued session gets its own token so the subject can audit and retry it in turn
+    const auditToken = randomToken(32);
+
+    // The re-issued session belongs to the same subject and inherits the original's context
+    await env.DB.prepare(`
+      INSERT INTO verification_sessions
+      (session_oid, user_id, stripe_session_id, session_status, country_context, session_data, tenant_id, attempt_count, max_attempts, parent_session_oid, audit_token_hash, expires_at)
+      VALUES (?, ?, ?, 'created', ?, ?, ?, ?, ?, ?, ?, datetime('now', '+24 hours'))
+    `).bind(
+      sessionOID,
+      session.user_id,
+      stripeSession.id,
+      countryCode,
+      JSON.stringify({ ...sessionData, retried_by: data.operator?.operator_id ?? data.apiKey?.key_id ?? 'subject' }),
+      session.tenant_id,
+      attemptCount,
+      maxAttempts,
+      session.session_oid,
+      await sha256Hex(auditToken)
+    ).run();
+
+    await env.SESSIONS.put(tenantKey(session.tenant_id, stripeSession.id), JSON.stringify({
+      session_oid: sessionOID,
+      parent_session_oid: session.session_oid,
+      created_at: new Date().toISOString(),
+      country_code: countryCode,
+      type: sessionData.type,
+      tenant_id: session.tenant_id
+    }), { expirationTtl: 86400 });
+
+    return new Response(JSON.stringify({
+      ...stripeSession,
+      brainsait_oid: sessionOID,
+      parent_session_oid: session.session_oid,
+      audit_token: auditToken,
+      tenant_id: session.tenant_id,
+      attempt_count: attemptCount,
+      max_attempts: maxAttempts
+    }), {
+      status: 201,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Session re-issue error:', error);
+    return new Response(JSON.stringify({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+}
@@ -35,12 +35,51 @@ declare global {
     uploaded: string;
     httpEtag: string;
     checksums?: Record<string, string>;
+    httpMetadata?: Record<string, any>;
+    customMetadata?: Record<string, string>;
+  }
+
+  interface R2Objects {
+    objects: R2Object[];
+    truncated: boolean;
+    cursor?: string;
+    delimitedPrefixes: string[];
+  }
+
+  interface R2UploadedPart {
+    partNumber: number;
+    etag: string;
+  }
+
+  interface R2MultipartUpload {
+    readonly key: string;
+    readonly uploadId: string;
+    uploadPart(partNumber: number, value: ReadableStream | ArrayBuffer | ArrayBufferView | string): Promise<R2UploadedPart>;
+    abort(): Promise<void>;
+    complete(uploadedParts: R2UploadedPart[]): Promise<R2Object>;
   }
 
   interface R2Bucket {
     get(key: string): Promise<R2Object | null>;
-    put(key: string, value: ReadableStream | ArrayBuffer | ArrayBufferView | string, options?: { httpMetadata?: Record<string, any>; customMetadata?: Record<string, string> }): Promise<R2Object>;
-    delete(key: string): Promise<void>;
+    head(key: string): Promise<R2Object | null>;
+    list(options?: { prefix?: string; limit?: number; cursor?: string; delimiter?: string; startAfter?: string }): Promise<R2Objects>;
+    put(key: string, value: ReadableStream | ArrayBuffer | ArrayBufferView | string, options?: { httpMetadata?: Record<string, any>; customMetadata?: Record<string, string>; storageClass?: 'Standard' | 'InfrequentAccess' }): Promise<R2Object>;
+    delete(keys: string | string[]): Promise<void>;
+    createMultipartUpload(key: string, options?: { httpMetadata?: Record<string, any>; customMetadata?: Record<string, string> }): Promise<R2MultipartUpload>;
+    resumeMultipartUpload(key: string, uploadId: string): R2MultipartUpload;
+  }
+
+  interface IncomingRequestCfProperties {
+    country?: string;
+    asn?: number;
+    asOrganization?: string;
+    colo?: string;
+    city?: string;
+    region?: string;
+  }
+
+  interface Request {
+    readonly cf?: IncomingRequestCfProperties;
   }
 
   interface EventContext<Env = any, Params = Record<string, string>, Data = unknown> {
@@ -48,6 +87,18 @@ declare global {
     env: Env;
     params: Params;
     data: Data;
+    next(input?: Request | string, init?: RequestInit): Promise<Response>;
+    waitUntil(promise: Promise<unknown>): void;
+    passThroughOnException(): void;
+  }
+
+  interface ScheduledController {
+    readonly scheduledTime: number;
+    readonly cron: string;
+    noRetry(): void;
+  }
+
+  interface ExecutionContext {
     waitUntil(promise: Promise<unknown>): void;
     passThroughOnException(): void;
   }
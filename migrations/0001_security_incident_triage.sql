@@ -0,0 +1,6 @@
+-- BrainSAIT Identity Verification Database Migration
+-- Adds analyst triage notes to security incidents
+
+ALTER TABLE security_incidents ADD COLUMN analyst_notes TEXT; -- JSON array of { analyst, note, created_at }
+
+CREATE INDEX IF NOT EXISTS idx_security_incidents_resolved ON security_incidents (resolved, risk_score);
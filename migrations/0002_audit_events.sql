@@ -0,0 +1,18 @@
+-- BrainSAIT Identity Verification Database Migration
+-- Adds the operator audit trail
+
+CREATE TABLE IF NOT EXISTS audit_events (
+    id TEXT PRIMARY KEY, -- audit OID under 1.3.6.1.4.1.61026.4.2
+    session_oid TEXT NOT NULL,
+    stripe_session_id TEXT,
+    operator_id TEXT NOT NULL,
+    event_type TEXT NOT NULL, -- preflight_completed, context_enriched, step_transition, launch_submitted, status_changed
+    payload JSON,
+    device_fingerprint TEXT,
+    readiness_snapshot JSON,
+    risk_signal INTEGER DEFAULT 0,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP, -- client event timestamp, strictly increasing per session
+    received_at TEXT DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_events_session ON audit_events (session_oid, created_at DESC);
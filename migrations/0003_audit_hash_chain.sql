@@ -0,0 +1,15 @@
+-- BrainSAIT Identity Verification Database Migration
+-- Adds hash chain columns to security incidents and audit events
+
+ALTER TABLE security_incidents ADD COLUMN chain_seq INTEGER; -- position in the incident hash chain
+ALTER TABLE security_incidents ADD COLUMN prev_hash TEXT;
+ALTER TABLE security_incidents ADD COLUMN record_hash TEXT;
+
+ALTER TABLE audit_events ADD COLUMN chain_seq INTEGER; -- position in the session's hash chain
+ALTER TABLE audit_events ADD COLUMN prev_hash TEXT;
+ALTER TABLE audit_events ADD COLUMN record_hash TEXT;
+
+-- Rows written before this migration stay unchained; the chains start with the next insert
+CREATE UNIQUE INDEX IF NOT EXISTS idx_security_incidents_chain ON security_incidents (chain_seq);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_audit_events_chain ON audit_events (session_oid, chain_seq);
+CREATE INDEX IF NOT EXISTS idx_audit_events_received ON audit_events (received_at);
@@ -0,0 +1,26 @@
+-- BrainSAIT Identity Verification Database Migration
+-- Adds tenant API keys and tenant attribution on sessions and users
+
+CREATE TABLE IF NOT EXISTS api_keys (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    key_id TEXT UNIQUE NOT NULL, -- public half of bsk_<key_id>_<secret>
+    tenant_id TEXT NOT NULL,
+    name TEXT,
+    key_hash TEXT NOT NULL, -- SHA-256 of the secret; the secret itself is never stored
+    allowed_countries TEXT NOT NULL, -- JSON array of SA, SD, US
+    allowed_verification_types TEXT NOT NULL, -- JSON array of document, id_number
+    rate_limit_per_minute INTEGER DEFAULT 60,
+    expires_at TEXT,
+    revoked_at TEXT,
+    rotated_to TEXT, -- key_id of the replacement key
+    created_by TEXT, -- operator_id that issued the key
+    last_used_at TEXT,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP
+);
+
+ALTER TABLE verification_sessions ADD COLUMN tenant_id TEXT;
+ALTER TABLE users ADD COLUMN tenant_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_tenant ON api_keys (tenant_id);
+CREATE INDEX IF NOT EXISTS idx_sessions_tenant ON verification_sessions (tenant_id);
+CREATE INDEX IF NOT EXISTS idx_users_tenant ON users (tenant_id);
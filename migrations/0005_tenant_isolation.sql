@@ -0,0 +1,16 @@
+-- BrainSAIT Identity Verification Database Migration
+-- Extends tenant attribution to documents, security incidents and metrics
+
+-- Existing rows keep tenant_id NULL, the first-party tenant, whose storage keys stay unprefixed
+ALTER TABLE document_storage ADD COLUMN tenant_id TEXT;
+ALTER TABLE security_incidents ADD COLUMN tenant_id TEXT;
+ALTER TABLE verification_metrics ADD COLUMN tenant_id TEXT;
+
+-- Documents uploaded before this migration inherit their session's tenant
+UPDATE document_storage
+SET tenant_id = (SELECT vs.tenant_id FROM verification_sessions vs WHERE vs.session_oid = document_storage.session_oid)
+WHERE tenant_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_document_storage_tenant ON document_storage (tenant_id);
+CREATE INDEX IF NOT EXISTS idx_security_incidents_tenant ON security_incidents (tenant_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_metrics_tenant_date ON verification_metrics (tenant_id, metric_date);
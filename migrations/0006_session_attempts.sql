@@ -0,0 +1,8 @@
+-- BrainSAIT Identity Verification Database Migration
+-- Indexes for per-subject attempt counting on verification session creation
+
+-- Existing sessions keep their column defaults (attempt 1, max_attempts 3) and still count
+CREATE INDEX IF NOT EXISTS idx_sessions_user_created ON verification_sessions (user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_saudi_healthcare_nphies ON saudi_healthcare (nphies_id);
+CREATE INDEX IF NOT EXISTS idx_sudan_national_id_number ON sudan_national_id (national_id);
+CREATE INDEX IF NOT EXISTS idx_users_device ON users (device_fingerprint);
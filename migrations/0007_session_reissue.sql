@@ -0,0 +1,6 @@
+-- BrainSAIT Identity Verification Database Migration
+-- Links re-issued verification sessions to the session they replace
+
+ALTER TABLE verification_sessions ADD COLUMN parent_session_oid TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_sessions_parent ON verification_sessions (parent_session_oid);
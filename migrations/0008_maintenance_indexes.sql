@@ -0,0 +1,6 @@
+-- BrainSAIT Identity Verification Database Migration
+-- Indexes for the scheduled maintenance Worker's expiry, retention and reconciliation scans
+
+CREATE INDEX IF NOT EXISTS idx_sessions_expiry ON verification_sessions (session_status, expires_at);
+CREATE INDEX IF NOT EXISTS idx_document_storage_path ON document_storage (storage_path);
+CREATE INDEX IF NOT EXISTS idx_document_storage_status ON document_storage (upload_status, created_at);
@@ -0,0 +1,32 @@
+-- BrainSAIT Identity Verification Database Migration
+-- Retention policies per country, document type and data class
+
+CREATE TABLE IF NOT EXISTS retention_policies (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    country_code TEXT NOT NULL DEFAULT '*',
+    document_type TEXT NOT NULL DEFAULT '*',
+    data_class TEXT NOT NULL,
+    retention_days INTEGER NOT NULL,
+    action TEXT NOT NULL,
+    is_active BOOLEAN DEFAULT TRUE,
+    notes TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (country_code, document_type, data_class)
+);
+
+-- Marks rows whose personal fields were cleared so later runs skip them
+ALTER TABLE users ADD COLUMN anonymized_at DATETIME;
+ALTER TABLE saudi_healthcare ADD COLUMN anonymized_at DATETIME;
+ALTER TABLE sudan_national_id ADD COLUMN anonymized_at DATETIME;
+
+-- Users already redacted through the lifecycle endpoints or the webhook
+UPDATE users SET anonymized_at = updated_at WHERE verification_status = 'redacted';
+
+-- The document and neural snapshot defaults keep the 90 days the maintenance Worker applied before
+INSERT OR IGNORE INTO retention_policies (country_code, document_type, data_class, retention_days, action, notes) VALUES
+('*', '*', 'document', 90, 'delete', 'Platform default'),
+('*', '*', 'neural_snapshot', 90, 'delete', 'Platform default'),
+('*', '*', 'neural_context', 180, 'delete', 'Platform default'),
+('*', '*', 'user_profile', 365, 'anonymize', 'Platform default'),
+('*', '*', 'regional_identity', 365, 'anonymize', 'Platform default');
@@ -0,0 +1,9 @@
+-- BrainSAIT Identity Verification Database Migration
+-- Envelope encryption for documents in R2
+
+-- Existing documents keep NULL until the maintenance Worker encrypts them in place
+ALTER TABLE document_storage ADD COLUMN encryption_key_id TEXT;
+ALTER TABLE document_storage ADD COLUMN wrapped_key TEXT;
+ALTER TABLE document_storage ADD COLUMN encryption_iv TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_document_storage_key ON document_storage (encryption_key_id);
@@ -0,0 +1,6 @@
+-- BrainSAIT Identity Verification Database Migration
+-- Content sniffing and sanitization results for uploaded documents
+
+-- Documents uploaded earlier were never inspected and keep NULL
+ALTER TABLE document_storage ADD COLUMN sanitization_status TEXT;
+ALTER TABLE document_storage ADD COLUMN sanitization_report TEXT;
@@ -0,0 +1,9 @@
+-- BrainSAIT Identity Verification Database Migration
+-- Malware scan state for uploaded documents
+
+-- Existing documents start pending, so the maintenance Worker scans them before they can be served again
+ALTER TABLE document_storage ADD COLUMN scan_status TEXT DEFAULT 'pending';
+ALTER TABLE document_storage ADD COLUMN scan_result TEXT;
+ALTER TABLE document_storage ADD COLUMN scanned_at DATETIME;
+
+CREATE INDEX IF NOT EXISTS idx_document_storage_scan ON document_storage (scan_status, updated_at);
@@ -0,0 +1,41 @@
+-- BrainSAIT Identity Verification Database Migration
+-- Resumable multipart document uploads and their per-part progress
+
+CREATE TABLE IF NOT EXISTS document_uploads (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    upload_id TEXT UNIQUE NOT NULL, -- opaque upl_<random>; the handle clients resume with
+    document_id TEXT UNIQUE NOT NULL, -- reserved for the document created on completion
+    session_oid TEXT NOT NULL,
+    document_type TEXT NOT NULL,
+    country_code TEXT,
+    file_name TEXT NOT NULL,
+    declared_type TEXT,
+    file_size INTEGER NOT NULL,
+    part_size INTEGER NOT NULL,
+    total_parts INTEGER NOT NULL,
+    staging_path TEXT NOT NULL, -- R2 key of the multipart upload, tenants/{tenant_id}/uploads/{upload_id}
+    r2_upload_id TEXT NOT NULL,
+    encryption_key_id TEXT NOT NULL, -- master key that wraps the key the parts are encrypted with
+    wrapped_key TEXT NOT NULL,
+    tenant_id TEXT,
+    operator_id TEXT,
+    upload_status TEXT DEFAULT 'uploading', -- uploading, completing, completed, aborted, expired, rejected, failed
+    expires_at DATETIME NOT NULL,
+    completed_at DATETIME,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS document_upload_parts (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    upload_id TEXT NOT NULL,
+    part_number INTEGER NOT NULL,
+    size INTEGER NOT NULL, -- plaintext bytes; the stored part carries a 16-byte GCM tag as well
+    etag TEXT NOT NULL,
+    encryption_iv TEXT NOT NULL, -- base64 GCM IV for this part
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (upload_id, part_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_uploads_expiry ON document_uploads (upload_status, expires_at);
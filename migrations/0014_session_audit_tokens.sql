@@ -0,0 +1,4 @@
+-- BrainSAIT Identity Verification Database Migration
+-- Per-session capability for anonymous audit event ingestion; only its SHA-256 is stored
+
+ALTER TABLE verification_sessions ADD COLUMN audit_token_hash TEXT;
@@ -0,0 +1,4 @@
+-- BrainSAIT Identity Verification Database Migration
+-- Stripe creation time of the newest webhook event applied to each session, so late deliveries are ignored
+
+ALTER TABLE verification_sessions ADD COLUMN last_event_at INTEGER;
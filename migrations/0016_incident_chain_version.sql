@@ -0,0 +1,4 @@
+-- BrainSAIT Identity Verification Database Migration
+-- Security incidents chained from now on also hash tenant_id and created_at
+
+ALTER TABLE security_incidents ADD COLUMN chain_version INTEGER; -- NULL for incidents hashed before this migration
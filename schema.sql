@@ -9,7 +9,7 @@ CREATE TABLE IF NOT EXISTS users (
     email TEXT,
     country_code TEXT NOT NULL, -- SA, SD, US
     verification_type TEXT NOT NULL, -- document, id_number
-    verification_status TEXT DEFAULT 'pending', -- pending, verified, failed, requires_input
+    verification_status TEXT DEFAULT 'pending', -- pending, verified, failed, requires_input, canceled, redacted
     risk_score INTEGER DEFAULT 0,
     device_fingerprint TEXT,
     ip_address TEXT,
@@ -17,7 +17,9 @@ CREATE TABLE IF NOT EXISTS users (
     created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
     updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
     verified_at DATETIME,
-    metadata TEXT -- JSON metadata
+    metadata TEXT, -- JSON metadata
+    tenant_id TEXT, -- integrating tenant when created through an API key
+    anonymized_at DATETIME -- personal fields cleared by redaction or a retention policy
 );
 
 -- Saudi Arabia specific data (NPHIES integration)
@@ -35,6 +37,7 @@ CREATE TABLE IF NOT EXISTS saudi_healthcare (
     coverage_details TEXT, -- JSON
     validation_timestamp DATETIME DEFAULT CURRENT_TIMESTAMP,
     is_valid BOOLEAN DEFAULT FALSE,
+    anonymized_at DATETIME,
     FOREIGN KEY (user_id) REFERENCES users (id)
 );
 
@@ -54,6 +57,7 @@ CREATE TABLE IF NOT EXISTS sudan_national_id (
     service_eligibility TEXT, -- JSON
     validation_timestamp DATETIME DEFAULT CURRENT_TIMESTAMP,
     is_valid BOOLEAN DEFAULT FALSE,
+    anonymized_at DATETIME,
     FOREIGN KEY (user_id) REFERENCES users (id)
 );
 
@@ -76,13 +80,19 @@ CREATE TABLE IF NOT EXISTS security_incidents (
     id INTEGER PRIMARY KEY AUTOINCREMENT,
     incident_oid TEXT UNIQUE NOT NULL,
     user_id INTEGER,
-    incident_type TEXT NOT NULL, -- csp_violation, high_risk_verification, script_injection
+    incident_type TEXT NOT NULL, -- csp_violation, high_risk_verification, script_injection, location_mismatch, anonymizer_detected
     risk_score INTEGER,
     incident_data TEXT NOT NULL, -- JSON
     source_ip TEXT,
     user_agent TEXT,
     blocked BOOLEAN DEFAULT FALSE,
     resolved BOOLEAN DEFAULT FALSE,
+    analyst_notes TEXT, -- JSON array of { analyst, note, created_at }
+    chain_seq INTEGER, -- position in the incident hash chain
+    prev_hash TEXT, -- record_hash of the previous incident
+    record_hash TEXT, -- SHA-256 over prev_hash and the immutable columns
+    tenant_id TEXT, -- tenant of the session that raised the incident
+    chain_version INTEGER, -- 2 when tenant_id and created_at are covered by record_hash; NULL for rows chained before migration 0016
     created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
     resolved_at DATETIME,
     FOREIGN KEY (user_id) REFERENCES users (id)
@@ -94,7 +104,7 @@ CREATE TABLE IF NOT EXISTS verification_sessions (
     session_oid TEXT UNIQUE NOT NULL,
     user_id INTEGER,
     stripe_session_id TEXT UNIQUE,
-    session_status TEXT DEFAULT 'created', -- created, processing, completed, failed
+    session_status TEXT DEFAULT 'created', -- created, processing, requires_input, verified, canceled, redacted, expired
     country_context TEXT, -- SA, SD, US
     neural_sync_enabled BOOLEAN DEFAULT TRUE,
     real_time_monitoring BOOLEAN DEFAULT TRUE,
@@ -104,6 +114,10 @@ CREATE TABLE IF NOT EXISTS verification_sessions (
     created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
     completed_at DATETIME,
     session_data TEXT, -- JSON
+    parent_session_oid TEXT, -- set on sessions re-issued from an earlier one
+    tenant_id TEXT, -- integrating tenant when created through an API key
+    audit_token_hash TEXT, -- SHA-256 of the audit token returned at creation
+    last_event_at INTEGER, -- Stripe `created` (epoch seconds) of the newest status applied
     FOREIGN KEY (user_id) REFERENCES users (id)
 );
 
@@ -153,7 +167,7 @@ CREATE TABLE IF NOT EXISTS sudan_ministries (
 -- Document storage tracking
 CREATE TABLE IF NOT EXISTS document_storage (
     id INTEGER PRIMARY KEY AUTOINCREMENT,
-    document_id TEXT UNIQUE NOT NULL,
+    document_id TEXT UNIQUE NOT NULL, -- opaque doc_<random>; rows uploaded earlier keep {session_oid}/{type}/{timestamp}_{name}
     session_oid TEXT NOT NULL,
     document_type TEXT NOT NULL, -- identity_document, supporting_document, neural_data
     file_name TEXT NOT NULL,
@@ -161,11 +175,58 @@ CREATE TABLE IF NOT EXISTS document_storage (
     file_type TEXT NOT NULL,
     country_code TEXT,
     storage_path TEXT NOT NULL,
-    upload_status TEXT DEFAULT 'uploaded', -- uploaded, processing, verified, deleted
+    upload_status TEXT DEFAULT 'uploaded', -- uploaded, processing, verified, quarantined, deleted, missing (object absent from R2), anonymized, archived
+    tenant_id TEXT, -- inherited from the session; storage_path is prefixed tenants/{tenant_id}/
+    encryption_key_id TEXT, -- master key that wraps the data key; NULL for documents stored in plaintext
+    wrapped_key TEXT, -- base64 AES-KW wrapped AES-256-GCM data key
+    encryption_iv TEXT, -- base64 GCM IV
+    sanitization_status TEXT, -- clean, sanitized (image metadata removed); NULL for uploads before inspection
+    sanitization_report TEXT, -- JSON: declared_type, detected_type, removed metadata blocks
+    scan_status TEXT DEFAULT 'pending', -- pending, clean, infected; only clean documents are served
+    scan_result TEXT, -- JSON: per-scanner verdicts, or the error that left the scan pending
+    scanned_at DATETIME,
     created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
     updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Resumable multipart uploads; the document_storage row is written when the upload completes
+CREATE TABLE IF NOT EXISTS document_uploads (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    upload_id TEXT UNIQUE NOT NULL, -- opaque upl_<random>; the handle clients resume with
+    document_id TEXT UNIQUE NOT NULL, -- reserved for the document created on completion
+    session_oid TEXT NOT NULL,
+    document_type TEXT NOT NULL,
+    country_code TEXT,
+    file_name TEXT NOT NULL,
+    declared_type TEXT,
+    file_size INTEGER NOT NULL,
+    part_size INTEGER NOT NULL,
+    total_parts INTEGER NOT NULL,
+    staging_path TEXT NOT NULL, -- R2 key of the multipart upload, tenants/{tenant_id}/uploads/{upload_id}
+    r2_upload_id TEXT NOT NULL,
+    encryption_key_id TEXT NOT NULL, -- master key that wraps the key the parts are encrypted with
+    wrapped_key TEXT NOT NULL,
+    tenant_id TEXT,
+    operator_id TEXT,
+    upload_status TEXT DEFAULT 'uploading', -- uploading, completing, completed, aborted, expired, rejected, failed
+    expires_at DATETIME NOT NULL,
+    completed_at DATETIME,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS document_upload_parts (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    upload_id TEXT NOT NULL,
+    part_number INTEGER NOT NULL,
+    size INTEGER NOT NULL, -- plaintext bytes; the stored part carries a 16-byte GCM tag as well
+    etag TEXT NOT NULL,
+    encryption_iv TEXT NOT NULL, -- base64 GCM IV for this part
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (upload_id, part_number)
+);
+
 -- Analytics and metrics
 CREATE TABLE IF NOT EXISTS verification_metrics (
     id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -177,9 +238,61 @@ CREATE TABLE IF NOT EXISTS verification_metrics (
     fraud_attempts_blocked INTEGER DEFAULT 0,
     average_risk_score REAL DEFAULT 0.0,
     neural_sync_success_rate REAL DEFAULT 0.0,
+    tenant_id TEXT,
     created_at DATETIME DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Operator audit trail for verification launches
+CREATE TABLE IF NOT EXISTS audit_events (
+    id TEXT PRIMARY KEY, -- audit OID under 1.3.6.1.4.1.61026.4.2
+    session_oid TEXT NOT NULL,
+    stripe_session_id TEXT,
+    operator_id TEXT NOT NULL,
+    event_type TEXT NOT NULL, -- preflight_completed, context_enriched, step_transition, launch_submitted, status_changed
+    payload JSON,
+    device_fingerprint TEXT,
+    readiness_snapshot JSON,
+    risk_signal INTEGER DEFAULT 0,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP, -- client event timestamp, strictly increasing per session
+    received_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    chain_seq INTEGER, -- position in the session's hash chain
+    prev_hash TEXT,
+    record_hash TEXT
+);
+
+-- Tenant API keys for server-to-server integrations
+CREATE TABLE IF NOT EXISTS api_keys (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    key_id TEXT UNIQUE NOT NULL, -- public half of bsk_<key_id>_<secret>
+    tenant_id TEXT NOT NULL,
+    name TEXT,
+    key_hash TEXT NOT NULL, -- SHA-256 of the secret; the secret itself is never stored
+    allowed_countries TEXT NOT NULL, -- JSON array of SA, SD, US
+    allowed_verification_types TEXT NOT NULL, -- JSON array of document, id_number
+    rate_limit_per_minute INTEGER DEFAULT 60,
+    expires_at TEXT,
+    revoked_at TEXT,
+    rotated_to TEXT, -- key_id of the replacement key
+    created_by TEXT, -- operator_id that issued the key
+    last_used_at TEXT,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Retention policies enforced by the scheduled maintenance Worker; the most specific match wins
+CREATE TABLE IF NOT EXISTS retention_policies (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    country_code TEXT NOT NULL DEFAULT '*', -- SA, SD, US or * for every country
+    document_type TEXT NOT NULL DEFAULT '*', -- document_storage.document_type; * outside the document class
+    data_class TEXT NOT NULL, -- document, neural_snapshot, user_profile, regional_identity, neural_context
+    retention_days INTEGER NOT NULL,
+    action TEXT NOT NULL, -- delete, anonymize, archive
+    is_active BOOLEAN DEFAULT TRUE,
+    notes TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (country_code, document_type, data_class)
+);
+
 -- Indexes for performance
 CREATE INDEX IF NOT EXISTS idx_users_oid ON users (oid);
 CREATE INDEX IF NOT EXISTS idx_users_stripe_id ON users (stripe_verification_id);
@@ -191,6 +304,28 @@ CREATE INDEX IF NOT EXISTS idx_neural_context_user ON neural_context (user_id);
 CREATE INDEX IF NOT EXISTS idx_neural_context_session ON neural_context (session_oid);
 CREATE INDEX IF NOT EXISTS idx_security_incidents_type ON security_incidents (incident_type);
 CREATE INDEX IF NOT EXISTS idx_security_incidents_date ON security_incidents (created_at);
+CREATE INDEX IF NOT EXISTS idx_security_incidents_resolved ON security_incidents (resolved, risk_score);
 CREATE INDEX IF NOT EXISTS idx_metrics_date_country ON verification_metrics (metric_date, country_code);
 CREATE INDEX IF NOT EXISTS idx_document_storage_session ON document_storage (session_oid);
-CREATE INDEX IF NOT EXISTS idx_document_storage_type ON document_storage (document_type);
\ No newline at end of file
+CREATE INDEX IF NOT EXISTS idx_document_storage_type ON document_storage (document_type);
+CREATE INDEX IF NOT EXISTS idx_audit_events_session ON audit_events (session_oid, created_at DESC);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_security_incidents_chain ON security_incidents (chain_seq);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_audit_events_chain ON audit_events (session_oid, chain_seq);
+CREATE INDEX IF NOT EXISTS idx_audit_events_received ON audit_events (received_at);
+CREATE INDEX IF NOT EXISTS idx_api_keys_tenant ON api_keys (tenant_id);
+CREATE INDEX IF NOT EXISTS idx_sessions_tenant ON verification_sessions (tenant_id);
+CREATE INDEX IF NOT EXISTS idx_users_tenant ON users (tenant_id);
+CREATE INDEX IF NOT EXISTS idx_document_storage_tenant ON document_storage (tenant_id);
+CREATE INDEX IF NOT EXISTS idx_security_incidents_tenant ON security_incidents (tenant_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_metrics_tenant_date ON verification_metrics (tenant_id, metric_date);
+CREATE INDEX IF NOT EXISTS idx_sessions_user_created ON verification_sessions (user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_saudi_healthcare_nphies ON saudi_healthcare (nphies_id);
+CREATE INDEX IF NOT EXISTS idx_sudan_national_id_number ON sudan_national_id (national_id);
+CREATE INDEX IF NOT EXISTS idx_users_device ON users (device_fingerprint);
+CREATE INDEX IF NOT EXISTS idx_sessions_parent ON verification_sessions (parent_session_oid);
+CREATE INDEX IF NOT EXISTS idx_sessions_expiry ON verification_sessions (session_status, expires_at);
+CREATE INDEX IF NOT EXISTS idx_document_storage_path ON document_storage (storage_path);
+CREATE INDEX IF NOT EXISTS idx_document_storage_status ON document_storage (upload_status, created_at);
+CREATE INDEX IF NOT EXISTS idx_document_storage_key ON document_storage (encryption_key_id);
+CREATE INDEX IF NOT EXISTS idx_document_storage_scan ON document_storage (scan_status, updated_at);
+CREATE INDEX IF NOT EXISTS idx_document_uploads_expiry ON document_uploads (upload_status, expires_at);
\ No newline at end of file
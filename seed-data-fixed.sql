@@ -59,4 +59,12 @@ INSERT INTO verification_metrics (metric_date, country_code, total_verifications
 ('2024-01-02', 'US', 289, 281, 8, 2, 11.9, 99.1),
 ('2024-01-03', 'SA', 134, 128, 6, 2, 14.2, 98.8),
 ('2024-01-03', 'SD', 78, 74, 4, 1, 16.5, 97.5),
-('2024-01-03', 'US', 267, 261, 6, 1, 10.8, 99.4);
\ No newline at end of file
+('2024-01-03', 'US', 267, 261, 6, 1, 10.8, 99.4);
+
+-- Platform-wide retention defaults; country and document type rows override them
+INSERT OR IGNORE INTO retention_policies (country_code, document_type, data_class, retention_days, action, notes) VALUES
+('*', '*', 'document', 90, 'delete', 'Platform default'),
+('*', '*', 'neural_snapshot', 90, 'delete', 'Platform default'),
+('*', '*', 'neural_context', 180, 'delete', 'Platform default'),
+('*', '*', 'user_profile', 365, 'anonymize', 'Platform default'),
+('*', '*', 'regional_identity', 365, 'anonymize', 'Platform default');
\ No newline at end of file
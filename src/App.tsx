@@ -4,6 +4,7 @@ import { IdentityVerification, EnterpriseVerificationSession } from './component
 import { neuralService, useNeuralIntegration } from './services/neural';
 import { stripeIdentity, StripeVerificationInsights } from './services/stripe';
 import { securityService } from './services/security';
+import { auditLogger } from './services/audit';
 import './styles/brainsait-theme.css';
 import { formatDistanceToNow } from 'date-fns';
 
@@ -31,6 +32,9 @@ const MAX_POLL_ATTEMPTS = 15;
 const getEffectiveStatus = (result: StripeVerificationInsights | null | undefined) =>
   result?.status ?? result?.stripeSession?.status ?? undefined;
 
+// Statuses the server will re-issue a fresh session for
+const RETRYABLE_STATUSES = ['requires_input', 'canceled', 'expired'];
+
 const isTerminalStatus = (status?: string) => {
   if (!status) {
     return false;
@@ -325,10 +329,12 @@ const VerificationResultPage: React.FC = () => {
   const [pollingError, setPollingError] = useState<string | null>(null);
   const [lastUpdatedAt, setLastUpdatedAt] = useState<Date | null>(null);
   const [manualRefreshPending, setManualRefreshPending] = useState(false);
+  const [retryPending, setRetryPending] = useState(false);
 
   const sessionIdRef = useRef<string | null>(null);
   const pollTimerRef = useRef<number | null>(null);
   const attemptsRef = useRef(0);
+  const auditedStatusRef = useRef<string | undefined>(undefined);
 
   const refreshStatus = useCallback(async () => {
     const sessionId = sessionIdRef.current;
@@ -451,6 +457,45 @@ const VerificationResultPage: React.FC = () => {
   }, [manualRefreshPending, refreshStatus, startPollingLoop, stopPollingLoop]);
 
   const effectiveStatus = getEffectiveStatus(verificationResult);
+  const auditSessionOid: string | undefined = verificationResult?.brainsaitContext?.session_oid;
+  // The server only re-issues for the browser that holds the session's audit token
+  const retryToken = auditSessionOid ? auditLogger.getAuditToken(auditSessionOid) : null;
+
+  const handleRetry = useCallback(async () => {
+    const sessionId = sessionIdRef.current;
+    if (retryPending || !sessionId || !retryToken) {
+      return;
+    }
+
+    setRetryPending(true);
+    try {
+      const retried = await stripeIdentity.retryVerificationSession(sessionId, retryToken);
+      auditLogger.rememberAuditToken(retried.brainsait_oid, retried.audit_token);
+      stopPollingLoop();
+      await stripeIdentity.redirectToVerification(retried.id);
+    } catch (error) {
+      console.error('Error retrying verification:', error);
+      setPollingError(error instanceof Error ? error.message : 'Unknown error');
+      setRetryPending(false);
+    }
+  }, [retryPending, retryToken, stopPollingLoop]);
+
+  useEffect(() => {
+    const previousStatus = auditedStatusRef.current;
+    if (!effectiveStatus || !auditSessionOid || !sessionIdRef.current || previousStatus === effectiveStatus) {
+      return;
+    }
+
+    auditedStatusRef.current = effectiveStatus;
+    auditLogger.record({
+      event_type: 'status_changed',
+      session_oid: auditSessionOid,
+      stripe_session_id: sessionIdRef.current,
+      status: effectiveStatus,
+      previous_status: previousStatus
+    });
+  }, [auditSessionOid, effectiveStatus]);
+
   const isVerified = effectiveStatus === 'verified';
   const isProcessing = effectiveStatus === 'processing';
   const statusIcon = isVerified ? '✓' : isProcessing ? '⏳' : '✗';
@@ -465,7 +510,10 @@ const VerificationResultPage: React.FC = () => {
       ? 'Verification In Progress'
       : effectiveStatus === 'requires_input'
         ? 'Additional Steps Required'
-        : 'Verification Pending';
+        : effectiveStatus === 'expired'
+          ? 'Verification Session Expired'
+          : 'Verification Pending';
+  const canRetry = !!effectiveStatus && RETRYABLE_STATUSES.includes(effectiveStatus) && !!retryToken;
 
   const statusMessage = (() => {
     switch (effectiveStatus) {
@@ -477,6 +525,8 @@ const VerificationResultPage: React.FC = () => {
         return 'Stripe Identity is still processing this verification. We\'ll refresh the status automatically.';
       case 'canceled':
         return 'This verification session was canceled. Launch a new session to continue.';
+      case 'expired':
+        return 'This verification session has expired. Start a new attempt to continue.';
       case undefined:
         return 'We\'re preparing your session details. This page will update shortly.';
       default:
@@ -534,6 +584,15 @@ const VerificationResultPage: React.FC = () => {
               >
                 {manualRefreshPending ? 'Refreshing…' : 'Refresh status'}
               </button>
+              {canRetry && (
+                <button
+                  onClick={handleRetry}
+                  className="bs-btn bs-btn-primary w-full sm:bs-w-auto"
+                  disabled={retryPending}
+                >
+                  {retryPending ? 'Starting new attempt…' : 'Retry verification'}
+                </button>
+              )}
               <button
                 onClick={() => (window.location.href = '/')}
                 className="bs-btn bs-btn-primary w-full sm:bs-w-auto"
@@ -566,6 +625,10 @@ const VerificationResultPage: React.FC = () => {
                 <dt>BrainSAIT OID</dt>
                 <dd className="bs-mono">{verificationResult?.brainsaitContext?.session_oid || 'not assigned'}</dd>
               </div>
+              <div>
+                <dt>Subject OID</dt>
+                <dd className="bs-mono">{verificationResult?.brainsaitContext?.user_oid || 'not assigned'}</dd>
+              </div>
               <div>
                 <dt>Risk score</dt>
                 <dd>{verificationResult?.brainsaitContext?.risk_score ?? 'n/a'}</dd>
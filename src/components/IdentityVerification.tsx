@@ -1,10 +1,11 @@
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import clsx from 'clsx';
 import { formatDistanceToNow } from 'date-fns';
 import { stripeIdentity, StripeReadiness } from '../services/stripe';
 import { neuralService, useNeuralIntegration } from '../services/neural';
 import { regionalOrchestrator } from '../services/regional';
 import { securityService } from '../services/security';
+import { auditLogger, hashAuditContext } from '../services/audit';
 import '../styles/brainsait-theme.css';
 
 interface IdentityVerificationProps {
@@ -131,6 +132,10 @@ export const IdentityVerification: React.FC<IdentityVerificationProps> = ({
   const [acknowledged, setAcknowledged] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
+  // Events before launch are recorded against a draft until Stripe assigns the session OID
+  const auditDraftRef = useRef(auditLogger.beginDraft());
+  const previousStepRef = useRef<StepKey>('preflight');
+
   const neuralState = useNeuralIntegration();
 
   const stepOrder: StepKey[] = ['preflight', 'context', 'review', 'launch'];
@@ -408,7 +413,15 @@ export const IdentityVerification: React.FC<IdentityVerificationProps> = ({
         lastChecked: readiness.timestamp
       });
 
-      if (!completed) {
+      if (completed) {
+        auditLogger.record({
+          event_type: 'preflight_completed',
+          country_code: formData.countryCode,
+          payload: {
+            checks: checks.map(check => ({ id: check.id, status: check.status }))
+          }
+        }, auditDraftRef.current);
+      } else {
         checks
           .filter(check => check.status === 'fail')
           .forEach(check => {
@@ -436,6 +449,20 @@ export const IdentityVerification: React.FC<IdentityVerificationProps> = ({
     runPreflight();
   }, [runPreflight]);
 
+  useEffect(() => {
+    const previousStep = previousStepRef.current;
+    if (previousStep === currentStep) {
+      return;
+    }
+
+    previousStepRef.current = currentStep;
+    auditLogger.record({
+      event_type: 'step_transition',
+      from_step: previousStep,
+      to_step: currentStep
+    }, auditDraftRef.current);
+  }, [currentStep]);
+
   const stepVisualStates = useMemo(() => {
     const states: Record<StepKey, StepVisualState> = {
       preflight: 'upcoming',
@@ -563,11 +590,39 @@ export const IdentityVerification: React.FC<IdentityVerificationProps> = ({
       return;
     }
 
+    if (currentStep === 'context') {
+      recordContextEnriched().catch(error => {
+        console.warn('Failed to record context audit event:', error);
+      });
+    }
+
     if (currentStepIndex < stepOrder.length - 1) {
       setCurrentStepIndex(currentStepIndex + 1);
     }
   };
 
+  const recordContextEnriched = async () => {
+    const draftId = auditDraftRef.current;
+    const contextHash = await hashAuditContext({
+      countryCode: formData.countryCode,
+      verificationType: formData.verificationType,
+      facilityCode: formData.facilityCode,
+      ministryCode: formData.ministryCode,
+      wilayaCode: formData.wilayaCode,
+      metadata: formData.metadata
+    });
+
+    auditLogger.record({
+      event_type: 'context_enriched',
+      country_code: formData.countryCode,
+      context_hash: contextHash,
+      payload: {
+        verification_type: formData.verificationType,
+        regional_context_loaded: !!regionalContext
+      }
+    }, draftId);
+  };
+
   const handleBack = () => {
     if (currentStepIndex > 0) {
       setCurrentStepIndex(currentStepIndex - 1);
@@ -633,6 +688,17 @@ export const IdentityVerification: React.FC<IdentityVerificationProps> = ({
       setLatestSession(summary);
       onSessionCreated?.(summary);
 
+      // Bind the stepper trail before recording the launch so the events flush in timestamp order
+      await auditLogger.bindDraft(auditDraftRef.current, session.brainsait_oid, session.id, session.audit_token);
+      await auditLogger.record({
+        event_type: 'launch_submitted',
+        session_oid: session.brainsait_oid,
+        stripe_session_id: session.id,
+        country_code: formData.countryCode,
+        risk_signal: session.risk_score
+      });
+      auditDraftRef.current = auditLogger.beginDraft();
+
       await neuralService.createNeuralContext(session, formData.countryCode);
 
       pushAlert('success', translate('Stripe session created', 'تم إنشاء جلسة Stripe'), translate('Redirecting to Stripe Identity orchestration.', 'جارٍ إعادة التوجيه إلى Stripe Identity.'));
@@ -0,0 +1,321 @@
+import { securityService } from './security';
+
+export type AuditEventType =
+  | 'preflight_completed'
+  | 'context_enriched'
+  | 'step_transition'
+  | 'launch_submitted'
+  | 'status_changed';
+
+export interface AuditEventInput {
+  event_type: AuditEventType;
+  session_oid?: string;
+  stripe_session_id?: string;
+  country_code?: string;
+  context_hash?: string;
+  from_step?: string;
+  to_step?: string;
+  status?: string;
+  previous_status?: string;
+  risk_signal?: number;
+  payload?: Record<string, any>;
+}
+
+interface QueuedAuditEvent extends AuditEventInput {
+  id: string;
+  draft_id?: string;
+  device_fingerprint: string;
+  readiness_snapshot: ReturnType<typeof securityService.getReadinessSnapshot>;
+  timestamp: string;
+}
+
+const AUDIT_DB_NAME = 'brainsait_audit';
+const AUDIT_STORE = 'events';
+const AUDIT_TOKEN_PREFIX = 'brainsait_audit_token:';
+const MAX_AUDIT_BACKLOG = 500;
+const AUDIT_BATCH_SIZE = 50;
+const AUDIT_BATCH_DELAY_MS = 2000;
+const MAX_AUDIT_RETRY_DELAY_MS = 5 * 60 * 1000;
+const DRAFT_TTL_MS = 24 * 60 * 60 * 1000;
+
+const generateId = () =>
+  typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function'
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(16).slice(2)}`;
+
+/**
+ * Queues operator audit events in IndexedDB and delivers them to /api/audit-events.
+ *
+ * Stepper events happen before Stripe assigns a session, so they are recorded against a
+ * draft and only become deliverable once bindDraft() attaches the server session OID.
+ */
+export class BrainSAITAuditLogger {
+  private static instance: BrainSAITAuditLogger;
+  private dbPromise: Promise<IDBDatabase | null>;
+  private memoryQueue: QueuedAuditEvent[] = [];
+  private lastTimestamp = 0;
+  private flushTimer: number | null = null;
+  private flushInFlight = false;
+  private retryDelay = AUDIT_BATCH_DELAY_MS;
+
+  private constructor() {
+    this.dbPromise = this.openDatabase();
+
+    window.addEventListener('online', () => this.scheduleFlush(0));
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'hidden') {
+        this.flush({ keepalive: true });
+      }
+    });
+    this.scheduleFlush(AUDIT_BATCH_DELAY_MS);
+  }
+
+  public static getInstance(): BrainSAITAuditLogger {
+    if (!BrainSAITAuditLogger.instance) {
+      BrainSAITAuditLogger.instance = new BrainSAITAuditLogger();
+    }
+    return BrainSAITAuditLogger.instance;
+  }
+
+  public beginDraft(): string {
+    return generateId();
+  }
+
+  /**
+   * Records an event for a known session, or against a draft when session_oid is not yet assigned.
+   */
+  public async record(event: AuditEventInput, draftId?: string) {
+    if (!event.session_oid && !draftId) {
+      console.warn('Audit event dropped without session or draft:', event.event_type);
+      return;
+    }
+
+    try {
+      await this.put({
+        ...event,
+        id: generateId(),
+        draft_id: event.session_oid ? undefined : draftId,
+        device_fingerprint: securityService.getDeviceFingerprint(),
+        readiness_snapshot: securityService.getReadinessSnapshot(),
+        timestamp: this.nextTimestamp()
+      });
+      await this.trimBacklog();
+      this.scheduleFlush(AUDIT_BATCH_DELAY_MS);
+    } catch (error) {
+      console.error('Failed to queue audit event:', error);
+    }
+  }
+
+  /**
+   * Attaches the server-issued session to every event recorded under the draft. The audit token
+   * returned at session creation authorizes delivery of that session's events, including ones
+   * recorded later on the result page.
+   */
+  public async bindDraft(draftId: string, sessionOid: string, stripeSessionId?: string, auditToken?: string) {
+    try {
+      this.rememberAuditToken(sessionOid, auditToken);
+      const events = await this.readAll();
+      for (const event of events.filter(entry => entry.draft_id === draftId)) {
+        await this.put({
+          ...event,
+          draft_id: undefined,
+          session_oid: sessionOid,
+          stripe_session_id: event.stripe_session_id ?? stripeSessionId
+        });
+      }
+      this.scheduleFlush(0);
+    } catch (error) {
+      console.error('Failed to bind audit draft:', error);
+    }
+  }
+
+  public async flush(options?: { keepalive?: boolean }) {
+    if (this.flushInFlight || !navigator.onLine) {
+      return;
+    }
+
+    this.flushInFlight = true;
+    try {
+      const bound = (await this.readAll()).filter(event => event.session_oid);
+
+      // Without the session's audit token the server refuses the events, so they are dropped
+      const unauthorized = bound.filter(event => !this.getAuditToken(event.session_oid!));
+      if (unauthorized.length > 0) {
+        console.warn('Audit events dropped without an audit token:', unauthorized.length);
+        await this.remove(unauthorized.map(event => event.id));
+      }
+
+      // The API rejects out-of-order timestamps per session, so always send oldest first
+      const ready = bound
+        .filter(event => !unauthorized.includes(event))
+        .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+      const batch = ready.slice(0, AUDIT_BATCH_SIZE);
+
+      if (batch.length === 0) {
+        return;
+      }
+
+      const sessionTokens: Record<string, string> = {};
+      for (const event of batch) {
+        sessionTokens[event.session_oid!] = this.getAuditToken(event.session_oid!)!;
+      }
+
+      const response = await fetch('/api/audit-events', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          events: batch.map(({ id: _id, draft_id: _draftId, ...event }) => event),
+          session_tokens: sessionTokens
+        }),
+        keepalive: options?.keepalive
+      });
+
+      if (response.status === 429 || response.status >= 500) {
+        const retryAfterMs = Number(response.headers.get('Retry-After')) * 1000 || 0;
+        this.retryFlush(retryAfterMs);
+        return;
+      }
+
+      // 409 means the server already holds events at or after these timestamps, usually
+      // from a batch whose response was lost; resending would be rejected again
+      if (!response.ok) {
+        console.warn('Audit batch rejected:', response.status, await response.text().catch(() => ''));
+      }
+
+      await this.remove(batch.map(event => event.id));
+      this.retryDelay = AUDIT_BATCH_DELAY_MS;
+
+      if (ready.length > batch.length) {
+        this.scheduleFlush(AUDIT_BATCH_DELAY_MS);
+      }
+    } catch (error) {
+      console.warn('Audit event flush failed, will retry:', error);
+      this.retryFlush(0);
+    } finally {
+      this.flushInFlight = false;
+    }
+  }
+
+  // Also presented to re-issue the session from the result page
+  public getAuditToken(sessionOid: string): string | null {
+    return localStorage.getItem(`${AUDIT_TOKEN_PREFIX}${sessionOid}`);
+  }
+
+  public rememberAuditToken(sessionOid: string, auditToken?: string) {
+    if (auditToken) {
+      localStorage.setItem(`${AUDIT_TOKEN_PREFIX}${sessionOid}`, auditToken);
+    }
+  }
+
+  private scheduleFlush(delay: number) {
+    if (this.flushTimer !== null) {
+      return;
+    }
+
+    this.flushTimer = window.setTimeout(() => {
+      this.flushTimer = null;
+      this.flush();
+    }, delay);
+  }
+
+  private retryFlush(minimumDelay: number) {
+    this.retryDelay = Math.min(this.retryDelay * 2, MAX_AUDIT_RETRY_DELAY_MS);
+    this.scheduleFlush(Math.max(this.retryDelay, minimumDelay));
+  }
+
+  private nextTimestamp(): string {
+    this.lastTimestamp = Math.max(Date.now(), this.lastTimestamp + 1);
+    return new Date(this.lastTimestamp).toISOString();
+  }
+
+  private async trimBacklog() {
+    const now = Date.now();
+    const events = (await this.readAll()).sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+    // Drafts that were never launched are abandoned after a day
+    const expired = events.filter(event => event.draft_id && now - Date.parse(event.timestamp) > DRAFT_TTL_MS);
+    const live = events.filter(event => !expired.includes(event));
+    const overflow = live.slice(0, Math.max(live.length - MAX_AUDIT_BACKLOG, 0));
+
+    if (expired.length > 0 || overflow.length > 0) {
+      await this.remove([...expired, ...overflow].map(event => event.id));
+    }
+  }
+
+  private openDatabase(): Promise<IDBDatabase | null> {
+    if (typeof indexedDB === 'undefined') {
+      return Promise.resolve(null);
+    }
+
+    return new Promise(resolve => {
+      const request = indexedDB.open(AUDIT_DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(AUDIT_STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      // Private browsing can deny IndexedDB; fall back to an in-memory queue for the page lifetime
+      request.onerror = () => {
+        console.warn('Audit queue storage unavailable, using memory:', request.error);
+        resolve(null);
+      };
+    });
+  }
+
+  private async readAll(): Promise<QueuedAuditEvent[]> {
+    const db = await this.dbPromise;
+    if (!db) {
+      return [...this.memoryQueue];
+    }
+
+    return new Promise((resolve, reject) => {
+      const request = db.transaction(AUDIT_STORE, 'readonly').objectStore(AUDIT_STORE).getAll();
+      request.onsuccess = () => resolve(request.result as QueuedAuditEvent[]);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private async put(event: QueuedAuditEvent) {
+    const db = await this.dbPromise;
+    if (!db) {
+      this.memoryQueue = [...this.memoryQueue.filter(entry => entry.id !== event.id), event];
+      return;
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(AUDIT_STORE, 'readwrite');
+      transaction.objectStore(AUDIT_STORE).put(event);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  private async remove(ids: string[]) {
+    const db = await this.dbPromise;
+    if (!db) {
+      this.memoryQueue = this.memoryQueue.filter(entry => !ids.includes(entry.id));
+      return;
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(AUDIT_STORE, 'readwrite');
+      const store = transaction.objectStore(AUDIT_STORE);
+      ids.forEach(id => store.delete(id));
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+}
+
+// Personal identifiers are short enough that an unsalted hash of them could be brute-forced back
+const UNHASHED_CONTEXT_FIELDS = ['nphiesId', 'sudanNationalId', 'practitionerId'];
+
+/**
+ * Hashes the jurisdictional payload so the trail can prove what was launched without storing identifiers.
+ */
+export async function hashAuditContext(context: Record<string, any>): Promise<string> {
+  const hashed = Object.fromEntries(Object.entries(context).filter(([field]) => !UNHASHED_CONTEXT_FIELDS.includes(field)));
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(hashed)));
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export const auditLogger = BrainSAITAuditLogger.getInstance();
@@ -0,0 +1,195 @@
+export interface ResumableUploadOptions {
+  sessionOid: string;
+  documentType: string;
+  countryCode?: string;
+  // Operator bearer token; the upload endpoints are not public
+  authToken: string;
+  onProgress?: (progress: { uploadedBytes: number; totalBytes: number }) => void;
+  signal?: AbortSignal;
+}
+
+export interface UploadedDocument {
+  upload_id: string;
+  document_id: string;
+  upload_status: string;
+  [key: string]: any;
+}
+
+interface UploadState {
+  upload_id: string;
+  upload_status: string;
+  file_size: number;
+  part_size: number;
+  total_parts: number;
+  missing_parts: number[];
+  uploaded_bytes: number;
+}
+
+const UPLOAD_STATE_PREFIX = 'brainsait_upload:';
+const MAX_PART_ATTEMPTS = 5;
+const PART_RETRY_DELAY_MS = 1000;
+const MAX_PART_RETRY_DELAY_MS = 30 * 1000;
+
+/**
+ * Sends large documents through the resumable upload endpoints. The upload ID is kept in
+ * localStorage per file, so calling upload() again after a dropped connection or a reload
+ * asks the server which parts it already holds and sends only the rest.
+ */
+export class DocumentUploadService {
+  public async upload(file: File, options: ResumableUploadOptions): Promise<UploadedDocument> {
+    const stateKey = this.stateKey(file, options);
+    let state = await this.resumeState(localStorage.getItem(stateKey), file, options);
+
+    // A completion whose response was lost is asked for again; the server answers with the document
+    if (state && state.upload_status !== 'uploading') {
+      return this.complete(state.upload_id, stateKey, options);
+    }
+
+    if (!state) {
+      const response = await this.request('/api/documents/uploads', options, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          session_oid: options.sessionOid,
+          document_type: options.documentType,
+          country_code: options.countryCode,
+          file_name: file.name,
+          file_size: file.size,
+          content_type: file.type
+        })
+      });
+      const created = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(`Failed to start upload: ${created?.error || response.statusText}`);
+      }
+
+      localStorage.setItem(stateKey, created.upload_id);
+      state = {
+        upload_id: created.upload_id,
+        upload_status: created.upload_status,
+        file_size: file.size,
+        part_size: created.part_size,
+        total_parts: created.total_parts,
+        missing_parts: Array.from({ length: created.total_parts }, (_, i) => i + 1),
+        uploaded_bytes: 0
+      };
+    }
+
+    let uploadedBytes = state.uploaded_bytes;
+    options.onProgress?.({ uploadedBytes, totalBytes: file.size });
+
+    for (const partNumber of state.missing_parts) {
+      const start = (partNumber - 1) * state.part_size;
+      const part = file.slice(start, Math.min(start + state.part_size, file.size));
+      await this.sendPart(state.upload_id, partNumber, part, options);
+      uploadedBytes += part.size;
+      options.onProgress?.({ uploadedBytes, totalBytes: file.size });
+    }
+
+    return this.complete(state.upload_id, stateKey, options);
+  }
+
+  public async abort(file: File, options: ResumableUploadOptions): Promise<void> {
+    const stateKey = this.stateKey(file, options);
+    const uploadId = localStorage.getItem(stateKey);
+    if (!uploadId) {
+      return;
+    }
+
+    const response = await this.request(`/api/documents/uploads/${uploadId}`, options, { method: 'DELETE' });
+    if (response.ok || response.status === 404) {
+      localStorage.removeItem(stateKey);
+    }
+  }
+
+  // An upload the server no longer accepts parts for is forgotten and a new one is started
+  private async resumeState(uploadId: string | null, file: File, options: ResumableUploadOptions): Promise<UploadState | null> {
+    if (!uploadId) {
+      return null;
+    }
+
+    const response = await this.request(`/api/documents/uploads/${uploadId}`, options, { method: 'GET' });
+    const state: UploadState | null = response.ok ? await response.json() : null;
+    if (response.status >= 500) {
+      throw new Error(`Failed to resume upload: ${response.statusText}`);
+    }
+    if (!state || state.file_size !== file.size || !['uploading', 'completing', 'completed'].includes(state.upload_status)) {
+      localStorage.removeItem(this.stateKey(file, options));
+      return null;
+    }
+    return state;
+  }
+
+  private async complete(uploadId: string, stateKey: string, options: ResumableUploadOptions): Promise<UploadedDocument> {
+    const response = await this.request(`/api/documents/uploads/${uploadId}/complete`, options, { method: 'POST' });
+    const result = await response.json().catch(() => null);
+
+    // A rejected or unreadable document cannot be completed by retrying the same upload
+    if (response.ok || response.status === 400 || response.status === 422) {
+      localStorage.removeItem(stateKey);
+    }
+    if (!response.ok) {
+      throw new Error(`Failed to complete upload: ${result?.reason || result?.error || response.statusText}`);
+    }
+    return result;
+  }
+
+  // 429 and 5xx are transient, as is a request that got no response at all
+  private async sendPart(uploadId: string, partNumber: number, part: Blob, options: ResumableUploadOptions) {
+    let delay = PART_RETRY_DELAY_MS;
+    let attempts = 0;
+    for (;;) {
+      let response: Response | null = null;
+      try {
+        response = await this.request(`/api/documents/uploads/${uploadId}/parts/${partNumber}`, options, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/octet-stream' },
+          body: part
+        });
+      } catch (error) {
+        if (options.signal?.aborted) {
+          throw error;
+        }
+        // Time spent offline does not use up attempts
+        if (!navigator.onLine) {
+          await new Promise(resolve => window.addEventListener('online', resolve, { once: true }));
+          continue;
+        }
+        if (++attempts >= MAX_PART_ATTEMPTS) {
+          throw error;
+        }
+      }
+
+      if (response?.ok) {
+        return;
+      }
+      if (response) {
+        if (response.status !== 429 && response.status < 500) {
+          const failure = await response.json().catch(() => null);
+          throw new Error(`Upload part ${partNumber} rejected: ${failure?.error || response.statusText}`);
+        }
+        if (++attempts >= MAX_PART_ATTEMPTS) {
+          throw new Error(`Upload part ${partNumber} failed: ${response.status} ${response.statusText}`);
+        }
+        delay = Math.max(delay, Number(response.headers.get('Retry-After')) * 1000 || 0);
+      }
+
+      await new Promise(resolve => setTimeout(resolve, delay));
+      delay = Math.min(delay * 2, MAX_PART_RETRY_DELAY_MS);
+    }
+  }
+
+  private request(url: string, options: ResumableUploadOptions, init: RequestInit): Promise<Response> {
+    return fetch(url, {
+      ...init,
+      headers: { ...init.headers, Authorization: `Bearer ${options.authToken}` },
+      signal: options.signal
+    });
+  }
+
+  private stateKey(file: File, options: ResumableUploadOptions): string {
+    return `${UPLOAD_STATE_PREFIX}${options.sessionOid}:${options.documentType}:${file.name}:${file.size}:${file.lastModified}`;
+  }
+}
+
+export const documentUploads = new DocumentUploadService();
@@ -6,22 +6,28 @@ interface SecurityConfig {
   sessionTimeout: number;
 }
 
-interface SecurityMetrics {
-  verificationAttempts: number;
-  lastAttemptTimestamp: number;
-  suspiciousActivityScore: number;
-  deviceFingerprint?: string;
-  ipAddress?: string;
-  userAgent?: string;
+interface QueuedIncident {
+  type: string;
+  session_id?: string;
+  details: any;
+  reported_at: string;
 }
 
+const INCIDENT_BACKLOG_KEY = 'brainsait_security_incidents';
+const MAX_INCIDENT_BACKLOG = 100;
+const INCIDENT_BATCH_SIZE = 25;
+const INCIDENT_BATCH_DELAY_MS = 2000;
+const MAX_INCIDENT_RETRY_DELAY_MS = 5 * 60 * 1000;
+
 export class BrainSAITSecurityService {
   private static instance: BrainSAITSecurityService;
-  private securityMetrics: Map<string, SecurityMetrics> = new Map();
   private config: SecurityConfig;
   private realTimeMonitoringActive = false;
   private deviceFingerprintingActive = false;
   private cspActive = false;
+  private incidentFlushTimer: number | null = null;
+  private incidentFlushInFlight = false;
+  private incidentRetryDelay = INCIDENT_BATCH_DELAY_MS;
 
   private constructor() {
     this.config = {
@@ -56,6 +62,15 @@ export class BrainSAITSecurityService {
       this.initializeDeviceFingerprinting();
     }
 
+    // Deliver incidents queued while offline or before ingestion was available
+    window.addEventListener('online', () => this.scheduleIncidentFlush(0));
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'hidden') {
+        this.flushSecurityIncidents({ keepalive: true });
+      }
+    });
+    this.scheduleIncidentFlush(INCIDENT_BATCH_DELAY_MS);
+
     console.log('BrainSAIT Security Service initialized with OID: 1.3.6.1.4.1.61026.4.1');
   }
 
@@ -70,14 +85,8 @@ export class BrainSAITSecurityService {
         timestamp: new Date().toISOString()
       });
 
-      // Report CSP violation to BrainSAIT monitoring
-      this.reportSecurityIncident({
-        type: 'csp_violation',
-        details: {
-          directive: event.violatedDirective,
-          uri: event.blockedURI
-        }
-      });
+      // Browsers deliver the violation to /api/security/csp-report through the policy's
+      // report-uri/report-to directives, so it is not queued again as a client incident
     });
   }
 
@@ -128,211 +137,107 @@ export class BrainSAITSecurityService {
     return btoa(JSON.stringify(fingerprint)).slice(0, 32);
   }
 
-  async validateVerificationRequest(sessionId: string, userContext: any): Promise<{
-    isValid: boolean;
-    riskScore: number;
-    blockedReason?: string;
-  }> {
-    const deviceFingerprint = sessionStorage.getItem('brainsait_device_fp') || this.initializeDeviceFingerprinting();
-    const currentTime = Date.now();
-
-    // Get or create security metrics for this session
-    let metrics = this.securityMetrics.get(sessionId) || {
-      verificationAttempts: 0,
-      lastAttemptTimestamp: 0,
-      suspiciousActivityScore: 0,
-      deviceFingerprint,
-      ipAddress: await this.getUserIP(),
-      userAgent: navigator.userAgent
-    };
-
-    // Update attempt count
-    metrics.verificationAttempts++;
-    metrics.lastAttemptTimestamp = currentTime;
-
-    // Calculate risk score
-    let riskScore = 0;
-
-    // Check attempt frequency
-    if (metrics.verificationAttempts > this.config.maxVerificationAttempts) {
-      riskScore += 50;
-    }
-
-    // Check for rapid successive attempts
-    if (currentTime - metrics.lastAttemptTimestamp < 5000) { // Less than 5 seconds
-      riskScore += 30;
-    }
-
-    // Check device consistency
-    if (metrics.deviceFingerprint !== deviceFingerprint) {
-      riskScore += 40;
-    }
-
-    // Advanced fraud detection checks
-    if (this.config.enableAdvancedFraudDetection) {
-      riskScore += await this.performAdvancedFraudChecks(userContext, metrics);
-    }
-
-    // Update metrics
-    metrics.suspiciousActivityScore = riskScore;
-    this.securityMetrics.set(sessionId, metrics);
-
-    // Determine if request should be blocked
-    const isValid = riskScore < 70; // Threshold for blocking
-    const result = {
-      isValid,
-      riskScore,
-      blockedReason: isValid ? undefined : this.getRiskReason(riskScore)
-    };
-
-    // Log security event
-    this.logSecurityEvent(sessionId, result, metrics);
-
-    return result;
+  public getDeviceFingerprint(): string {
+    return sessionStorage.getItem('brainsait_device_fp') || this.initializeDeviceFingerprinting();
   }
 
-  private async performAdvancedFraudChecks(userContext: any, metrics: SecurityMetrics): Promise<number> {
-    let fraudScore = 0;
-
-    // Check for headless browser indicators
-    if (this.detectHeadlessBrowser()) {
-      fraudScore += 60;
-    }
+  private reportSecurityIncident(incident: { type: string; sessionId?: string; details?: any; [key: string]: any }) {
+    try {
+      console.warn('Security incident reported:', incident);
 
-    // Check for automation tools
-    if (this.detectAutomationTools()) {
-      fraudScore += 50;
-    }
+      const { type, sessionId, details, ...rest } = incident;
+      const backlog = this.readIncidentBacklog();
+      backlog.push({
+        type,
+        session_id: sessionId,
+        details: details ?? rest,
+        reported_at: new Date().toISOString()
+      });
 
-    // Check behavioral patterns
-    if (userContext.countryCode && this.detectLocationMismatch(userContext.countryCode, metrics.ipAddress)) {
-      fraudScore += 20;
-    }
+      // Keep only last 100 incidents while offline
+      if (backlog.length > MAX_INCIDENT_BACKLOG) {
+        backlog.splice(0, backlog.length - MAX_INCIDENT_BACKLOG);
+      }
 
-    // Check for VPN/Proxy usage
-    if (await this.detectVPNUsage(metrics.ipAddress)) {
-      fraudScore += 25;
+      localStorage.setItem(INCIDENT_BACKLOG_KEY, JSON.stringify(backlog));
+      this.scheduleIncidentFlush(INCIDENT_BATCH_DELAY_MS);
+    } catch (error) {
+      console.error('Failed to report security incident:', error);
     }
-
-    return Math.min(fraudScore, 100);
-  }
-
-  private detectHeadlessBrowser(): boolean {
-    // Check for common headless browser indicators
-    return (
-      navigator.webdriver === true ||
-      'PhantomJS' in window ||
-      '_phantom' in window ||
-      '_selenium' in window ||
-      '__nightmare' in window
-    );
-  }
-
-  private detectAutomationTools(): boolean {
-    // Check for automation tool indicators
-    return (
-      navigator.plugins.length === 0 ||
-      navigator.languages.length === 0 ||
-      /HeadlessChrome/.test(navigator.userAgent)
-    );
   }
 
-  private detectLocationMismatch(_countryCode: string, _ipAddress?: string): boolean {
-    // This would typically involve IP geolocation service
-    // For now, return false as placeholder
-    return false;
-  }
-
-  private async detectVPNUsage(_ipAddress?: string): Promise<boolean> {
-    // This would typically involve VPN detection service
-    // For now, return false as placeholder
-    return false;
-  }
-
-  private async getUserIP(): Promise<string> {
+  private readIncidentBacklog(): QueuedIncident[] {
     try {
-      // This would typically be done server-side
-      return 'client-side-detection';
-    } catch (error) {
-      return 'unknown';
+      const stored = JSON.parse(localStorage.getItem(INCIDENT_BACKLOG_KEY) || '[]');
+      // Entries written before server ingestion existed carry sessionId/timestamp instead
+      return Array.isArray(stored)
+        ? stored.map((entry: any) => ({
+            type: entry.type,
+            session_id: entry.session_id ?? entry.sessionId,
+            details: entry.details ?? { element: entry.element },
+            reported_at: entry.reported_at ?? entry.timestamp
+          }))
+        : [];
+    } catch {
+      return [];
     }
   }
 
-  private getRiskReason(riskScore: number): string {
-    if (riskScore >= 90) return 'High fraud risk detected';
-    if (riskScore >= 70) return 'Suspicious activity patterns';
-    if (riskScore >= 50) return 'Multiple failed attempts';
-    return 'Security threshold exceeded';
-  }
+  private scheduleIncidentFlush(delay: number) {
+    if (this.incidentFlushTimer !== null) {
+      return;
+    }
 
-  private logSecurityEvent(sessionId: string, result: any, metrics: SecurityMetrics) {
-    const securityEvent = {
-      timestamp: new Date().toISOString(),
-      sessionId,
-      oid: '1.3.6.1.4.1.61026.4.1.1',
-      event_type: 'verification_security_check',
-      risk_score: result.riskScore,
-      blocked: !result.isValid,
-      metrics: {
-        attempts: metrics.verificationAttempts,
-        device_fingerprint: metrics.deviceFingerprint,
-        user_agent: metrics.userAgent
-      }
-    };
+    this.incidentFlushTimer = window.setTimeout(() => {
+      this.incidentFlushTimer = null;
+      this.flushSecurityIncidents();
+    }, delay);
+  }
 
-    console.log('BrainSAIT Security Event:', securityEvent);
+  public async flushSecurityIncidents(options?: { keepalive?: boolean }) {
+    if (this.incidentFlushInFlight || !navigator.onLine) {
+      return;
+    }
 
-    // In production, this would be sent to the security monitoring system
-    if (result.riskScore > 50) {
-      this.reportSecurityIncident({
-        type: 'high_risk_verification',
-        sessionId,
-        details: securityEvent
-      });
+    const batch = this.readIncidentBacklog().slice(0, INCIDENT_BATCH_SIZE);
+    if (batch.length === 0) {
+      return;
     }
-  }
 
-  private async reportSecurityIncident(incident: any) {
+    this.incidentFlushInFlight = true;
     try {
-      // This would typically send to BrainSAIT security monitoring endpoint
-      console.warn('Security incident reported:', incident);
-
-      // Store locally for now
-      const incidents = JSON.parse(localStorage.getItem('brainsait_security_incidents') || '[]');
-      incidents.push({
-        ...incident,
-        timestamp: new Date().toISOString(),
-        oid: '1.3.6.1.4.1.61026.4.2'
+      const response = await fetch('/api/security/incidents', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ incidents: batch }),
+        keepalive: options?.keepalive
       });
 
-      // Keep only last 100 incidents
-      if (incidents.length > 100) {
-        incidents.splice(0, incidents.length - 100);
+      // 429 and 5xx are transient; anything else is final for this batch
+      if (response.status === 429 || response.status >= 500) {
+        const retryAfterMs = Number(response.headers.get('Retry-After')) * 1000 || 0;
+        this.retryIncidentFlush(retryAfterMs);
+        return;
       }
 
-      localStorage.setItem('brainsait_security_incidents', JSON.stringify(incidents));
-    } catch (error) {
-      console.error('Failed to report security incident:', error);
-    }
-  }
+      const remaining = this.readIncidentBacklog().slice(batch.length);
+      localStorage.setItem(INCIDENT_BACKLOG_KEY, JSON.stringify(remaining));
+      this.incidentRetryDelay = INCIDENT_BATCH_DELAY_MS;
 
-  public getSecurityMetrics(sessionId?: string): SecurityMetrics | Map<string, SecurityMetrics> {
-    if (sessionId) {
-      return this.securityMetrics.get(sessionId) || {
-        verificationAttempts: 0,
-        lastAttemptTimestamp: 0,
-        suspiciousActivityScore: 0
-      };
+      if (remaining.length > 0) {
+        this.scheduleIncidentFlush(INCIDENT_BATCH_DELAY_MS);
+      }
+    } catch (error) {
+      console.warn('Security incident flush failed, will retry:', error);
+      this.retryIncidentFlush(0);
+    } finally {
+      this.incidentFlushInFlight = false;
     }
-    return this.securityMetrics;
   }
 
-  public clearSecurityMetrics(sessionId?: string) {
-    if (sessionId) {
-      this.securityMetrics.delete(sessionId);
-    } else {
-      this.securityMetrics.clear();
-    }
+  private retryIncidentFlush(minimumDelay: number) {
+    this.incidentRetryDelay = Math.min(this.incidentRetryDelay * 2, MAX_INCIDENT_RETRY_DELAY_MS);
+    this.scheduleIncidentFlush(Math.max(this.incidentRetryDelay, minimumDelay));
   }
 
   public enableRealTimeProtection() {
@@ -374,7 +279,7 @@ export class BrainSAITSecurityService {
             console.warn('Unauthorized script injection detected');
             this.reportSecurityIncident({
               type: 'script_injection',
-              element: element.outerHTML
+              element: element.outerHTML.slice(0, 2000)
             });
           }
         }
@@ -120,18 +120,6 @@ export class StripeIdentityService {
     try {
       const sessionOID = this.generateOID('verification', options.countryCode);
 
-      // Advanced security validation
-      const securityCheck = await securityService.validateVerificationRequest(sessionOID, {
-        type: options.type,
-        countryCode: options.countryCode,
-        healthcareContext: options.healthcareContext,
-        nationalIdContext: options.nationalIdContext
-      });
-
-      if (!securityCheck.isValid) {
-        throw new Error(`Security validation failed: ${securityCheck.blockedReason}`);
-      }
-
       // Pre-verification with regional systems
       if (options.countryCode === 'SA' && options.healthcareContext) {
         await this.validateNPHIESContext(options.healthcareContext);
@@ -141,32 +129,40 @@ export class StripeIdentityService {
         await this.validateSudanNIDContext(options.nationalIdContext);
       }
 
-      const response = await fetch('/api/create-verification-session', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'X-BrainSAIT-OID': sessionOID,
-          'X-Country-Context': options.countryCode || 'US',
-        },
-        body: JSON.stringify({
-          type: options.type,
-          return_url: options.returnUrl,
-          metadata: {
-            ...options.metadata,
-            iod_integration: 'true',
-            brainsait_app: 'identity-verification',
-            environment: import.meta.env.VITE_APP_ENVIRONMENT || 'production',
-            session_oid: sessionOID,
-            country_code: options.countryCode,
-            healthcare_context: options.healthcareContext ? JSON.stringify(options.healthcareContext) : undefined,
-            national_context: options.nationalIdContext ? JSON.stringify(options.nationalIdContext) : undefined,
-            neural_sync: 'enabled'
-          }
-        })
-      });
+      // The key and body stay fixed across retries so the server answers a retry with the original session
+      const idempotencyKey = crypto.randomUUID();
+      const response = await this.postWithRetry('/api/create-verification-session', {
+        'Content-Type': 'application/json',
+        'X-BrainSAIT-OID': sessionOID,
+        'X-Country-Context': options.countryCode || 'US',
+        'Idempotency-Key': idempotencyKey,
+      }, JSON.stringify({
+        type: options.type,
+        return_url: options.returnUrl,
+        country_code: options.countryCode,
+        device_fingerprint: securityService.getDeviceFingerprint(),
+        healthcare_context: options.healthcareContext,
+        national_context: options.nationalIdContext,
+        metadata: {
+          ...options.metadata,
+          iod_integration: 'true',
+          brainsait_app: 'identity-verification',
+          environment: import.meta.env.VITE_APP_ENVIRONMENT || 'production',
+          session_oid: sessionOID,
+          country_code: options.countryCode,
+          healthcare_context: options.healthcareContext ? JSON.stringify(options.healthcareContext) : undefined,
+          national_context: options.nationalIdContext ? JSON.stringify(options.nationalIdContext) : undefined,
+          neural_sync: 'enabled'
+        }
+      }));
 
       if (!response.ok) {
-        throw new Error(`Failed to create verification session: ${response.statusText}`);
+        // Risk decisions are made server-side; surface the structured reason when present
+        const failure = await response.json().catch(() => null);
+        if (failure?.reason?.message) {
+          throw new Error(`Security validation failed: ${failure.reason.message}`);
+        }
+        throw new Error(`Failed to create verification session: ${failure?.error || response.statusText}`);
       }
 
       const session = await response.json();
@@ -189,6 +185,18 @@ export class StripeIdentityService {
     }
   }
 
+  // Retries only when no response arrived at all; any HTTP answer is final
+  private async postWithRetry(url: string, headers: Record<string, string>, body: string, attempts = 3): Promise<Response> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await fetch(url, { method: 'POST', headers, body });
+      } catch (error) {
+        if (attempt >= attempts) throw error;
+        await new Promise(resolve => setTimeout(resolve, 500 * 2 ** (attempt - 1)));
+      }
+    }
+  }
+
   private async validateNPHIESContext(context: { nphiesId?: string; facilityCode?: string; practitionerId?: string; }) {
     if (!this.nphiesEndpoint || !context.nphiesId) return;
 
@@ -279,6 +287,15 @@ export class StripeIdentityService {
         }
       });
 
+      // Expired sessions are reported as a status so the result page can offer a retry
+      if (response.status === 410) {
+        const expired = await response.json().catch(() => null);
+        return {
+          verification_status: { status: 'expired' },
+          brainsait_context: { session_oid: expired?.session_oid, expires_at: expired?.expires_at }
+        };
+      }
+
       if (!response.ok) {
         throw new Error(`Failed to get verification session: ${response.statusText}`);
       }
@@ -291,6 +308,32 @@ export class StripeIdentityService {
     }
   }
 
+  /**
+   * Re-issue a verification session that needs new input, was canceled or has expired.
+   * The audit token issued with the session stands in for an operator credential.
+   */
+  async retryVerificationSession(sessionId: string, auditToken: string) {
+    try {
+      const response = await fetch(`/api/verification-session/${sessionId}/retry`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Audit-Token': auditToken
+        }
+      });
+
+      if (!response.ok) {
+        const failure = await response.json().catch(() => null);
+        throw new Error(failure?.reason?.message || failure?.error || `Failed to retry verification session: ${response.statusText}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      console.error('Error retrying verification session:', error);
+      throw error;
+    }
+  }
+
   /**
    * Check verification status
    */
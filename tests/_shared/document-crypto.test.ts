@@ -0,0 +1,205 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import {
+  decryptDocument,
+  DocumentKeyring,
+  encryptDocument,
+  envelopeFromMetadata,
+  envelopeMetadata,
+  generateDataKey,
+  loadDocumentKeyring,
+  rewrapDataKey,
+  rewrapDocumentKeys,
+  unwrapDataKey
+} from '../../functions/_shared/document-crypto';
+import { decodeBase64, encodeBase64 } from '../../functions/_shared/encoding';
+import { createTestEnvironment, TestEnvironment } from '../helpers/bindings';
+
+const OLD_KEY = encodeBase64(crypto.getRandomValues(new Uint8Array(32)));
+const NEW_KEY = encodeBase64(crypto.getRandomValues(new Uint8Array(32)));
+const DOCUMENT_ID = 'doc_test_1';
+const PLAINTEXT = new TextEncoder().encode('passport scan bytes');
+
+function keyring(currentKeyId: string, keys: Record<string, string>): Promise<DocumentKeyring | null> {
+  return loadDocumentKeyring({ DOCUMENT_MASTER_KEY_ID: currentKeyId, DOCUMENT_MASTER_KEYS: JSON.stringify(keys) });
+}
+
+function flipByte(base64: string, index: number): string {
+  const bytes = decodeBase64(base64);
+  bytes[index] ^= 0xff;
+  return encodeBase64(bytes);
+}
+
+function text(buffer: ArrayBuffer | null): string | null {
+  return buffer && new TextDecoder().decode(buffer);
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('document keyring', () => {
+  it('is null without keys, with malformed keys or without the current key', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await loadDocumentKeyring({})).toBeNull();
+    expect(await loadDocumentKeyring({ DOCUMENT_MASTER_KEY_ID: 'k1', DOCUMENT_MASTER_KEYS: 'not json' })).toBeNull();
+    expect(await keyring('k2', { k1: OLD_KEY })).toBeNull();
+    expect(await keyring('k1', { k1: encodeBase64(new Uint8Array(7)) })).toBeNull();
+  });
+
+  it('imports every key in the ring', async () => {
+    const ring = await keyring('k2', { k1: OLD_KEY, k2: NEW_KEY });
+
+    expect(ring?.currentKeyId).toBe('k2');
+    expect([...ring!.keys.keys()]).toEqual(['k1', 'k2']);
+  });
+});
+
+describe('document envelope encryption', () => {
+  it('round-trips a document', async () => {
+    const ring = (await keyring('k1', { k1: OLD_KEY }))!;
+    const { ciphertext, envelope } = await encryptDocument(ring, PLAINTEXT.buffer, DOCUMENT_ID);
+
+    expect(envelope.keyId).toBe('k1');
+    expect(new Uint8Array(ciphertext)).not.toEqual(PLAINTEXT);
+    expect(text(await decryptDocument(ring, ciphertext, envelope, DOCUMENT_ID))).toBe('passport scan bytes');
+  });
+
+  it('uses a fresh data key and IV for every document', async () => {
+    const ring = (await keyring('k1', { k1: OLD_KEY }))!;
+    const first = await encryptDocument(ring, PLAINTEXT.buffer, DOCUMENT_ID);
+    const second = await encryptDocument(ring, PLAINTEXT.buffer, DOCUMENT_ID);
+
+    expect(second.envelope.wrappedKey).not.toBe(first.envelope.wrappedKey);
+    expect(second.envelope.iv).not.toBe(first.envelope.iv);
+  });
+
+  describe('tampering', () => {
+    it('rejects a modified ciphertext', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const ring = (await keyring('k1', { k1: OLD_KEY }))!;
+      const { ciphertext, envelope } = await encryptDocument(ring, PLAINTEXT.buffer, DOCUMENT_ID);
+      const tampered = new Uint8Array(ciphertext.slice(0));
+      tampered[0] ^= 0x01;
+
+      expect(await decryptDocument(ring, tampered.buffer, envelope, DOCUMENT_ID)).toBeNull();
+    });
+
+    it('rejects a ciphertext moved onto another document', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const ring = (await keyring('k1', { k1: OLD_KEY }))!;
+      const { ciphertext, envelope } = await encryptDocument(ring, PLAINTEXT.buffer, DOCUMENT_ID);
+
+      expect(await decryptDocument(ring, ciphertext, envelope, 'doc_test_2')).toBeNull();
+    });
+
+    it('rejects a modified wrapped key or IV', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const ring = (await keyring('k1', { k1: OLD_KEY }))!;
+      const { ciphertext, envelope } = await encryptDocument(ring, PLAINTEXT.buffer, DOCUMENT_ID);
+
+      expect(await decryptDocument(ring, ciphertext, { ...envelope, wrappedKey: flipByte(envelope.wrappedKey, 3) }, DOCUMENT_ID)).toBeNull();
+      expect(await decryptDocument(ring, ciphertext, { ...envelope, iv: flipByte(envelope.iv, 0) }, DOCUMENT_ID)).toBeNull();
+    });
+
+    it('cannot decrypt once the wrapping key has left the ring', async () => {
+      const ring = (await keyring('k1', { k1: OLD_KEY }))!;
+      const { ciphertext, envelope } = await encryptDocument(ring, PLAINTEXT.buffer, DOCUMENT_ID);
+      const rotated = (await keyring('k2', { k2: NEW_KEY }))!;
+
+      expect(await decryptDocument(rotated, ciphertext, envelope, DOCUMENT_ID)).toBeNull();
+    });
+
+    it('cannot unwrap with a different master key under the same ID', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const ring = (await keyring('k1', { k1: OLD_KEY }))!;
+      const { ciphertext, envelope } = await encryptDocument(ring, PLAINTEXT.buffer, DOCUMENT_ID);
+      const impostor = (await keyring('k1', { k1: NEW_KEY }))!;
+
+      expect(await decryptDocument(impostor, ciphertext, envelope, DOCUMENT_ID)).toBeNull();
+    });
+  });
+
+  it('re-wraps a data key under the current master key without touching the ciphertext', async () => {
+    const ring = (await keyring('k1', { k1: OLD_KEY }))!;
+    const { ciphertext, envelope } = await encryptDocument(ring, PLAINTEXT.buffer, DOCUMENT_ID);
+    const rotating = (await keyring('k2', { k1: OLD_KEY, k2: NEW_KEY }))!;
+    const rewrapped = (await rewrapDataKey(rotating, envelope))!;
+
+    expect(rewrapped).toMatchObject({ keyId: 'k2', iv: envelope.iv });
+    const retired = (await keyring('k2', { k2: NEW_KEY }))!;
+    expect(text(await decryptDocument(retired, ciphertext, rewrapped, DOCUMENT_ID))).toBe('passport scan bytes');
+  });
+
+  it('round-trips a standalone data key', async () => {
+    const ring = (await keyring('k1', { k1: OLD_KEY }))!;
+    const { dataKey, keyId, wrappedKey } = await generateDataKey(ring);
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, dataKey, PLAINTEXT);
+
+    const unwrapped = (await unwrapDataKey(ring, keyId, wrappedKey))!;
+    expect(text(await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, unwrapped, ciphertext))).toBe('passport scan bytes');
+    expect(await unwrapDataKey(ring, 'k9', wrappedKey)).toBeNull();
+
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(await unwrapDataKey(ring, keyId, flipByte(wrappedKey, 5))).toBeNull();
+  });
+
+  it('reads back the envelope it writes to R2 metadata', async () => {
+    const envelope = { keyId: 'k1', wrappedKey: 'd3JhcHBlZA==', iv: 'aXY=' };
+
+    expect(envelopeFromMetadata(envelopeMetadata(envelope))).toEqual(envelope);
+    expect(envelopeFromMetadata({ ...envelopeMetadata(envelope), encryption: 'none' })).toBeNull();
+    expect(envelopeFromMetadata(undefined)).toBeNull();
+  });
+});
+
+describe('document key rotation', () => {
+  let testEnv: TestEnvironment;
+
+  beforeAll(async () => {
+    testEnv = await createTestEnvironment();
+  });
+
+  afterAll(async () => {
+    await testEnv.dispose();
+  });
+
+  async function storeDocument(documentId: string, body: ArrayBuffer | Uint8Array, metadata: Record<string, string> = {}) {
+    const storagePath = `tenants/_platform/documents/${documentId}`;
+    await testEnv.env.DOCUMENTS.put(storagePath, body, { customMetadata: metadata });
+    await testEnv.env.DB.prepare(`
+      INSERT INTO document_storage (document_id, session_oid, document_type, file_name, file_size, file_type, storage_path,
+        encryption_key_id, wrapped_key, encryption_iv)
+      VALUES (?, '1.3.6.1.4.1.61026.1.1.1', 'identity_document', 'id.jpg', ?, 'image/jpeg', ?, ?, ?, ?)
+    `).bind(
+      documentId, body.byteLength, storagePath,
+      metadata.encryptionKeyId ?? null, metadata.wrappedKey ?? null, metadata.encryptionIv ?? null
+    ).run();
+    return storagePath;
+  }
+
+  it('re-wraps retired keys and encrypts plaintext documents', async () => {
+    const env = { ...testEnv.env, DOCUMENT_MASTER_KEY_ID: 'k2', DOCUMENT_MASTER_KEYS: JSON.stringify({ k1: OLD_KEY, k2: NEW_KEY }) };
+    const oldRing = (await keyring('k1', { k1: OLD_KEY }))!;
+    const encrypted = await encryptDocument(oldRing, PLAINTEXT.buffer, 'doc_rotate_1');
+    const encryptedPath = await storeDocument('doc_rotate_1', encrypted.ciphertext, envelopeMetadata(encrypted.envelope));
+    const plaintextPath = await storeDocument('doc_rotate_2', PLAINTEXT);
+
+    const result = await rewrapDocumentKeys(env, (await loadDocumentKeyring(env))!);
+    expect(result).toEqual({ rewrapped: 1, encrypted: 1, failed: 0 });
+
+    const currentOnly = (await keyring('k2', { k2: NEW_KEY }))!;
+    for (const [documentId, path] of [['doc_rotate_1', encryptedPath], ['doc_rotate_2', plaintextPath]]) {
+      const object = (await testEnv.env.DOCUMENTS.get(path))!;
+      const envelope = envelopeFromMetadata(object.customMetadata)!;
+      const row = await testEnv.env.DB.prepare(`
+        SELECT encryption_key_id FROM document_storage WHERE document_id = ?
+      `).bind(documentId).first<{ encryption_key_id: string }>();
+
+      expect(envelope.keyId).toBe('k2');
+      expect(row?.encryption_key_id).toBe('k2');
+      expect(text(await decryptDocument(currentOnly, await object.arrayBuffer(), envelope, documentId))).toBe('passport scan bytes');
+    }
+  });
+});
@@ -0,0 +1,242 @@
+import { describe, expect, it } from 'vitest';
+import { sanitizeDocument, SanitizationResult, sniffDocumentType } from '../../functions/_shared/document-sanitizer';
+import {
+  bytesOf,
+  containsAscii,
+  jpeg,
+  JPEG_COMMENT,
+  JPEG_EXIF,
+  JPEG_IPTC,
+  JPEG_JFIF,
+  JPEG_QUANT,
+  JPEG_SCAN,
+  JPEG_XMP,
+  pdf,
+  pdfObjectStream,
+  png,
+  PNG_EXIF,
+  PNG_IDAT,
+  PNG_IEND,
+  PNG_IHDR,
+  PNG_ITXT,
+  PNG_TEXT,
+  PNG_TIME,
+  webp,
+  WEBP_EXIF,
+  WEBP_EXIF_FLAG,
+  WEBP_VP8L,
+  webpVp8x,
+  WEBP_XMP,
+  WEBP_XMP_FLAG
+} from '../helpers/fixtures';
+
+function accepted(result: SanitizationResult) {
+  if (!result.accepted) {
+    throw new Error(`Document was rejected: ${result.reason}`);
+  }
+  return result;
+}
+
+function rejection(result: SanitizationResult): string {
+  if (result.accepted) {
+    throw new Error('Document was accepted');
+  }
+  return result.reason;
+}
+
+describe('document type sniffing', () => {
+  it('detects each supported format from its magic bytes', () => {
+    expect(sniffDocumentType(jpeg(JPEG_JFIF))).toBe('image/jpeg');
+    expect(sniffDocumentType(png(PNG_IHDR, PNG_IDAT, PNG_IEND))).toBe('image/png');
+    expect(sniffDocumentType(webp(WEBP_VP8L))).toBe('image/webp');
+    expect(sniffDocumentType(pdf())).toBe('application/pdf');
+  });
+
+  it('ignores the declared type', async () => {
+    const html = bytesOf('<html><script>alert(1)</script></html>');
+    const result = await sanitizeDocument(html, 'image/jpeg');
+
+    expect(result).toMatchObject({ accepted: false, detectedType: null });
+  });
+
+  it('requires the PDF header at the start of the file', () => {
+    expect(sniffDocumentType(bytesOf('<html>\n', pdf()))).toBeNull();
+  });
+
+  it('reports the declared and detected types', async () => {
+    const result = accepted(await sanitizeDocument(png(PNG_IHDR, PNG_IDAT, PNG_IEND), 'image/jpeg'));
+
+    expect(result.report).toMatchObject({ declared_type: 'image/jpeg', detected_type: 'image/png' });
+  });
+});
+
+describe('JPEG sanitization', () => {
+  it('removes EXIF, XMP, IPTC and comments and keeps the image data', async () => {
+    const original = jpeg(JPEG_JFIF, JPEG_EXIF, JPEG_XMP, JPEG_IPTC, JPEG_COMMENT, JPEG_QUANT);
+    const result = accepted(await sanitizeDocument(original, 'image/jpeg'));
+
+    expect(result.status).toBe('sanitized');
+    expect(result.report.removed.sort()).toEqual(['jpeg:comment', 'jpeg:exif', 'jpeg:iptc', 'jpeg:xmp']);
+    expect(result.bytes).toEqual(jpeg(JPEG_JFIF, JPEG_QUANT));
+    expect(containsAscii(result.bytes, 'GPSLatitude')).toBe(false);
+    expect(containsAscii(result.bytes, 'branch 12')).toBe(false);
+  });
+
+  it('leaves a JPEG without metadata unchanged', async () => {
+    const original = jpeg(JPEG_JFIF, JPEG_QUANT);
+    const result = accepted(await sanitizeDocument(original, 'image/jpeg'));
+
+    expect(result.status).toBe('clean');
+    expect(result.bytes).toEqual(original);
+  });
+
+  it('does not treat marker bytes inside the scan as segments', async () => {
+    const result = accepted(await sanitizeDocument(jpeg(JPEG_EXIF), 'image/jpeg'));
+
+    expect(result.bytes.subarray(2)).toEqual(JPEG_SCAN);
+  });
+
+  it('rejects a segment that runs past the end of the file', async () => {
+    const truncated = bytesOf([0xff, 0xd8], JPEG_JFIF, [0xff, 0xe1, 0x40, 0x00], 'Exif');
+
+    expect(rejection(await sanitizeDocument(truncated, 'image/jpeg'))).toBe('Image structure is malformed');
+  });
+});
+
+describe('PNG sanitization', () => {
+  it('removes text, EXIF and time chunks and keeps the image chunks', async () => {
+    const original = png(PNG_IHDR, PNG_TEXT, PNG_EXIF, PNG_IDAT, PNG_ITXT, PNG_TIME, PNG_IEND);
+    const result = accepted(await sanitizeDocument(original, 'image/png'));
+
+    expect(result.status).toBe('sanitized');
+    expect(result.report.removed.sort()).toEqual(['png:exif', 'png:text', 'png:time']);
+    expect(result.bytes).toEqual(png(PNG_IHDR, PNG_IDAT, PNG_IEND));
+  });
+
+  it('leaves a PNG without metadata unchanged', async () => {
+    const original = png(PNG_IHDR, PNG_IDAT, PNG_IEND);
+    const result = accepted(await sanitizeDocument(original, 'image/png'));
+
+    expect(result.status).toBe('clean');
+    expect(result.bytes).toEqual(original);
+  });
+
+  it('drops anything appended after IEND', async () => {
+    const result = accepted(await sanitizeDocument(bytesOf(png(PNG_IHDR, PNG_IDAT, PNG_IEND), 'PK\x03\x04payload'), 'image/png'));
+
+    expect(result.bytes).toEqual(png(PNG_IHDR, PNG_IDAT, PNG_IEND));
+  });
+
+  it('rejects a PNG without IEND', async () => {
+    expect(rejection(await sanitizeDocument(png(PNG_IHDR, PNG_IDAT), 'image/png'))).toBe('Image structure is malformed');
+  });
+});
+
+describe('WebP sanitization', () => {
+  it('removes EXIF and XMP chunks and clears their VP8X flags', async () => {
+    const original = webp(webpVp8x(WEBP_EXIF_FLAG | WEBP_XMP_FLAG), WEBP_VP8L, WEBP_EXIF, WEBP_XMP);
+    const result = accepted(await sanitizeDocument(original, 'image/webp'));
+
+    expect(result.status).toBe('sanitized');
+    expect(result.report.removed.sort()).toEqual(['webp:exif', 'webp:xmp']);
+    expect(result.bytes).toEqual(webp(webpVp8x(0), WEBP_VP8L));
+  });
+
+  it('rewrites the RIFF size to the sanitized length', async () => {
+    const result = accepted(await sanitizeDocument(webp(webpVp8x(WEBP_EXIF_FLAG), WEBP_VP8L, WEBP_EXIF), 'image/webp'));
+    const riffSize = new DataView(result.bytes.buffer).getUint32(4, true);
+
+    expect(riffSize).toBe(result.bytes.length - 8);
+  });
+
+  it('leaves a WebP without metadata unchanged', async () => {
+    const original = webp(WEBP_VP8L);
+    const result = accepted(await sanitizeDocument(original, 'image/webp'));
+
+    expect(result.status).toBe('clean');
+    expect(result.bytes).toEqual(original);
+  });
+
+  it('rejects a chunk that runs past the end of the file', async () => {
+    const truncated = webp(WEBP_VP8L).subarray(0, 24);
+
+    expect(rejection(await sanitizeDocument(truncated, 'image/webp'))).toBe('Image structure is malformed');
+  });
+});
+
+describe('PDF inspection', () => {
+  it('accepts a PDF without active content, unchanged', async () => {
+    const original = pdf('1 0 obj\n<< /Type /Catalog /Pages 2 0 R >>\nendobj');
+    const result = accepted(await sanitizeDocument(original, 'application/pdf'));
+
+    expect(result.status).toBe('clean');
+    expect(result.bytes).toBe(original);
+  });
+
+  it('rejects JavaScript, launch actions and embedded files', async () => {
+    for (const name of ['/JavaScript', '/JS', '/Launch', '/EmbeddedFile', '/RichMedia']) {
+      const document = pdf(`1 0 obj\n<< /Type /Action /S ${name} >>\nendobj`);
+      expect(rejection(await sanitizeDocument(document, 'application/pdf'))).toBe(`PDF contains ${name}`);
+    }
+  });
+
+  it('decodes #xx escapes before comparing names', async () => {
+    const document = pdf('1 0 obj\n<< /S /J#61va#53cript /JS (app.alert(1)) >>\nendobj');
+
+    expect(rejection(await sanitizeDocument(document, 'application/pdf'))).toBe('PDF contains /JavaScript');
+  });
+
+  it('does not mistake longer names for forbidden ones', async () => {
+    const document = pdf('1 0 obj\n<< /JSON 1 /JavaScriptless 2 >>\nendobj');
+
+    expect((await sanitizeDocument(document, 'application/pdf')).accepted).toBe(true);
+  });
+
+  it('rejects encrypted PDFs', async () => {
+    const document = pdf('1 0 obj\n<< /Filter /Standard /V 2 >>\nendobj', 'trailer\n<< /Encrypt 1 0 R >>');
+
+    expect(rejection(await sanitizeDocument(document, 'application/pdf'))).toBe('Encrypted PDFs cannot be inspected');
+  });
+
+  describe('object streams', () => {
+    it('accepts a compressed object stream without active content', async () => {
+      const document = pdfObjectStream('/Type /ObjStm /N 1 /First 4 /Filter /FlateDecode', '3 0 << /Type /Page >>');
+
+      expect((await sanitizeDocument(document, 'application/pdf')).accepted).toBe(true);
+    });
+
+    it('finds JavaScript hidden in a compressed object stream', async () => {
+      const document = pdfObjectStream('/Type /ObjStm /N 1 /First 4 /Filter /FlateDecode', '3 0 << /S /JavaScript /JS (x) >>');
+
+      expect(rejection(await sanitizeDocument(document, 'application/pdf'))).toBe('PDF contains /JavaScript');
+    });
+
+    it('finds object streams whose type is written with #xx escapes', async () => {
+      for (const dictionary of ['/Type /Obj#53tm', '/T#79pe /ObjStm', '/Type /#4fbj#53#74m']) {
+        const document = pdfObjectStream(`${dictionary} /N 1 /First 4 /Filter /FlateDecode`, '3 0 << /S /JavaScript >>');
+        expect(rejection(await sanitizeDocument(document, 'application/pdf'))).toBe('PDF contains /JavaScript');
+      }
+    });
+
+    it('recognises an escaped FlateDecode filter', async () => {
+      const document = pdfObjectStream('/Type /ObjStm /N 1 /First 4 /Filter /Flate#44ecode', '3 0 << /Type /Page >>');
+
+      expect((await sanitizeDocument(document, 'application/pdf')).accepted).toBe(true);
+    });
+
+    it('refuses object streams it cannot decompress', async () => {
+      const otherFilter = pdfObjectStream('/Type /ObjStm /N 1 /Filter /LZWDecode', '3 0 << >>', { compress: false });
+      const corrupt = pdfObjectStream('/Type /ObjStm /N 1 /Filter /FlateDecode', bytesOf([0x78, 0x9c, 0xff, 0xff, 0xff]), { compress: false });
+
+      expect(rejection(await sanitizeDocument(otherFilter, 'application/pdf'))).toBe('PDF object stream uses an unsupported filter');
+      expect(rejection(await sanitizeDocument(corrupt, 'application/pdf'))).toBe('PDF object stream could not be decompressed');
+    });
+
+    it('stops inflating a compression bomb at the size limit', async () => {
+      const bomb = pdfObjectStream('/Type /ObjStm /N 1 /First 4 /Filter /FlateDecode', new Uint8Array(20 * 1024 * 1024));
+
+      expect(bomb.length).toBeLessThan(64 * 1024);
+      expect(rejection(await sanitizeDocument(bomb, 'application/pdf'))).toBe('PDF object streams decompress to more than the allowed size');
+    });
+  });
+});
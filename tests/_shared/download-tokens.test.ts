@@ -0,0 +1,82 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { signDownloadToken, verifyDownloadToken } from '../../functions/_shared/download-tokens';
+import { fromBase64Url, toBase64Url } from '../../functions/_shared/encoding';
+
+const SECRET = 'download-secret';
+const DOCUMENT_ID = 'doc_abc';
+const OPERATOR_ID = 'op_1';
+
+function inFiveMinutes(): number {
+  return Date.now() + 5 * 60 * 1000;
+}
+
+function rewriteClaims(token: string, change: (claims: Record<string, unknown>) => void): string {
+  const [encodedClaims, signature] = token.split('.');
+  const claims = JSON.parse(new TextDecoder().decode(fromBase64Url(encodedClaims)));
+  change(claims);
+  return `${toBase64Url(new TextEncoder().encode(JSON.stringify(claims)))}.${signature}`;
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('download tokens', () => {
+  it('accepts a token for its document and operator', async () => {
+    const token = await signDownloadToken(SECRET, DOCUMENT_ID, OPERATOR_ID, inFiveMinutes());
+
+    expect(await verifyDownloadToken(SECRET, token, DOCUMENT_ID, OPERATOR_ID)).toEqual({ valid: true });
+  });
+
+  it('rejects a token once it has expired', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    const token = await signDownloadToken(SECRET, DOCUMENT_ID, OPERATOR_ID, Date.now() + 60 * 1000);
+
+    vi.setSystemTime(new Date('2026-01-01T00:00:59Z'));
+    expect(await verifyDownloadToken(SECRET, token, DOCUMENT_ID, OPERATOR_ID)).toEqual({ valid: true });
+
+    vi.setSystemTime(new Date('2026-01-01T00:01:00Z'));
+    expect(await verifyDownloadToken(SECRET, token, DOCUMENT_ID, OPERATOR_ID)).toEqual({ valid: false, reason: 'Download token expired' });
+  });
+
+  it('rejects a token for another document or operator', async () => {
+    const token = await signDownloadToken(SECRET, DOCUMENT_ID, OPERATOR_ID, inFiveMinutes());
+
+    expect(await verifyDownloadToken(SECRET, token, 'doc_other', OPERATOR_ID)).toMatchObject({ valid: false, reason: 'Download token was issued for another document' });
+    expect(await verifyDownloadToken(SECRET, token, DOCUMENT_ID, 'op_2')).toMatchObject({ valid: false, reason: 'Download token was issued to another operator' });
+    expect(await verifyDownloadToken(SECRET, token, DOCUMENT_ID, null)).toMatchObject({ valid: false });
+  });
+
+  it('rejects a token signed with another secret', async () => {
+    const token = await signDownloadToken('other-secret', DOCUMENT_ID, OPERATOR_ID, inFiveMinutes());
+
+    expect(await verifyDownloadToken(SECRET, token, DOCUMENT_ID, OPERATOR_ID)).toEqual({ valid: false, reason: 'Invalid download token signature' });
+  });
+
+  it('rejects claims edited after signing', async () => {
+    const token = await signDownloadToken(SECRET, DOCUMENT_ID, OPERATOR_ID, inFiveMinutes());
+
+    const extended = rewriteClaims(token, claims => { claims.exp = Number(claims.exp) + 86400; });
+    const retargeted = rewriteClaims(token, claims => { claims.doc = 'doc_other'; });
+
+    expect(await verifyDownloadToken(SECRET, extended, DOCUMENT_ID, OPERATOR_ID)).toMatchObject({ reason: 'Invalid download token signature' });
+    expect(await verifyDownloadToken(SECRET, retargeted, 'doc_other', OPERATOR_ID)).toMatchObject({ reason: 'Invalid download token signature' });
+  });
+
+  it('rejects a modified signature', async () => {
+    const token = await signDownloadToken(SECRET, DOCUMENT_ID, OPERATOR_ID, inFiveMinutes());
+    const [claims, signature] = token.split('.');
+    const bytes = fromBase64Url(signature);
+    bytes[0] ^= 0x01;
+
+    expect(await verifyDownloadToken(SECRET, `${claims}.${toBase64Url(bytes)}`, DOCUMENT_ID, OPERATOR_ID)).toMatchObject({ valid: false });
+    expect(await verifyDownloadToken(SECRET, `${claims}.`, DOCUMENT_ID, OPERATOR_ID)).toMatchObject({ reason: 'Malformed download token' });
+  });
+
+  it('rejects malformed tokens', async () => {
+    for (const token of ['', 'abc', 'a.b.c', '!!!.???', `${toBase64Url(new TextEncoder().encode('not json'))}.AAAA`]) {
+      expect(await verifyDownloadToken(SECRET, token, DOCUMENT_ID, OPERATOR_ID)).toMatchObject({ valid: false });
+    }
+  });
+});
@@ -0,0 +1,243 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import {
+  appendToChain,
+  auditEventStream,
+  computeRecordHash,
+  GENESIS_HASH,
+  INCIDENT_STREAM,
+  verifyChain,
+  writeCheckpoint
+} from '../../functions/_shared/hash-chain';
+import { recordSecurityIncident } from '../../functions/_shared/incidents';
+import { createTestEnvironment, TestBindings, TestEnvironment } from '../helpers/bindings';
+
+const OID_ROOT = '1.3.6.1.4.1.61026';
+
+let testEnv: TestEnvironment;
+let env: TestBindings;
+
+async function recordIncidents(count: number): Promise<string[]> {
+  const oids: string[] = [];
+  for (let i = 0; i < count; i++) {
+    oids.push(await recordSecurityIncident(env.DB, OID_ROOT, {
+      type: 'suspicious_activity',
+      riskScore: 10 * i,
+      data: { attempt: i },
+      sourceIp: '203.0.113.7',
+      tenantId: 'tenant_a'
+    }));
+  }
+  return oids;
+}
+
+async function appendAuditEvent(sessionOid: string, index: number) {
+  const row = {
+    id: `${OID_ROOT}.4.2.${sessionOid.split('.').pop()}.${index}`,
+    session_oid: sessionOid,
+    stripe_session_id: null,
+    operator_id: 'op_1',
+    event_type: 'step_transition',
+    payload: JSON.stringify({ from_step: index, to_step: index + 1 }),
+    device_fingerprint: null,
+    readiness_snapshot: null,
+    risk_signal: 0,
+    created_at: new Date(Date.UTC(2026, 0, 1, 0, 0, index)).toISOString()
+  };
+  await appendToChain(env.DB, auditEventStream(sessionOid), row, link => env.DB.prepare(`
+    INSERT INTO audit_events
+    (id, session_oid, stripe_session_id, operator_id, event_type, payload, device_fingerprint, readiness_snapshot, risk_signal, created_at, chain_seq, prev_hash, record_hash)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).bind(
+    row.id, row.session_oid, row.stripe_session_id, row.operator_id, row.event_type, row.payload,
+    row.device_fingerprint, row.readiness_snapshot, row.risk_signal, row.created_at,
+    link.chain_seq, link.prev_hash, link.record_hash
+  ).run());
+}
+
+function verifyIncidents(options: { fromSeq?: number; maxRecords?: number } = {}) {
+  return verifyChain(env.DB, env.NEURAL_DATA, INCIDENT_STREAM, { maxRecords: 1000, ...options });
+}
+
+beforeAll(async () => {
+  testEnv = await createTestEnvironment();
+  env = testEnv.env;
+});
+
+afterAll(async () => {
+  await testEnv.dispose();
+});
+
+beforeEach(async () => {
+  await env.DB.prepare('DELETE FROM security_incidents').run();
+  await env.DB.prepare('DELETE FROM audit_events').run();
+  const checkpoints = await env.NEURAL_DATA.list({ prefix: 'audit/checkpoints/' });
+  if (checkpoints.objects.length > 0) {
+    await env.NEURAL_DATA.delete(checkpoints.objects.map(object => object.key));
+  }
+});
+
+describe('incident chain', () => {
+  it('links each incident to the one before it', async () => {
+    await recordIncidents(3);
+    const rows = await env.DB.prepare(`
+      SELECT chain_seq, prev_hash, record_hash FROM security_incidents ORDER BY chain_seq
+    `).all<{ chain_seq: number; prev_hash: string; record_hash: string }>();
+
+    expect(rows.results.map(row => row.chain_seq)).toEqual([1, 2, 3]);
+    expect(rows.results[0].prev_hash).toBe(GENESIS_HASH);
+    expect(rows.results[1].prev_hash).toBe(rows.results[0].record_hash);
+    expect(rows.results[2].prev_hash).toBe(rows.results[1].record_hash);
+  });
+
+  it('verifies an untouched chain', async () => {
+    await recordIncidents(4);
+    const result = await verifyIncidents();
+
+    expect(result).toMatchObject({ verified: true, records_checked: 4, last_chain_seq: 4, first_break: null });
+  });
+
+  it('keeps every concurrent append on the chain', async () => {
+    await Promise.all([0, 1, 2, 3, 4].map(i => recordSecurityIncident(env.DB, OID_ROOT, {
+      type: 'rate_limited',
+      data: { writer: i }
+    })));
+    const unchained = await env.DB.prepare(`
+      SELECT COUNT(*) as count FROM security_incidents WHERE chain_seq IS NULL
+    `).first<{ count: number }>();
+
+    expect(unchained?.count).toBe(0);
+    expect(await verifyIncidents()).toMatchObject({ verified: true, records_checked: 5 });
+  });
+
+  it('detects an edited incident', async () => {
+    const oids = await recordIncidents(3);
+    await env.DB.prepare(`
+      UPDATE security_incidents SET risk_score = 0 WHERE incident_oid = ?
+    `).bind(oids[1]).run();
+    const result = await verifyIncidents();
+
+    expect(result.verified).toBe(false);
+    expect(result.first_break).toMatchObject({ chain_seq: 2, record_id: oids[1], reason: 'record_hash_mismatch' });
+  });
+
+  it('detects an incident moved to another tenant', async () => {
+    const oids = await recordIncidents(2);
+    await env.DB.prepare(`
+      UPDATE security_incidents SET tenant_id = 'tenant_b' WHERE incident_oid = ?
+    `).bind(oids[0]).run();
+
+    expect((await verifyIncidents()).first_break).toMatchObject({ chain_seq: 1, reason: 'record_hash_mismatch' });
+  });
+
+  it('detects an edit whose record hash was recomputed', async () => {
+    const oids = await recordIncidents(3);
+    const row = await env.DB.prepare('SELECT * FROM security_incidents WHERE incident_oid = ?').bind(oids[1]).first();
+    const forged = { ...row, incident_data: JSON.stringify({ attempt: 'forged' }) };
+    await env.DB.prepare(`
+      UPDATE security_incidents SET incident_data = ?, record_hash = ? WHERE incident_oid = ?
+    `).bind(forged.incident_data, await computeRecordHash('security_incidents', forged.prev_hash, forged), oids[1]).run();
+
+    expect((await verifyIncidents()).first_break).toMatchObject({ chain_seq: 3, reason: 'prev_hash_mismatch' });
+  });
+
+  it('detects a deleted incident', async () => {
+    const oids = await recordIncidents(4);
+    await env.DB.prepare('DELETE FROM security_incidents WHERE incident_oid = ?').bind(oids[1]).run();
+
+    expect((await verifyIncidents()).first_break).toMatchObject({ chain_seq: 2, reason: 'sequence_gap', actual: 3 });
+  });
+
+  it('ignores triage updates, which are not chained', async () => {
+    const oids = await recordIncidents(2);
+    await env.DB.prepare(`
+      UPDATE security_incidents SET resolved = 1, analyst_notes = 'false positive' WHERE incident_oid = ?
+    `).bind(oids[0]).run();
+
+    expect((await verifyIncidents()).verified).toBe(true);
+  });
+
+  it('verifies legacy rows hashed before chain version 2', async () => {
+    const row = {
+      incident_oid: `${OID_ROOT}.4.2.1.1`,
+      user_id: null,
+      incident_type: 'suspicious_activity',
+      risk_score: 50,
+      incident_data: '{}',
+      source_ip: null,
+      user_agent: null
+    };
+    const recordHash = await computeRecordHash('security_incidents', GENESIS_HASH, row);
+    await env.DB.prepare(`
+      INSERT INTO security_incidents (incident_oid, incident_type, risk_score, incident_data, tenant_id, chain_seq, prev_hash, record_hash)
+      VALUES (?, ?, ?, ?, 'tenant_a', 1, ?, ?)
+    `).bind(row.incident_oid, row.incident_type, row.risk_score, row.incident_data, GENESIS_HASH, recordHash).run();
+    await recordIncidents(1);
+
+    expect(await verifyIncidents()).toMatchObject({ verified: true, records_checked: 2 });
+  });
+
+  it('resumes verification from a later sequence', async () => {
+    await recordIncidents(5);
+    const firstPage = await verifyIncidents({ maxRecords: 2 });
+    expect(firstPage).toMatchObject({ verified: true, records_checked: 2, next_from_seq: 3 });
+
+    const rest = await verifyIncidents({ fromSeq: firstPage.next_from_seq! });
+    expect(rest).toMatchObject({ verified: true, records_checked: 3, last_chain_seq: 5, next_from_seq: null });
+  });
+});
+
+describe('chain checkpoints', () => {
+  it('writes a checkpoint once per tail', async () => {
+    await recordIncidents(2);
+
+    expect(await writeCheckpoint(env.DB, env.NEURAL_DATA, INCIDENT_STREAM)).toMatchObject({ chain_seq: 2 });
+    expect(await writeCheckpoint(env.DB, env.NEURAL_DATA, INCIDENT_STREAM)).toBeNull();
+    expect(await verifyIncidents()).toMatchObject({ verified: true, checkpoints_checked: 1 });
+  });
+
+  it('detects a truncated tail', async () => {
+    const oids = await recordIncidents(3);
+    await writeCheckpoint(env.DB, env.NEURAL_DATA, INCIDENT_STREAM);
+    await env.DB.prepare('DELETE FROM security_incidents WHERE incident_oid = ?').bind(oids[2]).run();
+
+    expect((await verifyIncidents()).first_break).toMatchObject({ chain_seq: 3, reason: 'checkpoint_record_missing' });
+  });
+
+  it('detects a tail rewritten after its checkpoint', async () => {
+    const oids = await recordIncidents(2);
+    await writeCheckpoint(env.DB, env.NEURAL_DATA, INCIDENT_STREAM);
+    const row = await env.DB.prepare('SELECT * FROM security_incidents WHERE incident_oid = ?').bind(oids[1]).first();
+    const forged = { ...row, risk_score: 0 };
+    await env.DB.prepare(`
+      UPDATE security_incidents SET risk_score = 0, record_hash = ? WHERE incident_oid = ?
+    `).bind(await computeRecordHash('security_incidents', forged.prev_hash, forged), oids[1]).run();
+
+    expect((await verifyIncidents()).first_break).toMatchObject({ chain_seq: 2, reason: 'checkpoint_mismatch' });
+  });
+});
+
+describe('audit event chains', () => {
+  it('chains each session separately', async () => {
+    await appendAuditEvent(`${OID_ROOT}.1.1.100`, 1);
+    await appendAuditEvent(`${OID_ROOT}.1.1.200`, 1);
+    await appendAuditEvent(`${OID_ROOT}.1.1.100`, 2);
+
+    const first = await verifyChain(env.DB, env.NEURAL_DATA, auditEventStream(`${OID_ROOT}.1.1.100`), { maxRecords: 100 });
+    const second = await verifyChain(env.DB, env.NEURAL_DATA, auditEventStream(`${OID_ROOT}.1.1.200`), { maxRecords: 100 });
+
+    expect(first).toMatchObject({ verified: true, records_checked: 2 });
+    expect(second).toMatchObject({ verified: true, records_checked: 1 });
+  });
+
+  it('detects an edited audit payload', async () => {
+    const sessionOid = `${OID_ROOT}.1.1.300`;
+    await appendAuditEvent(sessionOid, 1);
+    await appendAuditEvent(sessionOid, 2);
+    await env.DB.prepare(`
+      UPDATE audit_events SET payload = '{}' WHERE session_oid = ? AND chain_seq = 1
+    `).bind(sessionOid).run();
+    const result = await verifyChain(env.DB, env.NEURAL_DATA, auditEventStream(sessionOid), { maxRecords: 100 });
+
+    expect(result.first_break).toMatchObject({ chain_seq: 1, reason: 'record_hash_mismatch' });
+  });
+});
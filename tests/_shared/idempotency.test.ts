@@ -0,0 +1,68 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { claimIdempotencyKey, ClaimedIdempotencyKey, IDEMPOTENT_REPLAY_HEADER, settleIdempotencyKey } from '../../functions/_shared/idempotency';
+import { createTestEnvironment, TestEnvironment } from '../helpers/bindings';
+
+const REQUEST_BODY = JSON.stringify({ type: 'document', return_url: 'https://iod.brainsait.test/result' });
+
+let testEnv: TestEnvironment;
+
+async function claim(key: string, body = REQUEST_BODY): Promise<ClaimedIdempotencyKey> {
+  const result = await claimIdempotencyKey(testEnv.env.CACHE, 'tenant_a', key, body);
+  if (result.outcome !== 'claimed') {
+    throw new Error(`Expected a claim, got ${result.outcome}`);
+  }
+  return result;
+}
+
+beforeAll(async () => {
+  testEnv = await createTestEnvironment();
+});
+
+afterAll(async () => {
+  await testEnv.dispose();
+});
+
+describe('idempotency keys', () => {
+  it('replays the stored response without its secret fields', async () => {
+    const claimed = await claim('key-secret');
+    const response = new Response(JSON.stringify({ brainsait_oid: '1.3.6.1.4.1.61026.1.1.7', audit_token: 'plaintext-token' }));
+    await settleIdempotencyKey(testEnv.env.CACHE, claimed, response, ['audit_token']);
+
+    const stored = await testEnv.env.CACHE.get(claimed.storageKey);
+    expect(stored).not.toContain('plaintext-token');
+
+    const replay = await claimIdempotencyKey(testEnv.env.CACHE, 'tenant_a', 'key-secret', REQUEST_BODY);
+    expect(replay.outcome).toBe('replay');
+    if (replay.outcome === 'replay') {
+      expect(replay.response.headers.get(IDEMPOTENT_REPLAY_HEADER)).toBe('true');
+      expect(await replay.response.json()).toEqual({ brainsait_oid: '1.3.6.1.4.1.61026.1.1.7' });
+    }
+  });
+
+  it('refuses a key reused with a different body or still in flight', async () => {
+    await claim('key-busy');
+
+    expect((await claimIdempotencyKey(testEnv.env.CACHE, 'tenant_a', 'key-busy', REQUEST_BODY)).outcome).toBe('conflict');
+    expect((await claimIdempotencyKey(testEnv.env.CACHE, 'tenant_a', 'key-busy', '{}')).outcome).toBe('conflict');
+  });
+
+  it('releases the key after a failed attempt and keeps its timestamp', async () => {
+    const first = await claim('key-failed');
+    await settleIdempotencyKey(testEnv.env.CACHE, first, new Response('{}', { status: 502 }));
+
+    const retry = await claim('key-failed');
+    expect(retry.timestamp).toBe(first.timestamp);
+    expect(retry.stripeKey).toBe(first.stripeKey);
+  });
+
+  it('keeps tenants apart', async () => {
+    const claimed = await claim('key-shared');
+    await settleIdempotencyKey(testEnv.env.CACHE, claimed, new Response('{}'));
+
+    const other = await claimIdempotencyKey(testEnv.env.CACHE, 'tenant_b', 'key-shared', REQUEST_BODY);
+    expect(other.outcome).toBe('claimed');
+    if (other.outcome === 'claimed') {
+      expect(other.stripeKey).not.toBe(claimed.stripeKey);
+    }
+  });
+});
@@ -0,0 +1,197 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  createHttpScanner,
+  createSignatureScanner,
+  DocumentScanner,
+  quarantineKey,
+  scanDocument
+} from '../../functions/_shared/malware-scan';
+import { encryptDocument, envelopeMetadata, loadDocumentKeyring } from '../../functions/_shared/document-crypto';
+import { encodeBase64 } from '../../functions/_shared/encoding';
+import { bytesOf, jpeg, JPEG_JFIF } from '../helpers/fixtures';
+import { createTestEnvironment, TestEnvironment } from '../helpers/bindings';
+
+// Assembled at runtime so this file does not trip scanners either
+const EICAR = 'X5O!P%@AP[4\\PZX54(P^)7CC)7}$' + 'EICAR-STANDARD-ANTIVIRUS-TEST-FILE!$H+H*';
+const CONTEXT = { documentId: 'doc_scan', fileType: 'image/jpeg' };
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe('signature scanner', () => {
+  const scanner = createSignatureScanner();
+
+  it('passes an ordinary document', async () => {
+    expect(await scanner.scan(jpeg(JPEG_JFIF), CONTEXT)).toEqual({ scanner: 'signatures', clean: true });
+  });
+
+  it('detects the EICAR test file anywhere in the content', async () => {
+    const verdict = await scanner.scan(bytesOf(jpeg(JPEG_JFIF), EICAR), CONTEXT);
+
+    expect(verdict).toEqual({ scanner: 'signatures', clean: false, signature: 'EICAR-Test-File' });
+  });
+
+  it('requires every string of an all-condition rule', async () => {
+    const stubOnly = bytesOf('MZ', 'This program cannot be run in DOS mode');
+    const executable = bytesOf('MZ', 'This program cannot be run in DOS mode', [0, 0], 'PE\0\0');
+
+    expect((await scanner.scan(stubOnly, CONTEXT)).clean).toBe(true);
+    expect(await scanner.scan(executable, CONTEXT)).toMatchObject({ clean: false, signature: 'Embedded-PE-Executable' });
+  });
+
+  it('anchors offset rules', async () => {
+    expect(await scanner.scan(bytesOf('\x7fELF', [2, 1, 1]), CONTEXT)).toMatchObject({ signature: 'ELF-Executable' });
+    expect((await scanner.scan(bytesOf('header \x7fELF'), CONTEXT)).clean).toBe(true);
+  });
+
+  it('matches case-insensitive rules in any case', async () => {
+    const verdict = await scanner.scan(bytesOf('%PDF-1.7\n<ScRiPt>alert(1)</ScRiPt>'), CONTEXT);
+
+    expect(verdict).toMatchObject({ clean: false, signature: 'Embedded-Script-Markup' });
+  });
+
+  it('runs custom rules in place of the built-in ones', async () => {
+    const custom = createSignatureScanner([{ name: 'Test-Marker', strings: ['MARKER'] }]);
+
+    expect((await custom.scan(bytesOf(EICAR), CONTEXT)).clean).toBe(true);
+    expect(await custom.scan(bytesOf('xx MARKER xx'), CONTEXT)).toMatchObject({ signature: 'Test-Marker' });
+  });
+});
+
+describe('HTTP scanner', () => {
+  it('posts the document and returns the service verdict', async () => {
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({ clean: false, signature: 'Win.Test' })));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const verdict = await createHttpScanner('https://scanner.test/scan', 'secret').scan(bytesOf('data'), CONTEXT);
+
+    expect(verdict).toEqual({ scanner: 'http', clean: false, signature: 'Win.Test' });
+    expect(fetchMock).toHaveBeenCalledWith('https://scanner.test/scan', expect.objectContaining({
+      method: 'POST',
+      headers: expect.objectContaining({ 'Authorization': 'Bearer secret', 'X-Document-ID': 'doc_scan' })
+    }));
+  });
+
+  it('fails rather than passing a document it got no verdict for', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('busy', { status: 503 })));
+    await expect(createHttpScanner('https://scanner.test/scan').scan(bytesOf('data'), CONTEXT)).rejects.toThrow('Scanner responded with 503');
+
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({ status: 'ok' }))));
+    await expect(createHttpScanner('https://scanner.test/scan').scan(bytesOf('data'), CONTEXT)).rejects.toThrow('no clean verdict');
+  });
+});
+
+describe('document scanning', () => {
+  const MASTER_KEYS = JSON.stringify({ k1: encodeBase64(crypto.getRandomValues(new Uint8Array(32))) });
+  let testEnv: TestEnvironment;
+  let env: TestEnvironment['env'] & { DOCUMENT_MASTER_KEY_ID: string; DOCUMENT_MASTER_KEYS: string };
+
+  async function storePending(documentId: string, content: Uint8Array<ArrayBuffer>) {
+    const keyring = (await loadDocumentKeyring(env))!;
+    const { ciphertext, envelope } = await encryptDocument(keyring, content.buffer, documentId);
+    const storagePath = `tenants/tenant_a/quarantine/documents/${documentId}`;
+    await env.DOCUMENTS.put(storagePath, ciphertext, { customMetadata: envelopeMetadata(envelope) });
+    await env.DB.prepare(`
+      INSERT INTO document_storage (document_id, session_oid, document_type, file_name, file_size, file_type, storage_path,
+        upload_status, tenant_id, scan_status, encryption_key_id, wrapped_key, encryption_iv)
+      VALUES (?, '1.3.6.1.4.1.61026.1.1.9', 'identity_document', 'id.jpg', ?, 'image/jpeg', ?, 'processing', 'tenant_a', 'pending', ?, ?, ?)
+    `).bind(documentId, content.length, storagePath, envelope.keyId, envelope.wrappedKey, envelope.iv).run();
+    return storagePath;
+  }
+
+  function documentRow(documentId: string) {
+    return env.DB.prepare(`
+      SELECT storage_path, upload_status, scan_status, scan_result FROM document_storage WHERE document_id = ?
+    `).bind(documentId).first<{ storage_path: string; upload_status: string; scan_status: string; scan_result: string | null }>();
+  }
+
+  beforeAll(async () => {
+    testEnv = await createTestEnvironment();
+    env = { ...testEnv.env, DOCUMENT_MASTER_KEY_ID: 'k1', DOCUMENT_MASTER_KEYS: MASTER_KEYS };
+  });
+
+  afterAll(async () => {
+    await testEnv.dispose();
+  });
+
+  beforeEach(async () => {
+    await env.DB.prepare('DELETE FROM document_storage').run();
+    await env.DB.prepare('DELETE FROM security_incidents').run();
+  });
+
+  it('releases a clean document from quarantine', async () => {
+    const pendingPath = await storePending('doc_clean', jpeg(JPEG_JFIF));
+
+    expect(await scanDocument(env, 'doc_clean')).toBe('clean');
+    const row = await documentRow('doc_clean');
+    expect(row).toMatchObject({
+      storage_path: 'tenants/tenant_a/documents/doc_clean',
+      upload_status: 'verified',
+      scan_status: 'clean'
+    });
+    expect(await env.DOCUMENTS.head(pendingPath)).toBeNull();
+    expect(await env.DOCUMENTS.head(row!.storage_path)).not.toBeNull();
+  });
+
+  it('scans the decrypted content and quarantines an infected document', async () => {
+    const pendingPath = await storePending('doc_infected', bytesOf(jpeg(JPEG_JFIF), EICAR));
+
+    expect(await scanDocument(env, 'doc_infected')).toBe('infected');
+    expect(await documentRow('doc_infected')).toMatchObject({
+      storage_path: pendingPath,
+      upload_status: 'quarantined',
+      scan_status: 'infected'
+    });
+
+    const incident = await env.DB.prepare(`
+      SELECT incident_type, tenant_id, incident_data FROM security_incidents
+    `).first<{ incident_type: string; tenant_id: string; incident_data: string }>();
+    expect(incident).toMatchObject({ incident_type: 'malware_detected', tenant_id: 'tenant_a' });
+    expect(JSON.parse(incident!.incident_data).detections).toEqual([
+      { scanner: 'signatures', clean: false, signature: 'EICAR-Test-File' }
+    ]);
+  });
+
+  it('quarantines on a detection from any scanner', async () => {
+    await storePending('doc_second_opinion', jpeg(JPEG_JFIF));
+    const remote: DocumentScanner = { name: 'remote', scan: async () => ({ scanner: 'remote', clean: false, signature: 'Remote.Hit' }) };
+
+    expect(await scanDocument(env, 'doc_second_opinion', [createSignatureScanner(), remote])).toBe('infected');
+  });
+
+  it('leaves the document pending when a scanner fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const pendingPath = await storePending('doc_error', jpeg(JPEG_JFIF));
+    const failing: DocumentScanner = { name: 'remote', scan: async () => { throw new Error('Scanner responded with 503'); } };
+
+    expect(await scanDocument(env, 'doc_error', [createSignatureScanner(), failing])).toBe('error');
+    const row = await documentRow('doc_error');
+    expect(row).toMatchObject({ storage_path: pendingPath, upload_status: 'processing', scan_status: 'pending' });
+    expect(JSON.parse(row!.scan_result!)).toMatchObject({ error: 'Scanner responded with 503' });
+  });
+
+  it('leaves the document pending when it cannot be decrypted', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    await storePending('doc_locked', jpeg(JPEG_JFIF));
+    const rotatedAway = { ...env, DOCUMENT_MASTER_KEY_ID: 'k2', DOCUMENT_MASTER_KEYS: JSON.stringify({ k2: encodeBase64(new Uint8Array(32)) }) };
+
+    expect(await scanDocument(rotatedAway, 'doc_locked')).toBe('error');
+    expect((await documentRow('doc_locked'))?.scan_status).toBe('pending');
+  });
+
+  it('skips documents that are no longer pending', async () => {
+    await storePending('doc_done', jpeg(JPEG_JFIF));
+    await scanDocument(env, 'doc_done');
+
+    expect(await scanDocument(env, 'doc_done')).toBe('skipped');
+    expect(await scanDocument(env, 'doc_unknown')).toBe('skipped');
+  });
+
+  it('keeps the tenant prefix on quarantine keys', () => {
+    expect(quarantineKey('tenants/tenant_a/documents/doc_1')).toBe('tenants/tenant_a/quarantine/documents/doc_1');
+    expect(quarantineKey('documents/doc_1')).toBe('quarantine/documents/doc_1');
+    expect(quarantineKey('tenants/tenant_a/quarantine/documents/doc_1')).toBe('tenants/tenant_a/quarantine/documents/doc_1');
+  });
+});
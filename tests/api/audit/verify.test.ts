@@ -0,0 +1,51 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { onRequestGet } from '../../../functions/api/audit/verify';
+import { recordSecurityIncident } from '../../../functions/_shared/incidents';
+import { TenantScope } from '../../../functions/_shared/tenancy';
+import { createTestEnvironment, pagesContext, TestEnvironment } from '../../helpers/bindings';
+
+const SESSION_OID = '1.3.6.1.4.1.61026.1.1.500';
+
+let testEnv: TestEnvironment;
+
+async function verify(query: string, tenant: TenantScope) {
+  const request = new Request(`https://iod.brainsait.test/api/audit/verify?${query}`);
+  const response = await onRequestGet(pagesContext(request, testEnv.env, { data: { tenant } }));
+  return { status: response.status, body: await response.json() as Record<string, any> };
+}
+
+beforeAll(async () => {
+  testEnv = await createTestEnvironment();
+  await testEnv.env.DB.prepare(`
+    INSERT INTO verification_sessions (session_oid, stripe_session_id, tenant_id) VALUES (?, 'vs_tenant_a', 'tenant_a')
+  `).bind(SESSION_OID).run();
+  await recordSecurityIncident(testEnv.env.DB, '1.3.6.1.4.1.61026', { type: 'suspicious_activity', data: {}, tenantId: 'tenant_b' });
+});
+
+afterAll(async () => {
+  await testEnv.dispose();
+});
+
+describe('audit chain verification access', () => {
+  it('restricts the incident chain to platform operators', async () => {
+    const denied = await verify('stream=security_incidents', { tenantId: 'tenant_a', allTenants: false });
+    expect(denied.status).toBe(403);
+
+    const allowed = await verify('stream=security_incidents', { tenantId: null, allTenants: true });
+    expect(allowed.status).toBe(200);
+    expect(allowed.body).toMatchObject({ stream: 'security_incidents', verified: true, records_checked: 1 });
+  });
+
+  it('reports another tenant\'s session as not found', async () => {
+    const { status } = await verify(`session_oid=${SESSION_OID}`, { tenantId: 'tenant_b', allTenants: false });
+
+    expect(status).toBe(404);
+  });
+
+  it('verifies a session in the caller\'s tenant', async () => {
+    const { status, body } = await verify(`session_oid=${SESSION_OID}`, { tenantId: 'tenant_a', allTenants: false });
+
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ stream: `audit_events/${SESSION_OID}`, verified: true, records_checked: 0 });
+  });
+});
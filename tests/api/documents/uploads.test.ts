@@ -0,0 +1,191 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { onRequestPost as createUpload } from '../../../functions/api/documents/uploads';
+import { onRequestDelete as abortUpload, onRequestGet as getUpload } from '../../../functions/api/documents/uploads/[uploadId]';
+import { onRequestPut as putPart } from '../../../functions/api/documents/uploads/[uploadId]/parts/[partNumber]';
+import { onRequestPost as completeUpload } from '../../../functions/api/documents/uploads/[uploadId]/complete';
+import { abortExpiredUploads, UPLOAD_PART_SIZE } from '../../../functions/_shared/document-uploads';
+import { TenantScope } from '../../../functions/_shared/tenancy';
+import { encodeBase64 } from '../../../functions/_shared/encoding';
+import { bytesOf, containsAscii, jpeg, JPEG_EXIF, JPEG_JFIF } from '../../helpers/fixtures';
+import { createTestEnvironment, pagesContext, TestEnvironment } from '../../helpers/bindings';
+
+const SESSION_OID = '1.3.6.1.4.1.61026.1.1.42';
+const TENANT: TenantScope = { tenantId: 'tenant_a', allTenants: false };
+const BASE_URL = 'https://iod.brainsait.test/api/documents/uploads';
+
+let testEnv: TestEnvironment;
+let env: TestEnvironment['env'] & { DOCUMENT_MASTER_KEY_ID: string; DOCUMENT_MASTER_KEYS: string };
+
+async function call(
+  handler: (context: EventContext<any, any, any>) => Promise<Response>,
+  request: Request,
+  options: { params?: Record<string, string>; tenant?: TenantScope; background?: Promise<unknown>[] } = {}
+) {
+  const response = await handler(pagesContext(request, env, {
+    params: options.params,
+    data: { tenant: options.tenant ?? TENANT },
+    background: options.background
+  }));
+  return { status: response.status, body: await response.json() as Record<string, any> };
+}
+
+function startUpload(fileSize: number, fileName = 'passport.jpg') {
+  return call(createUpload, new Request(BASE_URL, {
+    method: 'POST',
+    body: JSON.stringify({
+      session_oid: SESSION_OID,
+      document_type: 'identity_document',
+      file_name: fileName,
+      file_size: fileSize,
+      content_type: 'image/jpeg'
+    })
+  }));
+}
+
+function sendPart(uploadId: string, partNumber: number, bytes: Uint8Array<ArrayBuffer>) {
+  return call(putPart, new Request(`${BASE_URL}/${uploadId}/parts/${partNumber}`, { method: 'PUT', body: bytes }), {
+    params: { uploadId, partNumber: String(partNumber) }
+  });
+}
+
+function uploadStatus(uploadId: string, tenant?: TenantScope) {
+  return call(getUpload, new Request(`${BASE_URL}/${uploadId}`), { params: { uploadId }, tenant });
+}
+
+function complete(uploadId: string, background?: Promise<unknown>[]) {
+  return call(completeUpload, new Request(`${BASE_URL}/${uploadId}/complete`, { method: 'POST' }), { params: { uploadId }, background });
+}
+
+function abort(uploadId: string) {
+  return call(abortUpload, new Request(`${BASE_URL}/${uploadId}`, { method: 'DELETE' }), { params: { uploadId } });
+}
+
+// A JPEG whose scan data pads it to the requested size, with an EXIF block to strip
+function largeJpeg(size: number): Uint8Array<ArrayBuffer> {
+  const head = jpeg(JPEG_JFIF, JPEG_EXIF);
+  const document = new Uint8Array(size);
+  document.set(head.subarray(0, head.length - 2));
+  document.set([0xff, 0xd9], size - 2);
+  return document;
+}
+
+beforeAll(async () => {
+  testEnv = await createTestEnvironment();
+  env = {
+    ...testEnv.env,
+    DOCUMENT_MASTER_KEY_ID: 'k1',
+    DOCUMENT_MASTER_KEYS: JSON.stringify({ k1: encodeBase64(crypto.getRandomValues(new Uint8Array(32))) })
+  };
+  await env.DB.prepare(`
+    INSERT INTO verification_sessions (session_oid, stripe_session_id, session_status, tenant_id, expires_at)
+    VALUES (?, 'vs_upload', 'created', 'tenant_a', datetime('now', '+1 hour'))
+  `).bind(SESSION_OID).run();
+});
+
+afterAll(async () => {
+  await testEnv.dispose();
+});
+
+describe('resumable upload', () => {
+  it('goes from uploading to completed across two parts', async () => {
+    const document = largeJpeg(UPLOAD_PART_SIZE + 1024);
+    const created = await startUpload(document.length);
+    expect(created.status).toBe(201);
+    expect(created.body).toMatchObject({ upload_status: 'uploading', total_parts: 2, part_size: UPLOAD_PART_SIZE });
+    const uploadId: string = created.body.upload_id;
+
+    expect((await uploadStatus(uploadId)).body).toMatchObject({ upload_status: 'uploading', missing_parts: [1, 2], uploaded_bytes: 0 });
+
+    expect((await sendPart(uploadId, 2, document.subarray(UPLOAD_PART_SIZE))).status).toBe(200);
+    const early = await complete(uploadId);
+    expect(early).toMatchObject({ status: 409, body: { error: 'Upload is missing parts', missing_parts: [1] } });
+
+    expect((await sendPart(uploadId, 1, document.subarray(0, UPLOAD_PART_SIZE))).status).toBe(200);
+    // Resending a part replaces it
+    expect((await sendPart(uploadId, 2, document.subarray(UPLOAD_PART_SIZE))).status).toBe(200);
+    expect((await uploadStatus(uploadId)).body).toMatchObject({ missing_parts: [], uploaded_bytes: document.length });
+
+    const background: Promise<unknown>[] = [];
+    const completed = await complete(uploadId, background);
+    await Promise.all(background);
+    expect(completed.status).toBe(201);
+    expect(completed.body).toMatchObject({
+      document_id: created.body.document_id,
+      sanitization: { status: 'sanitized', detected_type: 'image/jpeg', removed: ['jpeg:exif'] }
+    });
+
+    const upload = await env.DB.prepare(`
+      SELECT upload_status, staging_path FROM document_uploads WHERE upload_id = ?
+    `).bind(uploadId).first<{ upload_status: string; staging_path: string }>();
+    expect(upload?.upload_status).toBe('completed');
+    expect(await env.DOCUMENTS.head(upload!.staging_path)).toBeNull();
+
+    const stored = await env.DB.prepare(`
+      SELECT file_size, tenant_id, scan_status, upload_status, storage_path FROM document_storage WHERE document_id = ?
+    `).bind(created.body.document_id).first<{ file_size: number; tenant_id: string; scan_status: string; upload_status: string; storage_path: string }>();
+    expect(stored).toMatchObject({ tenant_id: 'tenant_a', scan_status: 'clean', upload_status: 'verified' });
+    expect(stored!.file_size).toBe(document.length - JPEG_EXIF.length);
+    const object = await env.DOCUMENTS.get(stored!.storage_path);
+    expect(containsAscii(new Uint8Array(await object!.arrayBuffer()), 'GPSLatitude')).toBe(false);
+
+    // A client that lost the response completes again and gets the same document
+    const again = await complete(uploadId);
+    expect(again).toMatchObject({ status: 200, body: { upload_status: 'completed', document_id: created.body.document_id } });
+    expect((await sendPart(uploadId, 1, document.subarray(0, UPLOAD_PART_SIZE))).status).toBe(409);
+    expect((await abort(uploadId)).body).toMatchObject({ error: 'Upload can no longer be aborted', document_id: created.body.document_id });
+  });
+
+  it('refuses parts of the wrong size or position', async () => {
+    const { body } = await startUpload(1000);
+
+    expect((await sendPart(body.upload_id, 1, new Uint8Array(999))).body).toMatchObject({ error: 'Part size mismatch', expected_size: 1000 });
+    expect((await sendPart(body.upload_id, 2, new Uint8Array(1000))).status).toBe(400);
+    expect((await uploadStatus(body.upload_id)).body.missing_parts).toEqual([1]);
+  });
+
+  it('stops accepting parts once aborted', async () => {
+    const document = jpeg(JPEG_JFIF);
+    const { body } = await startUpload(document.length);
+    await sendPart(body.upload_id, 1, document);
+
+    expect((await abort(body.upload_id)).body).toMatchObject({ upload_status: 'aborted' });
+    expect((await abort(body.upload_id)).body).toMatchObject({ upload_status: 'aborted' });
+    expect((await sendPart(body.upload_id, 1, document)).status).toBe(409);
+    expect((await complete(body.upload_id)).status).toBe(409);
+    expect((await uploadStatus(body.upload_id)).body).toMatchObject({ upload_status: 'aborted', parts: [] });
+  });
+
+  it('expires an upload that was not finished in time', async () => {
+    const document = jpeg(JPEG_JFIF);
+    const { body } = await startUpload(document.length);
+    await env.DB.prepare(`
+      UPDATE document_uploads SET expires_at = datetime('now', '-1 minute') WHERE upload_id = ?
+    `).bind(body.upload_id).run();
+
+    expect((await sendPart(body.upload_id, 1, document)).status).toBe(410);
+    expect((await uploadStatus(body.upload_id)).body.upload_status).toBe('expired');
+
+    const swept = await abortExpiredUploads(env);
+    expect(swept.expired).toBeGreaterThanOrEqual(1);
+    const row = await env.DB.prepare('SELECT upload_status FROM document_uploads WHERE upload_id = ?').bind(body.upload_id).first();
+    expect(row?.upload_status).toBe('expired');
+  });
+
+  it('closes an upload whose content is rejected', async () => {
+    const document = bytesOf('<html><script>alert(1)</script></html>');
+    const { body } = await startUpload(document.length, 'passport.html');
+    await sendPart(body.upload_id, 1, document);
+
+    expect(await complete(body.upload_id)).toMatchObject({ status: 400, body: { error: 'Document rejected' } });
+    expect((await uploadStatus(body.upload_id)).body.upload_status).toBe('rejected');
+    const stored = await env.DB.prepare('SELECT 1 FROM document_storage WHERE document_id = ?').bind(body.document_id).first();
+    expect(stored).toBeNull();
+  });
+
+  it('hides uploads from other tenants', async () => {
+    const { body } = await startUpload(100);
+
+    expect((await uploadStatus(body.upload_id, { tenantId: 'tenant_b', allTenants: false })).status).toBe(404);
+    expect((await uploadStatus(body.upload_id, { tenantId: null, allTenants: true })).status).toBe(200);
+  });
+});
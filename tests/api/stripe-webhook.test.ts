@@ -0,0 +1,163 @@
+import { createHmac } from 'node:crypto';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { onRequestPost } from '../../functions/api/stripe-webhook';
+import { createTestEnvironment, pagesContext, TestBindings, TestEnvironment } from '../helpers/bindings';
+
+const WEBHOOK_SECRET = 'whsec_test';
+const STRIPE_SESSION_ID = 'vs_test_123';
+const SESSION_OID = '1.3.6.1.4.1.61026.1.1.1700000000000';
+
+let testEnv: TestEnvironment;
+let env: TestBindings & { VITE_STRIPE_WEBHOOK_SECRET: string };
+let eventCounter = 0;
+
+function stripeEvent(status: string, created: number, type = `identity.verification_session.${status}`) {
+  return {
+    id: `evt_${++eventCounter}`,
+    type,
+    created,
+    data: {
+      object: {
+        id: STRIPE_SESSION_ID,
+        type: 'document',
+        status,
+        metadata: { brainsait_oid: SESSION_OID, country_code: 'SA' }
+      }
+    }
+  };
+}
+
+function signedRequest(payload: string, options: { secret?: string; timestamp?: number } = {}) {
+  const timestamp = options.timestamp ?? Math.floor(Date.now() / 1000);
+  const signature = createHmac('sha256', options.secret ?? WEBHOOK_SECRET).update(`${timestamp}.${payload}`).digest('hex');
+  return new Request('https://iod.brainsait.test/api/stripe-webhook', {
+    method: 'POST',
+    headers: { 'Stripe-Signature': `t=${timestamp},v1=${signature}` },
+    body: payload
+  });
+}
+
+async function deliver(event: object) {
+  const response = await onRequestPost(pagesContext(signedRequest(JSON.stringify(event)), env));
+  return { status: response.status, body: await response.json() as Record<string, any> };
+}
+
+async function sessionStatus() {
+  const row = await env.DB.prepare(`
+    SELECT session_status, last_event_at FROM verification_sessions WHERE stripe_session_id = ?
+  `).bind(STRIPE_SESSION_ID).first<{ session_status: string; last_event_at: number | null }>();
+  return row;
+}
+
+beforeAll(async () => {
+  testEnv = await createTestEnvironment();
+  env = { ...testEnv.env, VITE_STRIPE_WEBHOOK_SECRET: WEBHOOK_SECRET };
+});
+
+afterAll(async () => {
+  await testEnv.dispose();
+});
+
+beforeEach(async () => {
+  await env.DB.prepare('DELETE FROM verification_sessions').run();
+  await env.DB.prepare('DELETE FROM users').run();
+  await env.DB.prepare(`
+    INSERT INTO verification_sessions (session_oid, stripe_session_id, session_status, country_context)
+    VALUES (?, ?, 'created', 'SA')
+  `).bind(SESSION_OID, STRIPE_SESSION_ID).run();
+});
+
+describe('stripe webhook signature', () => {
+  it('rejects a request without a Stripe-Signature header', async () => {
+    const request = new Request('https://iod.brainsait.test/api/stripe-webhook', {
+      method: 'POST',
+      body: JSON.stringify(stripeEvent('verified', 1000))
+    });
+    const response = await onRequestPost(pagesContext(request, env));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ error: 'Missing Stripe signature' });
+  });
+
+  it('rejects a payload signed with another secret', async () => {
+    const request = signedRequest(JSON.stringify(stripeEvent('verified', 1000)), { secret: 'whsec_other' });
+    const response = await onRequestPost(pagesContext(request, env));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ error: 'Invalid Stripe signature' });
+  });
+
+  it('rejects a payload altered after signing', async () => {
+    const signed = signedRequest(JSON.stringify(stripeEvent('processing', 1000)));
+    const tampered = new Request(signed.url, {
+      method: 'POST',
+      headers: signed.headers,
+      body: JSON.stringify(stripeEvent('verified', 1000))
+    });
+    const response = await onRequestPost(pagesContext(tampered, env));
+
+    expect(response.status).toBe(400);
+    expect((await sessionStatus())?.session_status).toBe('created');
+  });
+
+  it('rejects a signature outside the replay tolerance', async () => {
+    const timestamp = Math.floor(Date.now() / 1000) - 600;
+    const request = signedRequest(JSON.stringify(stripeEvent('verified', 1000)), { timestamp });
+    const response = await onRequestPost(pagesContext(request, env));
+
+    expect(response.status).toBe(400);
+  });
+
+  it('applies a correctly signed event', async () => {
+    const { status, body } = await deliver(stripeEvent('verified', 1000));
+
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ handled: true, session_oid: SESSION_OID, session_status: 'verified' });
+    expect(body.user_oid).toEqual(expect.any(String));
+    expect(await sessionStatus()).toEqual({ session_status: 'verified', last_event_at: 1000 });
+  });
+});
+
+describe('stripe webhook ordering', () => {
+  it('acknowledges a redelivered event without applying it twice', async () => {
+    const event = stripeEvent('processing', 1000);
+    await deliver(event);
+    const { body } = await deliver(event);
+
+    expect(body).toMatchObject({ received: true, duplicate: true });
+  });
+
+  it('ignores an event older than the status already applied', async () => {
+    await deliver(stripeEvent('verified', 2000));
+    const { body } = await deliver(stripeEvent('processing', 1000));
+
+    expect(body).toMatchObject({ handled: false, stale: true, session_status: 'verified' });
+    expect(await sessionStatus()).toEqual({ session_status: 'verified', last_event_at: 2000 });
+  });
+
+  it('breaks same-second ties by status precedence', async () => {
+    await deliver(stripeEvent('requires_input', 1000));
+    const stale = await deliver(stripeEvent('processing', 1000));
+    expect(stale.body).toMatchObject({ stale: true });
+
+    const applied = await deliver(stripeEvent('verified', 1000));
+    expect(applied.body).toMatchObject({ handled: true, session_status: 'verified' });
+  });
+
+  it('never takes a session out of redaction', async () => {
+    await deliver(stripeEvent('verified', 1000));
+    await deliver(stripeEvent('verified', 1500, 'identity.verification_session.redacted'));
+    const { body } = await deliver(stripeEvent('verified', 3000));
+
+    expect(body).toMatchObject({ stale: true, session_status: 'redacted' });
+    expect((await sessionStatus())?.session_status).toBe('redacted');
+  });
+
+  it('applies redaction even when it arrives before older events', async () => {
+    await deliver(stripeEvent('verified', 1000, 'identity.verification_session.redacted'));
+    const { body } = await deliver(stripeEvent('processing', 500));
+
+    expect(body).toMatchObject({ stale: true });
+    expect((await sessionStatus())?.session_status).toBe('redacted');
+  });
+});
@@ -0,0 +1,93 @@
+// BrainSAIT IOD Tests - Worker Bindings
+// Real D1, KV and R2 from Miniflare behind the binding interfaces the functions use
+
+import { readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { Miniflare } from 'miniflare';
+
+export interface TestBindings {
+  DB: D1Database;
+  SESSIONS: KVNamespace;
+  CACHE: KVNamespace;
+  NEURAL_CONTEXT: KVNamespace;
+  DOCUMENTS: R2Bucket;
+  NEURAL_DATA: R2Bucket;
+  BRAINSAIT_OID_ROOT: string;
+}
+
+export interface TestEnvironment {
+  env: TestBindings;
+  dispose(): Promise<void>;
+}
+
+const SCHEMA_PATH = fileURLToPath(new URL('../../schema.sql', import.meta.url));
+
+// Starts an in-memory Miniflare instance and loads schema.sql into its D1 database
+export async function createTestEnvironment(): Promise<TestEnvironment> {
+  const mf = new Miniflare({
+    modules: true,
+    script: 'export default { fetch() { return new Response(null, { status: 404 }); } }',
+    d1Databases: ['DB'],
+    kvNamespaces: ['SESSIONS', 'CACHE', 'NEURAL_CONTEXT'],
+    r2Buckets: ['DOCUMENTS', 'NEURAL_DATA']
+  });
+
+  const db = await mf.getD1Database('DB') as unknown as D1Database;
+  for (const statement of schemaStatements()) {
+    await db.prepare(statement).run();
+  }
+
+  return {
+    env: {
+      DB: db,
+      SESSIONS: await mf.getKVNamespace('SESSIONS') as unknown as KVNamespace,
+      CACHE: await mf.getKVNamespace('CACHE') as unknown as KVNamespace,
+      NEURAL_CONTEXT: await mf.getKVNamespace('NEURAL_CONTEXT') as unknown as KVNamespace,
+      DOCUMENTS: withKnownLengthPuts(await mf.getR2Bucket('DOCUMENTS') as unknown as R2Bucket),
+      NEURAL_DATA: withKnownLengthPuts(await mf.getR2Bucket('NEURAL_DATA') as unknown as R2Bucket),
+      BRAINSAIT_OID_ROOT: '1.3.6.1.4.1.61026'
+    },
+    dispose: () => mf.dispose()
+  };
+}
+
+// Builds the context a Pages Function receives, with the data the API middleware would attach
+export function pagesContext<E, P = Record<string, string>>(
+  request: Request,
+  env: E,
+  options: { params?: P; data?: Record<string, unknown>; background?: Promise<unknown>[] } = {}
+): EventContext<E, P, any> {
+  return {
+    request,
+    env,
+    params: options.params ?? ({} as P),
+    data: { tenant: { tenantId: null, allTenants: false }, ...options.data },
+    next: async () => new Response(null, { status: 404 }),
+    // Work handed to waitUntil is collected so a test can await it before asserting
+    waitUntil: promise => { options.background?.push(promise); },
+    passThroughOnException: () => {}
+  };
+}
+
+// workerd gives R2 object bodies a known length, so they can be put straight back; streams read
+// through Miniflare's Node proxy lose it, and are buffered here before they reach put
+function withKnownLengthPuts(bucket: R2Bucket): R2Bucket {
+  return new Proxy(bucket, {
+    get(target, property) {
+      if (property === 'put') {
+        return async (key: string, value: Parameters<R2Bucket['put']>[1], options?: Parameters<R2Bucket['put']>[2]) =>
+          target.put(key, value instanceof ReadableStream ? await new Response(value).arrayBuffer() : value, options);
+      }
+      const member = Reflect.get(target, property);
+      return typeof member === 'function' ? member.bind(target) : member;
+    }
+  });
+}
+
+function schemaStatements(): string[] {
+  const sql = readFileSync(SCHEMA_PATH, 'utf8')
+    .split('\n')
+    .map(line => line.replace(/--.*$/, ''))
+    .join('\n');
+  return sql.split(';').map(statement => statement.trim()).filter(Boolean);
+}
@@ -0,0 +1,128 @@
+// BrainSAIT IOD Tests - Document Fixtures
+// Small, structurally valid documents assembled byte by byte so each metadata block is explicit
+
+import { deflateSync } from 'node:zlib';
+
+const encoder = new TextEncoder();
+
+export function bytesOf(...parts: Array<Uint8Array | number[] | string>): Uint8Array<ArrayBuffer> {
+  const chunks = parts.map(part => typeof part === 'string' ? encoder.encode(part) : Uint8Array.from(part));
+  const result = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
+
+export function containsAscii(bytes: Uint8Array, text: string): boolean {
+  return new TextDecoder('latin1').decode(bytes).includes(text);
+}
+
+// JPEG
+
+function jpegSegment(marker: number, payload: Uint8Array | string): Uint8Array {
+  const data = typeof payload === 'string' ? encoder.encode(payload) : payload;
+  return bytesOf([0xff, marker, (data.length + 2) >> 8, (data.length + 2) & 0xff], data);
+}
+
+export const JPEG_JFIF = jpegSegment(0xe0, bytesOf('JFIF\0', [1, 1, 0, 0, 1, 0, 1, 0, 0]));
+export const JPEG_EXIF = jpegSegment(0xe1, 'Exif\0\0GPSLatitude=24.7136');
+export const JPEG_XMP = jpegSegment(0xe1, 'http://ns.adobe.com/xap/1.0/\0<x:xmpmeta>creator</x:xmpmeta>');
+export const JPEG_IPTC = jpegSegment(0xed, 'Photoshop 3.0\0IPTC caption');
+export const JPEG_COMMENT = jpegSegment(0xfe, 'scanned at branch 12');
+export const JPEG_QUANT = jpegSegment(0xdb, bytesOf([0], new Array(64).fill(1)));
+export const JPEG_SCAN = bytesOf([0xff, 0xda, 0x00, 0x08, 0x01, 0x01, 0x00, 0x00, 0x3f, 0x00], [0x12, 0x34, 0xff, 0x00, 0x56], [0xff, 0xd9]);
+
+export function jpeg(...segments: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  return bytesOf([0xff, 0xd8], ...segments, JPEG_SCAN);
+}
+
+// PNG
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function uint32BE(value: number): number[] {
+  return [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+}
+
+function uint32LE(value: number): number[] {
+  return uint32BE(value).reverse();
+}
+
+export function pngChunk(type: string, data: Uint8Array | string): Uint8Array {
+  const body = bytesOf(type, typeof data === 'string' ? encoder.encode(data) : data);
+  return bytesOf(uint32BE(body.length - 4), body, uint32BE(crc32(body)));
+}
+
+export const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+// 1x1 RGB, one filtered scanline of a single red pixel
+export const PNG_IHDR = pngChunk('IHDR', bytesOf(uint32BE(1), uint32BE(1), [8, 2, 0, 0, 0]));
+export const PNG_IDAT = pngChunk('IDAT', deflateSync(Uint8Array.from([0, 0xff, 0, 0])));
+export const PNG_IEND = pngChunk('IEND', new Uint8Array(0));
+export const PNG_TEXT = pngChunk('tEXt', 'Comment\0scanned at branch 12');
+export const PNG_ITXT = pngChunk('iTXt', 'XML:com.adobe.xmp\0\0\0\0\0<x:xmpmeta/>');
+export const PNG_EXIF = pngChunk('eXIf', bytesOf('MM', [0, 42, 0, 0, 0, 8]));
+export const PNG_TIME = pngChunk('tIME', bytesOf([0x07, 0xea, 1, 1, 0, 0, 0]));
+
+export function png(...chunks: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  return bytesOf(PNG_SIGNATURE, ...chunks);
+}
+
+// WebP
+
+export function webpChunk(type: string, data: Uint8Array | string): Uint8Array {
+  const body = typeof data === 'string' ? encoder.encode(data) : data;
+  return bytesOf(type, uint32LE(body.length), body, body.length % 2 ? [0] : []);
+}
+
+export const WEBP_EXIF_FLAG = 0x08;
+export const WEBP_XMP_FLAG = 0x04;
+
+// Extended format header for a 1x1 canvas with the given feature flags
+export function webpVp8x(flags: number): Uint8Array {
+  return webpChunk('VP8X', bytesOf([flags, 0, 0, 0], [0, 0, 0], [0, 0, 0]));
+}
+
+// Lossless 1x1 bitstream; the sanitizer only walks chunks, so its payload is passed through untouched
+export const WEBP_VP8L = webpChunk('VP8L', bytesOf([0x2f, 0x00, 0x00, 0x00, 0x00, 0x07, 0x10, 0x11, 0x11, 0x88, 0x88, 0x08]));
+export const WEBP_EXIF = webpChunk('EXIF', bytesOf('MM', [0, 42, 0, 0, 0, 8], 'GPS'));
+export const WEBP_XMP = webpChunk('XMP ', '<x:xmpmeta>creator</x:xmpmeta>');
+
+export function webp(...chunks: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const body = bytesOf(...chunks);
+  return bytesOf('RIFF', uint32LE(body.length + 4), 'WEBP', body);
+}
+
+// PDF
+
+export function pdf(...objects: string[]): Uint8Array<ArrayBuffer> {
+  return bytesOf('%PDF-1.7\n', objects.join('\n'), '\ntrailer\n<< /Root 1 0 R >>\n%%EOF\n');
+}
+
+// An object stream holding the given object bodies, flate-compressed unless the dictionary says otherwise
+export function pdfObjectStream(dictionary: string, content: string | Uint8Array, options: { compress?: boolean } = {}): Uint8Array<ArrayBuffer> {
+  const raw = typeof content === 'string' ? encoder.encode(content) : content;
+  const data = options.compress === false ? raw : deflateSync(raw);
+  return bytesOf(
+    '%PDF-1.7\n1 0 obj\n<< /Type /Catalog >>\nendobj\n',
+    `2 0 obj\n<< ${dictionary} /Length ${data.length} >>\nstream\n`,
+    data,
+    '\nendstream\nendobj\ntrailer\n<< /Root 1 0 R >>\n%%EOF\n'
+  );
+}
@@ -1,3 +1,4 @@
+/// <reference types="vitest" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 import { resolve } from 'path'
@@ -45,5 +46,13 @@ export default defineConfig({
   },
   optimizeDeps: {
     include: ['react', 'react-dom', '@stripe/stripe-js']
+  },
+  test: {
+    include: ['tests/**/*.test.ts'],
+    environment: 'node',
+    // Each file starts its own Miniflare instance; one at a time keeps workerd's footprint small
+    singleThread: true,
+    testTimeout: 30000,
+    hookTimeout: 30000
   }
 })
\ No newline at end of file
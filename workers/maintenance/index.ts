@@ -0,0 +1,14 @@
+// BrainSAIT IOD Worker - Scheduled Maintenance
+// OID: 1.3.6.1.4.1.61026.4.6 (Data Lifecycle)
+
+// Pages Functions cannot receive cron triggers, so the sweep runs in this standalone Worker
+// bound to the same D1 database, KV namespaces and R2 buckets as the Pages project.
+import { MaintenanceEnv, runMaintenance } from '../../functions/_shared/maintenance';
+
+export default {
+  async scheduled(controller: ScheduledController, env: MaintenanceEnv, ctx: ExecutionContext): Promise<void> {
+    ctx.waitUntil(runMaintenance(env).then(report => {
+      console.log(`Maintenance run for ${controller.cron} finished with ${report.errors.length} error(s): ${report.report_key}`);
+    }));
+  }
+};